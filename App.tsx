@@ -1,142 +1,423 @@
-import React, { useState } from 'react';
-import { Subject, AppState, QuizSession, Question } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Subject, AppState, QuizSession, QuizConfig, QuizSource, Question, Answer, Difficulty, StreamingState, GenerationTally } from './types';
 import { SubjectCard } from './components/SubjectCard';
 import { QuizRunner } from './components/QuizRunner';
 import { ResultsView } from './components/ResultsView';
-import { generateNMTQuestions, generateNMTSimulation, generateSubjectSimulation, generateTopicQuiz } from './services/geminiService';
-import { GraduationCap, Loader2, Sparkles, AlertCircle, Timer, Layers, X, Check, BookOpen, BrainCircuit, ListTree, Shuffle, NotebookPen, MessageCircleQuestion } from 'lucide-react';
-import { TOPICS } from './data/topics';
+import { generateNMTQuestions, streamNMTSimulation, streamSubjectSimulation, generateTopicQuiz, generateExam } from './services/geminiService';
+import { BatchProgress, PartialGenerationError, QuestionStream, QuestionsListener, acceptPartialResult, retryFailedBatches } from './services/batchRunner';
+import { describeError, classifyError } from './services/generationErrors';
+import { BankBlock, BankShortageError, assembleQuiz, countQuestions, recordAnswers } from './services/questionBank';
+import { GraduationCap, Loader2, Sparkles, AlertCircle, Timer, Layers, X, Check, BookOpen, BrainCircuit, ListTree, Shuffle, NotebookPen, MessageCircleQuestion, CheckCircle2, XCircle, RotateCw, Play, Database, FileUp, Settings, Calculator, TrendingUp } from 'lucide-react';
+import { TOPICS, TopicRef } from './data/topics';
 import { StudyView } from './components/StudyView';
 import { ChatView } from './components/ChatView';
+import { ImportPackView } from './components/ImportPackView';
+import { QuestionPack, sessionFromPack } from './services/questionPack';
+import { DifficultyPicker } from './components/DifficultyPicker';
+import { SettingsView } from './components/SettingsView';
+import { PromptLabView } from './components/PromptLabView';
+import { AdmissionView } from './components/AdmissionView';
+import { scaleSessionScores } from './services/nmtScale';
+import { recordSimulationScores } from './services/simulationScores';
+import { ExamBreakView } from './components/ExamBreakView';
+import { HistoryView } from './components/HistoryView';
+import { recordAttempt } from './services/attemptHistory';
+import { CURRENT_EXAM_FORMAT, buildExamSession, completeExamPart, currentExamPart, examBankBlocks, examBlocks, examElectives, isExamFinished, isExamSession } from './services/exam';
+import { QUICK_MODES, QuickMode, createSession, examConfig, isStrictMode, quickQuizConfig, quizTitle, simulationConfig, topicQuizConfig } from './services/quizConfig';
+import { newSeed, seededRandom } from './services/random';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_LABELS } from './services/difficulty';
+
+// A streamed simulation starts its clock once this share of the test has
+// arrived, so the student does not lose time waiting for the rest
+const STREAM_TIMER_SHARE = 0.5;
+
+const timerRunning = (session: QuizSession) =>
+  !session.streaming || session.questions.length >= session.streaming.timerThreshold;
+
+// Puts the latest streamed questions into the session; `startTime` moves to
+// the moment the clock actually starts
+const withStreamedQuestions = (session: QuizSession, questions: Question[], finished: boolean): QuizSession => {
+  const updated: QuizSession = { ...session, questions, streaming: finished ? undefined : session.streaming };
+  return !timerRunning(session) && timerRunning(updated) ? { ...updated, startTime: Date.now() } : updated;
+};
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.MENU);
-  const [selectedSubject, setSelectedSubject] = useState<Subject | null>(null);
   const [session, setSession] = useState<QuizSession | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [loadingText, setLoadingText] = useState("Генеруємо варіант тесту...");
+  const [batchProgress, setBatchProgress] = useState<BatchProgress[]>([]);
+
+  // Set when some simulation blocks failed; the user decides what to do next
+  // `begin` starts the test the way the interrupted generation would have
+  const [partialResult, setPartialResult] = useState<{ error: PartialGenerationError; begin: (questions: Question[]) => void } | null>(null);
+
+  // Mode of the quick subject tests
+  const [quickMode, setQuickMode] = useState<QuickMode>('practice');
+
+  // Offline practice assembles quizzes from the local question bank
+  const [offlinePractice, setOfflinePractice] = useState(false);
+  const [bankSize, setBankSize] = useState(0);
+
+  // Topic picked from the results screen to open in the study notes
+  const [studyTopic, setStudyTopic] = useState<TopicRef | undefined>(undefined);
 
   // Simulation Config State
   const [showSimModal, setShowSimModal] = useState(false);
-  const [simMode, setSimMode] = useState<'mixed' | 'subject'>('mixed');
+  const [simMode, setSimMode] = useState<'mixed' | 'subject' | 'exam'>('mixed');
+  const [examElective, setExamElective] = useState<Subject>(examElectives()[0]);
   const [simSubject, setSimSubject] = useState<Subject>(Subject.MATH);
   const [simTopicMode, setSimTopicMode] = useState<'random' | 'specific'>('random');
   const [simSelectedTopic, setSimSelectedTopic] = useState<string>("");
+  const [simDifficulty, setSimDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+
+  // Simulation still being generated; later blocks go into the running session
+  const streamRef = useRef<{ questions: Question[]; done: boolean } | null>(null);
+
+  // Requests behind the loading screen (or a streaming quiz). Aborted when the
+  // user cancels or leaves, so a late answer cannot replace the current screen.
+  const generationRef = useRef<AbortController | null>(null);
+
+  const beginGeneration = (): AbortSignal => {
+    generationRef.current?.abort();
+    generationRef.current = new AbortController();
+    return generationRef.current.signal;
+  };
 
-  const startQuiz = async (subject: Subject) => {
-    setSelectedSubject(subject);
+  const cancelGeneration = () => {
+    generationRef.current?.abort();
+    generationRef.current = null;
+    streamRef.current = null;
+  };
+
+  // Cancelled batches still report their failure; keep it off the next loading screen
+  const progressListener = (signal: AbortSignal) => (progress: BatchProgress[]) => {
+    if (!signal.aborted) setBatchProgress(progress);
+  };
+
+  useEffect(() => {
+    if (appState === AppState.MENU) {
+      countQuestions().then(setBankSize).catch(() => setBankSize(0));
+    }
+  }, [appState]);
+
+  const errorMessage = (err: unknown) =>
+    err instanceof BankShortageError
+      ? "У банку питань недостатньо збережених питань для цього тесту. Пройдіть кілька тестів онлайн, щоб наповнити його."
+      : describeError(err);
+
+  // Uses the local question bank when the user asked for offline practice,
+  // or when generation fails because the model cannot be reached.
+  // The seed makes the bank pick the same questions for the same config.
+  const loadQuestions = async (generate: () => Promise<Question[]>, blocks: BankBlock[], seed: number): Promise<Question[]> => {
+    if (offlinePractice || !navigator.onLine) {
+      const fromBank = await assembleQuiz(blocks, seededRandom(seed));
+      if (!fromBank) throw new BankShortageError();
+      return fromBank;
+    }
+
+    try {
+      return await generate();
+    } catch (err) {
+      // Partial results get their own choice screen; a plan where no batch
+      // succeeded is judged by why its batches failed
+      if (err instanceof PartialGenerationError && err.completedCount > 0) throw err;
+      const causes = err instanceof PartialGenerationError ? err.failed.map(batch => batch.error) : [err];
+
+      const unreachable = causes.every(cause => {
+        const kind = classifyError(cause).kind;
+        return kind === 'network' || kind === 'rate-limit';
+      });
+      if (unreachable) {
+        const fromBank = await assembleQuiz(blocks, seededRandom(seed)).catch(() => null);
+        if (fromBank) {
+          console.warn("Generation failed, using questions from the local bank", err);
+          return fromBank;
+        }
+      }
+      throw err;
+    }
+  };
+
+  // Quick tests and topic quizzes: a single request, no streaming
+  const runQuiz = async (config: QuizConfig, source: Extract<QuizSource, { kind: 'subject' | 'topic' }>) => {
+    const topic = source.kind === 'topic' ? source.topic : undefined;
     setAppState(AppState.LOADING);
-    setLoadingText(`Генеруємо швидкий тест (5 питань): ${subject}...`);
+    setLoadingText(topic
+      ? `Створюємо тест (${config.count} питань): ${topic}...`
+      : `Генеруємо швидкий тест (${config.count} питань): ${source.subject}...`);
     setErrorMsg(null);
+    const signal = beginGeneration();
+    const tally: GenerationTally = { dropped: 0, repaired: 0, missing: 0 };
 
     try {
-      const questions: Question[] = await generateNMTQuestions(subject);
-      const newSession: QuizSession = {
-        subject: subject,
-        questions,
-        userAnswers: [],
-        startTime: Date.now(),
-        timeLimit: 20 * 60 // 20 minutes for subject quiz
-      };
-      setSession(newSession);
+      const questions = await loadQuestions(
+        () => topic
+          ? generateTopicQuiz(source.subject, topic, config.difficulty, signal, config.count, tally)
+          : generateNMTQuestions(source.subject, config.difficulty, signal, config.count, tally),
+        [{ subject: source.subject, topic, count: config.count, difficulty: config.difficulty }],
+        config.seed
+      );
+      if (signal.aborted) return;
+      setSession({ ...createSession(config, questions), generation: tally });
       setAppState(AppState.QUIZ);
     } catch (err) {
+      if (signal.aborted) return;
       console.error(err);
-      setErrorMsg("Не вдалося завантажити питання. Перевірте з'єднання або API ключ.");
+      setErrorMsg((topic ? "Не вдалося створити тест по темі. " : "") + errorMessage(err));
       setAppState(AppState.ERROR);
     }
   };
 
-  const startSimulation = async () => {
-    setShowSimModal(false);
-    setSelectedSubject(null);
+  // Resolves with the first generated block. Blocks finishing later are
+  // appended to the session until the quiz ends or another one starts.
+  const streamSimulation = (start: (onQuestions: QuestionsListener) => QuestionStream): Promise<Question[]> => {
+    const stream = { questions: [] as Question[], done: false };
+    streamRef.current = stream;
+    const isCurrent = () => streamRef.current === stream;
+
+    const { first, done } = start(questions => {
+      stream.questions = questions;
+      if (isCurrent()) setSession(prev => prev?.streaming ? withStreamedQuestions(prev, questions, false) : prev);
+    });
+    const finish = () => {
+      stream.done = true;
+      if (isCurrent()) setSession(prev => prev?.streaming ? withStreamedQuestions(prev, stream.questions, true) : prev);
+    };
+    done.then(finish, finish);
+
+    // More blocks may have arrived while the first one was being handed over
+    return first.then(() => stream.questions);
+  };
+
+  // Questions handed over by streamSimulation (not by the bank fallback)
+  // keep the session open for the blocks still being generated
+  const beginSimulation = (config: QuizConfig, questions: Question[], tally: GenerationTally, expectedCount?: number) => {
+    const stream = streamRef.current;
+    const streaming: StreamingState | undefined = expectedCount && stream && !stream.done && stream.questions === questions
+      ? { expectedCount, timerThreshold: Math.ceil(expectedCount * STREAM_TIMER_SHARE) }
+      : undefined;
+    setSession({ ...createSession(config, questions, quizTitle(config), streaming), generation: tally });
+    setAppState(AppState.QUIZ);
+  };
+
+  // `begin` starts the test from whatever the user salvages of a partial result
+  const handleSimulationError = (err: unknown, begin: (questions: Question[]) => void) => {
+    console.error(err);
+    if (err instanceof PartialGenerationError) {
+      setPartialResult({ error: err, begin });
+      setErrorMsg(`Не вдалося згенерувати ${err.failed.length} з ${err.plan.batches.length} блоків: ${describeError(err.failed[0].error)}`);
+    } else {
+      setErrorMsg("Не вдалося створити симуляцію. " + errorMessage(err));
+    }
+    setAppState(AppState.ERROR);
+  };
+
+  const runSimulation = async (config: QuizConfig, source: Extract<QuizSource, { kind: 'mixed-simulation' | 'subject-simulation' }>) => {
     setAppState(AppState.LOADING);
     setErrorMsg(null);
+    setPartialResult(null);
+    setBatchProgress([]);
+    const signal = beginGeneration();
+    const tally: GenerationTally = { dropped: 0, repaired: 0, missing: 0 };
+    const begin = (questions: Question[]) => beginSimulation(config, questions, tally);
 
     try {
       let questions: Question[] = [];
-      let sessionTitle = "";
 
-      if (simMode === 'mixed') {
-        setLoadingText("Генеруємо мультитест НМТ (32 питання)... Це може зайняти хвилину.");
-        questions = await generateNMTSimulation();
-        sessionTitle = "НМТ Симуляція (Мультитест)";
+      if (source.kind === 'mixed-simulation') {
+        setLoadingText(`Генеруємо мультитест НМТ (${config.count} питання)... Це може зайняти хвилину.`);
+        questions = await loadQuestions(
+          () => streamSimulation(onQuestions => streamNMTSimulation(onQuestions, progressListener(signal), config.difficulty, signal, tally)),
+          [Subject.UKRAINIAN, Subject.HISTORY, Subject.ENGLISH, Subject.MATH].map(subject => ({ subject, count: config.count / 4, difficulty: config.difficulty })),
+          config.seed
+        );
       } else {
-        const topicArg = simTopicMode === 'specific' ? simSelectedTopic : undefined;
-        const topicDisplay = topicArg ? `(Тема: ${topicArg})` : "(Весь курс)";
-        
-        setLoadingText(`Генеруємо повний тест: ${simSubject} ${topicDisplay}...`);
-        questions = await generateSubjectSimulation(simSubject, topicArg);
-        sessionTitle = `НМТ Симуляція: ${simSubject}`;
+        const topicDisplay = source.topic ? `(Тема: ${source.topic})` : "(Весь курс)";
+
+        setLoadingText(`Генеруємо повний тест: ${source.subject} ${topicDisplay}...`);
+        questions = await loadQuestions(
+          () => streamSimulation(onQuestions => streamSubjectSimulation(source.subject, source.topic, onQuestions, progressListener(signal), config.difficulty, signal, seededRandom(config.seed), tally)),
+          [{ subject: source.subject, topic: source.topic, count: config.count, difficulty: config.difficulty }],
+          config.seed
+        );
       }
 
-      const newSession: QuizSession = {
-        subject: sessionTitle,
-        questions,
-        userAnswers: [],
-        startTime: Date.now(),
-        timeLimit: 60 * 60 // 60 minutes for simulation
-      };
-      setSession(newSession);
+      if (signal.aborted) return;
+      beginSimulation(config, questions, tally, config.count);
+    } catch (err) {
+      if (signal.aborted) return;
+      handleSimulationError(err, begin);
+    }
+  };
+
+  // Exam day: both sittings are generated up front, the elective block last
+  const runExam = async (config: QuizConfig, elective: Subject) => {
+    setAppState(AppState.LOADING);
+    setErrorMsg(null);
+    setPartialResult(null);
+    setBatchProgress([]);
+    const signal = beginGeneration();
+
+    const blocks = examBlocks(elective);
+    const sessionTitle = quizTitle(config);
+    const tally: GenerationTally = { dropped: 0, repaired: 0, missing: 0 };
+    const begin = (questions: Question[]) => {
+      setSession({ ...buildExamSession(sessionTitle, config, questions), generation: tally });
       setAppState(AppState.QUIZ);
+    };
+    setLoadingText(`Генеруємо НМТ у форматі 2026 року: ${config.count} завдань у ${CURRENT_EXAM_FORMAT.sessions.length} сесіях. Це може зайняти кілька хвилин.`);
+
+    try {
+      const questions = await loadQuestions(
+        () => generateExam(blocks, progressListener(signal), config.difficulty, signal, seededRandom(config.seed), tally),
+        examBankBlocks(blocks, config.difficulty),
+        config.seed
+      );
+      if (signal.aborted) return;
+      begin(questions);
     } catch (err) {
-      console.error(err);
-      setErrorMsg("Не вдалося створити симуляцію. Спробуйте ще раз.");
-      setAppState(AppState.ERROR);
+      if (signal.aborted) return;
+      handleSimulationError(err, begin);
+    }
+  };
+
+  // Generates a test from its config; a new seed gives new questions with
+  // the same mode, source and counts
+  const startFromConfig = (config: QuizConfig) => {
+    const { source } = config;
+    switch (source.kind) {
+      case 'subject':
+      case 'topic':
+        return runQuiz(config, source);
+      case 'mixed-simulation':
+      case 'subject-simulation':
+        return runSimulation(config, source);
+      case 'exam':
+        return runExam(config, source.elective);
+      case 'pack':
+        // Nothing to generate from, packs are only replayed (see restartQuiz)
+        return resetApp();
     }
   };
 
-  const startTopicQuiz = async (subject: Subject, topic: string) => {
+  const startQuiz = (subject: Subject) => startFromConfig(quickQuizConfig(subject, quickMode));
+
+  const startSimulation = () => {
+    setShowSimModal(false);
+    if (simMode === 'exam') {
+      startFromConfig(examConfig(examElective, simDifficulty));
+    } else if (simMode === 'mixed') {
+      startFromConfig(simulationConfig({ kind: 'mixed-simulation' }, simDifficulty));
+    } else {
+      const topic = simTopicMode === 'specific' ? simSelectedTopic : undefined;
+      startFromConfig(simulationConfig({ kind: 'subject-simulation', subject: simSubject, topic }, simDifficulty));
+    }
+  };
+
+  const retryFailedBlocks = async () => {
+    if (!partialResult) return;
+    const { error, begin } = partialResult;
     setAppState(AppState.LOADING);
-    setLoadingText(`Створюємо тест (10 питань): ${topic}...`);
+    setLoadingText("Повторюємо невдалі блоки...");
     setErrorMsg(null);
+    setPartialResult(null);
+    const signal = beginGeneration();
 
     try {
-      const questions = await generateTopicQuiz(subject, topic);
-      const newSession: QuizSession = {
-        subject: `Тест по темі: ${topic}`,
-        questions,
-        userAnswers: [],
-        startTime: Date.now(),
-        timeLimit: 15 * 60 // 15 minutes for 10 questions
-      };
-      setSession(newSession);
-      setAppState(AppState.QUIZ);
+      const questions = await retryFailedBatches(error, progressListener(signal), signal);
+      if (signal.aborted) return;
+      begin(questions);
     } catch (err) {
-      console.error(err);
-      setErrorMsg("Не вдалося створити тест по темі. Спробуйте ще раз.");
-      setAppState(AppState.ERROR);
+      if (signal.aborted) return;
+      handleSimulationError(err, begin);
     }
   };
 
-  const handleQuizComplete = (answers: number[], endTime: number) => {
-    if (session) {
-      setSession({ ...session, userAnswers: answers, endTime });
-      setAppState(AppState.RESULTS);
+  const startWithPartialResult = async () => {
+    if (!partialResult) return;
+    const { error, begin } = partialResult;
+    setAppState(AppState.LOADING);
+    setLoadingText("Формуємо тест з готових блоків...");
+    setPartialResult(null);
+    const signal = beginGeneration();
+
+    try {
+      const questions = await acceptPartialResult(error, signal);
+      if (signal.aborted) return;
+      begin(questions);
+    } catch (err) {
+      if (signal.aborted) return;
+      handleSimulationError(err, begin);
+    }
+  };
+
+  const startTopicQuiz = (subject: Subject, topic: string, difficulty: Difficulty) =>
+    startFromConfig(topicQuizConfig(subject, topic, difficulty));
+
+  const startImportedPack = (pack: QuestionPack) => {
+    setSession(sessionFromPack(pack));
+    setAppState(AppState.QUIZ);
+  };
+
+  const finishSession = (finished: QuizSession, answers: Answer[], endTime: number) => {
+    // Blocks still streaming in would not be part of the result anyway
+    cancelGeneration();
+    recordAnswers(finished.questions, answers).catch(error => console.error("Failed to record answers in the bank:", error));
+    if (isStrictMode(finished.config.mode)) {
+      recordSimulationScores(scaleSessionScores(finished.questions, answers), endTime)
+        .catch(error => console.error("Failed to record simulation scores:", error));
     }
+    const result: QuizSession = { ...finished, userAnswers: answers, endTime, streaming: undefined };
+    recordAttempt(result).catch(error => console.error("Failed to record the attempt:", error));
+    setSession(result);
+    setAppState(AppState.RESULTS);
+  };
+
+  const handleQuizComplete = (answers: Answer[], endTime: number, questionTimes: number[]) => {
+    if (!session) return;
+    if (!isExamSession(session)) {
+      finishSession({ ...session, questionTimes }, answers, endTime);
+      return;
+    }
+    // An exam part ends with a break, the last one with the results
+    const next = completeExamPart(session, answers, questionTimes);
+    if (isExamFinished(next)) {
+      finishSession(next, next.userAnswers, endTime);
+    } else {
+      setSession(next);
+      setAppState(AppState.EXAM_BREAK);
+    }
+  };
+
+  const openTopicNotes = (topic: TopicRef) => {
+    setStudyTopic(topic);
+    setAppState(AppState.STUDY);
   };
 
   const resetApp = () => {
+    cancelGeneration();
     setAppState(AppState.MENU);
+    setStudyTopic(undefined);
     setSession(null);
-    setSelectedSubject(null);
+    setPartialResult(null);
+    setBatchProgress([]);
   };
 
+  // Takes the same questions again, whatever their source
   const restartQuiz = () => {
-      if (session?.subject.includes("Симуляція")) {
-          // If it was a simulation, restart with same settings
-          startSimulation();
-      } else if (session?.subject.includes("Тест по темі")) {
-          // It's a bit hard to restart a specific topic quiz without storing the state, 
-          // but for now we redirect to menu or could store lastTopic in state.
-          // Simplest fallback:
-          resetApp();
-      } else if (selectedSubject) {
-          startQuiz(selectedSubject);
-      } else {
-          resetApp();
-      }
-  }
+    if (!session) return;
+    const { config, questions, subject, generation } = session;
+    const replay = config.source.kind === 'exam'
+      ? buildExamSession(subject, config, questions)
+      : createSession(config, questions, subject);
+    setSession({ ...replay, generation });
+    setAppState(AppState.QUIZ);
+  };
+
+  const startNewTest = () => {
+    if (session) startFromConfig({ ...session.config, seed: newSeed() });
+  };
 
   const handleSimSubjectChange = (subj: Subject) => {
       setSimSubject(subj);
@@ -161,11 +442,24 @@ const App: React.FC = () => {
                 НМТ 2026
             </span>
           </div>
-          {appState !== AppState.MENU && (
-             <div className="text-sm font-medium text-slate-500 hidden sm:block">
-                Симулятор іспиту
-             </div>
-          )}
+          <div className="flex items-center space-x-4">
+            {appState !== AppState.MENU && (
+               <div className="text-sm font-medium text-slate-500 hidden sm:block">
+                  Симулятор іспиту
+               </div>
+            )}
+            {/* Hidden mid-test so the current attempt is not lost */}
+            {appState !== AppState.QUIZ && appState !== AppState.LOADING && appState !== AppState.EXAM_BREAK && (
+              <button
+                onClick={() => { resetApp(); setAppState(AppState.SETTINGS); }}
+                aria-label="Налаштування"
+                title="Налаштування"
+                className={`p-2 rounded-lg transition-colors ${appState === AppState.SETTINGS ? 'bg-blue-50 text-blue-600' : 'text-slate-500 hover:bg-slate-100'}`}
+              >
+                <Settings className="w-5 h-5" />
+              </button>
+            )}
+          </div>
         </div>
       </header>
 
@@ -264,8 +558,81 @@ const App: React.FC = () => {
                 </div>
             </div>
 
+            {/* Import Pack Entry */}
+            <button
+              onClick={() => setAppState(AppState.IMPORT)}
+              className="w-full flex items-center p-5 bg-white rounded-2xl border border-slate-200 shadow-sm hover:shadow-md hover:border-blue-300 transition-all text-left group"
+            >
+              <div className="p-3 bg-blue-50 rounded-xl mr-4 group-hover:bg-blue-100 transition-colors">
+                <FileUp className="w-6 h-6 text-blue-600" />
+              </div>
+              <div className="flex-grow">
+                <div className="font-bold text-slate-900">Імпорт набору питань</div>
+                <div className="text-sm text-slate-500">Пройдіть тест з файлу, підготовленого вчителем</div>
+              </div>
+            </button>
+
+            {/* Progress Dashboard Entry */}
+            <button
+              onClick={() => setAppState(AppState.HISTORY)}
+              className="mt-4 w-full flex items-center p-5 bg-white rounded-2xl border border-slate-200 shadow-sm hover:shadow-md hover:border-blue-300 transition-all text-left group"
+            >
+              <div className="p-3 bg-blue-50 rounded-xl mr-4 group-hover:bg-blue-100 transition-colors">
+                <TrendingUp className="w-6 h-6 text-blue-600" />
+              </div>
+              <div className="flex-grow">
+                <div className="font-bold text-slate-900">Мій прогрес</div>
+                <div className="text-sm text-slate-500">Рейтинг, слабкі теми та всі попередні спроби</div>
+              </div>
+            </button>
+
+            {/* Admission Calculator Entry */}
+            <button
+              onClick={() => setAppState(AppState.ADMISSION)}
+              className="mt-4 w-full flex items-center p-5 bg-white rounded-2xl border border-slate-200 shadow-sm hover:shadow-md hover:border-blue-300 transition-all text-left group"
+            >
+              <div className="p-3 bg-blue-50 rounded-xl mr-4 group-hover:bg-blue-100 transition-colors">
+                <Calculator className="w-6 h-6 text-blue-600" />
+              </div>
+              <div className="flex-grow">
+                <div className="font-bold text-slate-900">Конкурсний бал</div>
+                <div className="text-sm text-slate-500">На які спеціальності ви проходите з результатами симуляцій</div>
+              </div>
+            </button>
+
             <div className="flex items-center justify-between mt-12 mb-4">
-                <h3 className="text-xl font-bold text-slate-800">Швидкі тести (5 питань)</h3>
+                <h3 className="text-xl font-bold text-slate-800">Швидкі тести</h3>
+                <button
+                    onClick={() => setOfflinePractice(!offlinePractice)}
+                    className={`flex items-center px-3 py-1.5 rounded-lg text-sm font-semibold border transition-colors ${
+                        offlinePractice
+                            ? 'bg-slate-900 text-white border-slate-900'
+                            : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100'
+                    }`}
+                    title="Тести збираються з раніше згенерованих питань без звернення до ШІ"
+                >
+                    <Database className="w-4 h-4 mr-2" />
+                    Офлайн-практика
+                    <span className={`ml-2 text-xs font-normal ${offlinePractice ? 'text-slate-300' : 'text-slate-400'}`}>{bankSize} у банку</span>
+                </button>
+            </div>
+
+            {/* Quick test mode */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              {(Object.keys(QUICK_MODES) as QuickMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setQuickMode(mode)}
+                  className={`p-3 rounded-xl border-2 text-left transition-all ${
+                    quickMode === mode
+                      ? 'border-blue-600 bg-blue-50 ring-1 ring-blue-600'
+                      : 'border-slate-200 bg-white hover:border-slate-300 hover:bg-slate-50'
+                  }`}
+                >
+                  <div className={`font-bold text-sm ${quickMode === mode ? 'text-blue-700' : 'text-slate-700'}`}>{QUICK_MODES[mode].label}</div>
+                  <div className="text-xs text-slate-500">{QUICK_MODES[mode].description}</div>
+                </button>
+              ))}
             </div>
 
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -284,15 +651,42 @@ const App: React.FC = () => {
             <StudyView 
               onBack={resetApp} 
               onStartQuiz={startTopicQuiz}
+              initialTopic={studyTopic}
             />
         )}
         
+        {appState === AppState.IMPORT && (
+            <ImportPackView 
+              onBack={resetApp} 
+              onStart={startImportedPack}
+            />
+        )}
+
         {appState === AppState.CHAT && (
             <ChatView 
               onBack={resetApp} 
             />
         )}
 
+        {appState === AppState.SETTINGS && (
+            <SettingsView onBack={resetApp} onOpenPromptLab={() => setAppState(AppState.PROMPT_LAB)} />
+        )}
+
+        {appState === AppState.HISTORY && (
+            <HistoryView
+              onBack={resetApp}
+              onOpenAttempt={(past) => { setSession(past); setAppState(AppState.RESULTS); }}
+            />
+        )}
+
+        {appState === AppState.ADMISSION && (
+            <AdmissionView onBack={resetApp} />
+        )}
+
+        {appState === AppState.PROMPT_LAB && (
+            <PromptLabView onBack={() => setAppState(AppState.SETTINGS)} />
+        )}
+
         {appState === AppState.LOADING && (
           <div className="flex flex-col items-center justify-center min-h-[50vh] animate-in fade-in duration-500">
             <div className="relative">
@@ -301,6 +695,32 @@ const App: React.FC = () => {
             </div>
             <h2 className="mt-8 text-2xl font-bold text-slate-800">{loadingText}</h2>
             <p className="text-slate-500 mt-2 text-center max-w-md">ШІ аналізує програму та підбирає актуальні матеріали.</p>
+
+            {/* Per-block progress for multi-batch simulations */}
+            {batchProgress.length > 0 && (
+              <div className="mt-8 w-full max-w-md bg-white rounded-2xl border border-slate-200 divide-y divide-slate-100">
+                {batchProgress.map((batch) => (
+                  <div key={batch.id} className="flex items-center justify-between px-4 py-3">
+                    <span className="text-sm font-medium text-slate-700">{batch.label}</span>
+                    <span className="flex items-center text-xs font-semibold">
+                      {batch.status === 'pending' && <span className="text-slate-400">Очікує</span>}
+                      {batch.status === 'loading' && <><Loader2 className="w-4 h-4 mr-1 text-blue-600 animate-spin" /><span className="text-blue-600">Генерується</span></>}
+                      {batch.status === 'retrying' && <><RotateCw className="w-4 h-4 mr-1 text-yellow-600 animate-spin" /><span className="text-yellow-600">Повтор {batch.attempt}</span></>}
+                      {batch.status === 'done' && <><CheckCircle2 className="w-4 h-4 mr-1 text-green-600" /><span className="text-green-600">Готово</span></>}
+                      {batch.status === 'failed' && <><XCircle className="w-4 h-4 mr-1 text-red-600" /><span className="text-red-600">Помилка</span></>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <button
+              onClick={resetApp}
+              className="mt-8 flex items-center px-5 py-2.5 bg-white border border-slate-200 text-slate-600 rounded-xl font-semibold hover:bg-slate-50 transition-colors"
+            >
+              <X className="w-5 h-5 mr-2" />
+              Скасувати
+            </button>
           </div>
         )}
 
@@ -311,27 +731,65 @@ const App: React.FC = () => {
                 </div>
                 <h2 className="text-2xl font-bold text-slate-800 mb-2">Щось пішло не так</h2>
                 <p className="text-slate-600 mb-8 max-w-md text-center">{errorMsg}</p>
-                <button 
-                    onClick={resetApp}
-                    className="px-6 py-3 bg-slate-900 text-white rounded-xl font-semibold hover:bg-slate-800 transition-colors"
-                >
-                    Спробувати ще раз
-                </button>
+                {partialResult ? (
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <button 
+                            onClick={startWithPartialResult}
+                            disabled={partialResult.error.completedCount === 0}
+                            className="flex items-center justify-center px-6 py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Play className="w-5 h-5 mr-2" />
+                            Почати з {partialResult.error.completedCount} питань
+                        </button>
+                        <button 
+                            onClick={retryFailedBlocks}
+                            className="flex items-center justify-center px-6 py-3 bg-slate-900 text-white rounded-xl font-semibold hover:bg-slate-800 transition-colors"
+                        >
+                            <RotateCw className="w-5 h-5 mr-2" />
+                            Повторити невдалі блоки
+                        </button>
+                        <button 
+                            onClick={resetApp}
+                            className="px-6 py-3 bg-white border border-slate-300 text-slate-700 rounded-xl font-semibold hover:bg-slate-100 transition-colors"
+                        >
+                            На головну
+                        </button>
+                    </div>
+                ) : (
+                    <button 
+                        onClick={resetApp}
+                        className="px-6 py-3 bg-slate-900 text-white rounded-xl font-semibold hover:bg-slate-800 transition-colors"
+                    >
+                        Спробувати ще раз
+                    </button>
+                )}
            </div>
         )}
 
         {appState === AppState.QUIZ && session && (
           <QuizRunner 
-            session={session} 
+            key={session.exam?.partIndex}
+            session={isExamSession(session) ? currentExamPart(session) : session} 
             onComplete={handleQuizComplete} 
           />
         )}
 
+        {appState === AppState.EXAM_BREAK && session && isExamSession(session) && (
+          <ExamBreakView
+            session={session}
+            onContinue={() => setAppState(AppState.QUIZ)}
+          />
+        )}
+
         {appState === AppState.RESULTS && session && (
           <ResultsView 
             session={session} 
             onRestart={restartQuiz} 
+            onNewTest={session.config.source.kind === 'pack' ? undefined : startNewTest}
             onHome={resetApp} 
+            onStudyTopic={openTopicNotes}
+            onPracticeTopic={(topic) => startTopicQuiz(topic.subject, topic.topic, DEFAULT_DIFFICULTY)}
+            onOpenAdmission={isStrictMode(session.config.mode) ? () => setAppState(AppState.ADMISSION) : undefined}
           />
         )}
 
@@ -382,9 +840,47 @@ const App: React.FC = () => {
                     </div>
                     <p className="text-xs text-slate-500">Поглиблений тест з конкретної теми</p>
                   </button>
+
+                  <button
+                    onClick={() => setSimMode('exam')}
+                    className={`col-span-2 p-4 rounded-xl border-2 text-left transition-all ${
+                      simMode === 'exam'
+                        ? 'border-blue-600 bg-blue-50 ring-1 ring-blue-600'
+                        : 'border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+                    }`}
+                  >
+                     <div className="flex items-center mb-2">
+                       <GraduationCap className={`w-5 h-5 mr-2 ${simMode === 'exam' ? 'text-blue-600' : 'text-slate-500'}`} />
+                       <span className={`font-bold ${simMode === 'exam' ? 'text-blue-700' : 'text-slate-700'}`}>День НМТ</span>
+                    </div>
+                    <p className="text-xs text-slate-500">Повний формат 2026 року: дві сесії з перервою, справжня кількість і типи завдань</p>
+                  </button>
                 </div>
               </div>
 
+              {/* Elective Selection (Only for the exam) */}
+              {simMode === 'exam' && (
+                <div className="animate-in slide-in-from-top-2 duration-200">
+                  <label className="block text-sm font-semibold text-slate-700 mb-3">Предмет на вибір</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {examElectives().map((subj) => (
+                      <button
+                        key={subj}
+                        onClick={() => setExamElective(subj)}
+                        className={`px-4 py-3 rounded-lg text-sm font-medium transition-all flex items-center justify-between ${
+                          examElective === subj
+                            ? 'bg-blue-600 text-white shadow-md'
+                            : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                        }`}
+                      >
+                        {subj}
+                        {examElective === subj && <Check className="w-4 h-4 ml-2" />}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Subject Selection (Only if Single Subject) */}
               {simMode === 'subject' && (
                 <div className="space-y-6 animate-in slide-in-from-top-2 duration-200">
@@ -441,8 +937,8 @@ const App: React.FC = () => {
                                     <option value="" disabled>Оберіть тему...</option>
                                     {TOPICS[simSubject].map((group, idx) => (
                                         <optgroup key={idx} label={group.category}>
-                                            {group.topics.map((topic, tIdx) => (
-                                                <option key={`${idx}-${tIdx}`} value={topic}>{topic}</option>
+                                            {group.topics.map(topic => (
+                                                <option key={topic.code} value={topic.name}>{topic.name}</option>
                                             ))}
                                         </optgroup>
                                     ))}
@@ -461,15 +957,32 @@ const App: React.FC = () => {
                 </div>
               )}
 
+              {/* Difficulty */}
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-3">Рівень складності</label>
+                <DifficultyPicker value={simDifficulty} onChange={setSimDifficulty} />
+              </div>
+
               {/* Info Box */}
               <div className="bg-yellow-50 p-4 rounded-xl border border-yellow-100 flex items-start">
                   <BrainCircuit className="w-5 h-5 text-yellow-600 mr-3 mt-0.5 flex-shrink-0" />
                   <div className="text-sm text-yellow-800">
                     <span className="font-bold block mb-1">Параметри сесії:</span>
-                    Ви отримаєте <span className="font-bold">32 питання</span>. Час на виконання — <span className="font-bold">60 хвилин</span>.
+                    {simMode === 'exam' ? (
+                      <>
+                        {CURRENT_EXAM_FORMAT.sessions.map((sitting, idx) => (
+                          <span key={idx} className="block">
+                            <span className="font-bold">{sitting.title}</span> ({sitting.minutes} хв): {sitting.subjects.map(slot => slot === 'elective' ? examElective : slot).join(', ')}
+                          </span>
+                        ))}
+                        Між сесіями — перерва {CURRENT_EXAM_FORMAT.breakMinutes} хв. Повернутися до завдань завершеної сесії не можна.
+                      </>
+                    ) : (<>
+                    Ви отримаєте <span className="font-bold">32 питання</span> (рівень: {DIFFICULTY_LABELS[simDifficulty].toLowerCase()}). Час на виконання — <span className="font-bold">60 хвилин</span>.
                     {simMode === 'mixed' && " Питання будуть рівномірно розподілені між основними предметами."}
                     {simMode === 'subject' && simTopicMode === 'random' && ` Питання будуть охоплювати весь курс предмету "${simSubject}".`}
                     {simMode === 'subject' && simTopicMode === 'specific' && ` Питання будуть сфокусовані на темі "${simSelectedTopic || 'Обрана тема'}" предмету "${simSubject}".`}
+                    </>)}
                   </div>
               </div>
             </div>
@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Subject } from '../types';
+import { AdmissionResult, CURRENT_ADMISSION_RULES, SubjectRatings, competitiveScore } from '../services/admission';
+import { ScorePick, SimulationScoreRecord, loadSubjectScores } from '../services/simulationScores';
+import { ArrowLeft, Calculator, CheckCircle2, XCircle, MapPin, Search } from 'lucide-react';
+
+interface AdmissionViewProps {
+  onBack: () => void;
+}
+
+interface AdmissionSettings {
+  specialties: string[]; // Specialty codes
+  regionId: string;
+  pick: ScorePick;
+}
+
+const SETTINGS_KEY = 'nmt_admission_settings';
+
+const DEFAULT_SETTINGS: AdmissionSettings = {
+  specialties: [],
+  regionId: CURRENT_ADMISSION_RULES.regions[0].id,
+  pick: 'best'
+};
+
+const loadSettings = (): AdmissionSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
+  } catch (e) {
+    console.error(e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+const describeResult = (result: AdmissionResult): string => {
+  if (result.failed.length > 0) return `Не подолано поріг: ${result.failed.join(', ')}`;
+  if (result.missing.length > 0) return `Немає результату: ${result.missing.join(', ')}`;
+  return `Четвертий предмет: ${result.elective}`;
+};
+
+export const AdmissionView: React.FC<AdmissionViewProps> = ({ onBack }) => {
+  const [settings, setSettings] = useState<AdmissionSettings>(loadSettings);
+  const [scores, setScores] = useState<Record<string, SimulationScoreRecord> | null>(null);
+  const [filter, setFilter] = useState('');
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  useEffect(() => {
+    loadSubjectScores(settings.pick).then(setScores).catch(error => {
+      console.error("Failed to load simulation scores:", error);
+      setScores({});
+    });
+  }, [settings.pick]);
+
+  const rules = CURRENT_ADMISSION_RULES;
+  const region = rules.regions.find(r => r.id === settings.regionId) ?? rules.regions[0];
+
+  const results = useMemo(() => {
+    const ratings: SubjectRatings = {};
+    Object.values(scores ?? {}).forEach(record => { ratings[record.subject] = record.rating; });
+    return rules.specialties
+      .filter(s => settings.specialties.includes(s.code))
+      .map(specialty => ({ specialty, result: competitiveScore(specialty, ratings, region) }))
+      .sort((a, b) => (b.result.score ?? -1) - (a.result.score ?? -1));
+  }, [scores, settings.specialties, region, rules]);
+
+  const toggleSpecialty = (code: string) => {
+    setSettings(prev => ({
+      ...prev,
+      specialties: prev.specialties.includes(code)
+        ? prev.specialties.filter(c => c !== code)
+        : [...prev.specialties, code]
+    }));
+  };
+
+  const query = filter.trim().toLowerCase();
+  const listed = rules.specialties.filter(s => !query || s.name.toLowerCase().includes(query) || s.code.includes(query));
+
+  return (
+    <div className="max-w-4xl mx-auto w-full animate-in fade-in duration-500">
+      <div className="mb-8 flex items-center">
+        <button
+            onClick={onBack}
+            className="mr-4 p-2 rounded-full hover:bg-slate-200 transition-colors"
+        >
+            <ArrowLeft className="w-6 h-6 text-slate-600" />
+        </button>
+        <div>
+            <h2 className="text-3xl font-bold text-slate-900">Конкурсний бал</h2>
+            <p className="text-slate-500">Розрахунок за результатами ваших симуляцій НМТ</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Subject ratings */}
+        <div className="bg-white rounded-3xl shadow-lg border border-slate-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-bold text-slate-800">Ваші бали</h3>
+            <div className="flex bg-slate-100 rounded-lg p-1 text-xs font-semibold">
+              {(['best', 'latest'] as ScorePick[]).map(pick => (
+                <button
+                  key={pick}
+                  onClick={() => setSettings(prev => ({ ...prev, pick }))}
+                  className={`px-3 py-1 rounded-md transition-colors ${settings.pick === pick ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+                >
+                  {pick === 'best' ? 'Найкращі' : 'Останні'}
+                </button>
+              ))}
+            </div>
+          </div>
+          {scores === null ? (
+            <p className="text-sm text-slate-500">Завантаження...</p>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {Object.values(Subject).map(subject => {
+                const record = scores[subject];
+                return (
+                  <div key={subject} className="flex items-center justify-between py-2 text-sm">
+                    <span className="text-slate-700">{subject}</span>
+                    {!record ? (
+                      <span className="text-slate-400">—</span>
+                    ) : record.rating === null ? (
+                      <span className="font-semibold text-amber-600">Поріг не подолано</span>
+                    ) : (
+                      <span className="font-bold text-slate-800" title={`${record.rawScore} з ${record.maxRawScore} тестових балів, ${new Date(record.takenAt).toLocaleDateString('uk-UA')}`}>
+                        {record.rating}{record.estimated && <span className="ml-1 font-normal text-xs text-slate-400">(оцінка)</span>}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <p className="mt-3 text-xs text-slate-400">Бали беруться з завершених симуляцій. Пройдіть симуляцію з предмета, щоб додати його.</p>
+        </div>
+
+        {/* Specialties and region */}
+        <div className="bg-white rounded-3xl shadow-lg border border-slate-200 p-6">
+          <h3 className="font-bold text-slate-800 mb-4">Спеціальності</h3>
+          <label className="flex items-center text-sm text-slate-600 mb-3">
+            <MapPin className="w-4 h-4 mr-2 text-slate-400" />
+            <select
+              value={region.id}
+              onChange={(e) => setSettings(prev => ({ ...prev, regionId: e.target.value }))}
+              className="flex-1 px-3 py-2 rounded-xl border border-slate-200 bg-white text-slate-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Місто закладу освіти"
+            >
+              {rules.regions.map(r => <option key={r.id} value={r.id}>{r.name} (РК {r.coefficient.toFixed(2)})</option>)}
+            </select>
+          </label>
+          <div className="relative mb-3">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Пошук за назвою або кодом"
+              className="w-full pl-9 pr-3 py-2 rounded-xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {listed.map(s => (
+              <label key={s.code} className="flex items-center p-2 rounded-lg hover:bg-slate-50 cursor-pointer text-sm">
+                <input
+                  type="checkbox"
+                  checked={settings.specialties.includes(s.code)}
+                  onChange={() => toggleSpecialty(s.code)}
+                  className="mr-3 accent-blue-600"
+                />
+                <span className="font-mono text-xs text-slate-400 w-14 flex-shrink-0">{s.code}</span>
+                <span className="text-slate-700">{s.name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Results */}
+      <div className="mt-6 bg-white rounded-3xl shadow-lg border border-slate-200 p-6">
+        <h3 className="font-bold text-slate-800 mb-4 flex items-center">
+          <Calculator className="w-5 h-5 mr-2 text-slate-500" />
+          Результат
+        </h3>
+        {results.length === 0 ? (
+          <p className="text-sm text-slate-500">Оберіть спеціальності, щоб побачити конкурсний бал.</p>
+        ) : (
+          <div className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+            {results.map(({ specialty, result }) => (
+              <div key={specialty.code} className="flex flex-col sm:flex-row sm:items-center gap-3 p-4">
+                <div className="flex-grow min-w-0">
+                  <div className="font-semibold text-slate-800">{specialty.code} {specialty.name}</div>
+                  <div className="text-xs text-slate-500">
+                    {describeResult(result)} · мінімум {specialty.minScore}{specialty.sectoral !== 1 ? ` · ГК ${specialty.sectoral}` : ''}
+                  </div>
+                </div>
+                <div className="text-2xl font-bold text-slate-800 whitespace-nowrap">
+                  {result.score !== null ? result.score.toFixed(3) : '—'}
+                </div>
+                {result.qualifies ? (
+                  <span className="flex items-center text-sm font-semibold text-green-600 whitespace-nowrap">
+                    <CheckCircle2 className="w-4 h-4 mr-1" /> Проходите
+                  </span>
+                ) : (
+                  <span className="flex items-center text-sm font-semibold text-red-600 whitespace-nowrap">
+                    <XCircle className="w-4 h-4 mr-1" /> Не проходите
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="mt-3 text-xs text-slate-400">
+          КБ = (К1·П1 + К2·П2 + К3·П3 + К4·П4) / (К1 + К2 + К3 + (К4max + К4) / 2) × РК × ГК, не більше 200.
+          Коефіцієнти: {rules.source} ({rules.version}).
+        </p>
+      </div>
+    </div>
+  );
+};
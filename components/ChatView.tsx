@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { createNMTChat, generateSpeech } from '../services/geminiService';
-import { Chat } from "@google/genai";
+import { ChatSession } from '../services/llm';
+import { mathToSpeech } from '../services/mathMarkup';
+import { MathFormula } from './MathText';
 import { Send, ArrowLeft, Bot, User, Sparkles, Loader2, Eraser, Mic, MicOff, Volume2, VolumeX, StopCircle, Settings, X, HelpCircle, Smartphone, Monitor, Apple, Cloud, Pause, Play, Square } from 'lucide-react';
 
 interface ChatViewProps {
@@ -35,6 +37,8 @@ export const ChatView: React.FC<ChatViewProps> = ({ onBack }) => {
   ]);
   const [inputValue, setInputValue] = useState('');
   const [loading, setLoading] = useState(false);
+  // The reply is already arriving, so the "thinking" bubble is not needed
+  const [replyStreaming, setReplyStreaming] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [isSoundOn, setIsSoundOn] = useState(true);
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -52,7 +56,7 @@ export const ChatView: React.FC<ChatViewProps> = ({ onBack }) => {
   });
   
   // Refs
-  const chatSessionRef = useRef<Chat | null>(null);
+  const chatSessionRef = useRef<ChatSession | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const recognitionRef = useRef<any>(null);
   const synthRef = useRef<SpeechSynthesis | null>(null);
@@ -226,7 +230,7 @@ export const ChatView: React.FC<ChatViewProps> = ({ onBack }) => {
       stopSpeaking();
 
       // Robust Markdown Cleaning for Speech
-      const cleanText = text
+      const cleanText = mathToSpeech(text) // Formulas in words
         .replace(/^#+\s*/gm, '') // Headers
         .replace(/[\*_]{1,3}(.*?)[\*_]{1,3}/g, '$1') // Bold/Italic
         .replace(/[*#_`]/g, '') // Remaining
@@ -324,10 +328,19 @@ export const ChatView: React.FC<ChatViewProps> = ({ onBack }) => {
          chatSessionRef.current = createNMTChat();
       }
 
-      const response = await chatSessionRef.current.sendMessage({ message: userText });
+      // The first chunk adds the reply, later ones replace it
+      let started = false;
+      const showReply = (text: string) => {
+          const append = !started;
+          started = true;
+          setReplyStreaming(true);
+          setMessages(prev => append ? [...prev, { role: 'model', text }] : [...prev.slice(0, -1), { role: 'model', text }]);
+      };
+
+      const response = await chatSessionRef.current.sendMessage({ message: userText, onText: showReply });
       
       if (response.text) {
-          setMessages(prev => [...prev, { role: 'model', text: response.text }]);
+          showReply(response.text);
           if (isSoundOn) {
               speakText(response.text);
           }
@@ -340,6 +353,7 @@ export const ChatView: React.FC<ChatViewProps> = ({ onBack }) => {
       setMessages(prev => [...prev, { role: 'model', text: errorText }]);
     } finally {
       setLoading(false);
+      setReplyStreaming(false);
     }
   };
 
@@ -386,7 +400,7 @@ export const ChatView: React.FC<ChatViewProps> = ({ onBack }) => {
                  return <strong key={i}>{part.slice(2, -2)}</strong>;
              }
              if (part.startsWith('$') && part.endsWith('$')) {
-                 return <span key={i} className="font-mono text-purple-700 bg-purple-50 px-1 rounded mx-0.5">{part.slice(1, -1)}</span>;
+                 return <MathFormula key={i} source={part.slice(1, -1)} />;
              }
              return part;
         });
@@ -575,7 +589,7 @@ export const ChatView: React.FC<ChatViewProps> = ({ onBack }) => {
              </div>
           </div>
         ))}
-        {(loading || audioLoading) && (
+        {((loading && !replyStreaming) || audioLoading) && (
              <div className="flex items-start gap-3">
                  <div className="w-8 h-8 rounded-full bg-purple-600 text-white flex items-center justify-center flex-shrink-0"><Bot className="w-5 h-5" /></div>
                  <div className="bg-white border border-slate-200 px-4 py-3 rounded-2xl rounded-tl-none shadow-sm flex items-center space-x-2">
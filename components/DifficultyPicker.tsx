@@ -0,0 +1,35 @@
+import React from 'react';
+import { Difficulty } from '../types';
+import { DIFFICULTIES, DIFFICULTY_LABELS } from '../services/difficulty';
+
+interface DifficultyPickerProps {
+  value: Difficulty;
+  onChange: (difficulty: Difficulty) => void;
+}
+
+const HINTS: Record<Difficulty, string> = {
+  basic: 'Основні факти й формули',
+  standard: 'Як на справжньому тесті',
+  advanced: 'Складніше за НМТ'
+};
+
+export const DifficultyPicker: React.FC<DifficultyPickerProps> = ({ value, onChange }) => (
+  <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Рівень складності">
+    {DIFFICULTIES.map(level => (
+      <button
+        key={level}
+        role="radio"
+        aria-checked={value === level}
+        onClick={() => onChange(level)}
+        className={`px-3 py-2 rounded-lg text-left transition-all ${
+          value === level
+            ? 'bg-blue-600 text-white shadow-md'
+            : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+        }`}
+      >
+        <span className="block text-sm font-semibold">{DIFFICULTY_LABELS[level]}</span>
+        <span className={`block text-xs ${value === level ? 'text-blue-100' : 'text-slate-400'}`}>{HINTS[level]}</span>
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExamSession } from '../types';
+import { Coffee, Lock, Play, Clock } from 'lucide-react';
+
+interface ExamBreakViewProps {
+  session: ExamSession; // exam.partIndex already points at the next part
+  onContinue: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
+};
+
+// Break between two exam sittings; the next one starts when it runs out
+export const ExamBreakView: React.FC<ExamBreakViewProps> = ({ session, onContinue }) => {
+  const [timeLeft, setTimeLeft] = useState(session.exam.breakSeconds);
+  const continueRef = useRef(onContinue);
+  continueRef.current = onContinue;
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setTimeLeft(prev => {
+        if (prev <= 1) {
+          clearInterval(timer);
+          continueRef.current();
+          return 0;
+        }
+        return prev - 1;
+      });
+    }, 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const finished = session.exam.parts[session.exam.partIndex - 1];
+  const next = session.exam.parts[session.exam.partIndex];
+
+  return (
+    <div className="max-w-xl mx-auto w-full animate-in fade-in duration-500">
+      <div className="bg-white rounded-3xl shadow-xl border border-slate-200 overflow-hidden">
+        <div className="bg-slate-900 p-8 text-center text-white">
+          <Coffee className="w-10 h-10 mx-auto mb-3 text-blue-300" />
+          <h2 className="text-2xl font-bold mb-1">Перерва</h2>
+          <p className="text-slate-400">{finished.title} завершена</p>
+          <div className="mt-6 font-mono text-5xl font-bold">{formatTime(timeLeft)}</div>
+        </div>
+
+        <div className="p-8 space-y-4">
+          <div className="flex items-start p-4 bg-slate-50 rounded-xl border border-slate-100 text-sm text-slate-600">
+            <Lock className="w-5 h-5 mr-3 text-slate-400 flex-shrink-0" />
+            Відповіді збережено. Повернутися до завдань завершеної сесії вже не можна, як і на справжньому НМТ.
+          </div>
+
+          <div className="p-4 rounded-xl border border-blue-100 bg-blue-50">
+            <div className="text-sm font-semibold text-blue-800 mb-1">Далі: {next.title}</div>
+            <div className="text-sm text-blue-700">{next.subjects.join(', ')} · {next.end - next.start} завдань</div>
+            <div className="flex items-center text-xs text-blue-600 mt-2">
+              <Clock className="w-4 h-4 mr-1" /> {Math.round(next.timeLimit / 60)} хвилин
+            </div>
+          </div>
+
+          <button
+            onClick={onContinue}
+            className="w-full flex items-center justify-center px-6 py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 shadow-lg shadow-blue-200 transition-all hover:-translate-y-0.5"
+          >
+            <Play className="w-5 h-5 mr-2" />
+            Почати зараз
+          </button>
+          <p className="text-xs text-center text-slate-400">Коли перерва скінчиться, наступна сесія почнеться автоматично.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useMemo } from 'react';
+import { FigureSpec } from '../types';
+import { ELLIPSE_RATIO, ScreenPoint, layoutFigure } from '../services/figures';
+
+interface GeometryFigureProps {
+  figure: FigureSpec;
+  size?: number; // Longest side of the drawing in pixels
+}
+
+const STROKE = '#1e293b';
+const DASH = '6 4';
+const ANGLE_RADIUS = 18;
+const RIGHT_ANGLE_SIZE = 11;
+const LABEL_OFFSET = 14;
+
+const unit = (from: ScreenPoint, to: ScreenPoint): ScreenPoint => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy) || 1;
+  return { x: dx / length, y: dy / length };
+};
+
+export const GeometryFigure: React.FC<GeometryFigureProps> = ({ figure, size = 320 }) => {
+  const layout = useMemo(() => layoutFigure(figure, size), [figure, size]);
+  const pos = layout.position;
+
+  // Labels sit on the side facing away from the middle of the figure
+  const awayFromCenter = (p: ScreenPoint, distance: number): ScreenPoint => {
+    const dir = Math.hypot(p.x - layout.center.x, p.y - layout.center.y) < 1
+      ? { x: Math.SQRT1_2, y: -Math.SQRT1_2 }
+      : unit(layout.center, p);
+    return { x: p.x + dir.x * distance, y: p.y + dir.y * distance };
+  };
+
+  // Points that are not part of any line get a dot so they stay visible
+  const onLines = new Set<string>();
+  figure.elements.forEach(el => {
+    if (el.kind === 'segment') { onLines.add(el.from); onLines.add(el.to); }
+    if (el.kind === 'polygon') el.points.forEach(id => onLines.add(id));
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${layout.width} ${layout.height}`}
+      width={layout.width}
+      height={layout.height}
+      className="max-w-full h-auto mx-auto"
+      role="img"
+      aria-label="Рисунок до завдання"
+    >
+      {figure.elements.map((el, idx) => {
+        const dash = 'dashed' in el && el.dashed ? DASH : undefined;
+
+        if (el.kind === 'polygon') {
+          return (
+            <polygon
+              key={idx}
+              points={el.points.map(id => `${pos(id).x},${pos(id).y}`).join(' ')}
+              fill={el.shaded ? '#dbeafe' : 'none'}
+              fillOpacity={el.shaded ? 0.7 : undefined}
+              stroke={STROKE}
+              strokeWidth={1.5}
+              strokeDasharray={dash}
+              strokeLinejoin="round"
+            />
+          );
+        }
+
+        if (el.kind === 'segment') {
+          const a = pos(el.from);
+          const b = pos(el.to);
+          const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+          const labelAt = awayFromCenter(mid, 12);
+          return (
+            <g key={idx}>
+              <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={STROKE} strokeWidth={1.5} strokeDasharray={dash} />
+              {el.label && (
+                <text x={labelAt.x} y={labelAt.y} fontSize={13} fill="#1d4ed8" textAnchor="middle" dominantBaseline="middle">
+                  {el.label}
+                </text>
+              )}
+            </g>
+          );
+        }
+
+        if (el.kind === 'circle') {
+          const c = pos(el.center);
+          const r = el.radius * layout.scale;
+          return (
+            <ellipse
+              key={idx}
+              cx={c.x}
+              cy={c.y}
+              rx={r}
+              ry={el.horizontal ? r * ELLIPSE_RATIO : r}
+              fill="none"
+              stroke={STROKE}
+              strokeWidth={1.5}
+              strokeDasharray={dash}
+            />
+          );
+        }
+
+        if (el.kind === 'angle') {
+          const v = pos(el.vertex);
+          const u1 = unit(v, pos(el.from));
+          const u2 = unit(v, pos(el.to));
+          const bisector = unit({ x: 0, y: 0 }, { x: u1.x + u2.x, y: u1.y + u2.y });
+          const labelAt = { x: v.x + bisector.x * (ANGLE_RADIUS + 12), y: v.y + bisector.y * (ANGLE_RADIUS + 12) };
+          const mark = el.right ? (
+            <polyline
+              points={[
+                [v.x + u1.x * RIGHT_ANGLE_SIZE, v.y + u1.y * RIGHT_ANGLE_SIZE],
+                [v.x + (u1.x + u2.x) * RIGHT_ANGLE_SIZE, v.y + (u1.y + u2.y) * RIGHT_ANGLE_SIZE],
+                [v.x + u2.x * RIGHT_ANGLE_SIZE, v.y + u2.y * RIGHT_ANGLE_SIZE]
+              ].map(p => p.join(',')).join(' ')}
+              fill="none"
+              stroke={STROKE}
+              strokeWidth={1}
+            />
+          ) : (
+            <path
+              // Always the smaller arc: sweep direction follows the turn from u1 to u2
+              d={`M ${v.x + u1.x * ANGLE_RADIUS} ${v.y + u1.y * ANGLE_RADIUS} A ${ANGLE_RADIUS} ${ANGLE_RADIUS} 0 0 ${u1.x * u2.y - u1.y * u2.x > 0 ? 1 : 0} ${v.x + u2.x * ANGLE_RADIUS} ${v.y + u2.y * ANGLE_RADIUS}`}
+              fill="none"
+              stroke={STROKE}
+              strokeWidth={1}
+            />
+          );
+          return (
+            <g key={idx}>
+              {mark}
+              {el.label && (
+                <text x={labelAt.x} y={labelAt.y} fontSize={12} fill="#1d4ed8" textAnchor="middle" dominantBaseline="middle">
+                  {el.label}
+                </text>
+              )}
+            </g>
+          );
+        }
+
+        // Free text next to a point, e.g. "O" or "r = 5"
+        const at = pos(el.at);
+        return (
+          <text key={idx} x={at.x + 8} y={at.y - 8} fontSize={13} fill="#1d4ed8">
+            {el.text}
+          </text>
+        );
+      })}
+
+      {figure.points.map(point => {
+        const p = pos(point.id);
+        const label = point.label ?? point.id;
+        const labelAt = awayFromCenter(p, LABEL_OFFSET);
+        return (
+          <g key={point.id}>
+            {!onLines.has(point.id) && <circle cx={p.x} cy={p.y} r={2.5} fill={STROKE} />}
+            {label && (
+              <text
+                x={labelAt.x}
+                y={labelAt.y}
+                fontSize={15}
+                fontStyle="italic"
+                fontFamily="'Times New Roman', serif"
+                fill={STROKE}
+                textAnchor="middle"
+                dominantBaseline="middle"
+              >
+                {label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { QuizSession, Subject } from '../types';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ArrowLeft, TrendingUp, CalendarDays, Target, History, ExternalLink } from 'lucide-react';
+import { AttemptRecord, loadAttempts, ratingTimeline, timePerDay, topicAccuracy } from '../services/attemptHistory';
+import { MODE_LABELS, isStrictMode } from '../services/quizConfig';
+import { isFullyCorrect } from '../services/scoring';
+
+interface HistoryViewProps {
+  onBack: () => void;
+  onOpenAttempt: (session: QuizSession) => void;
+}
+
+const SUBJECT_COLORS: Record<Subject, string> = {
+  [Subject.MATH]: '#2563eb',
+  [Subject.UKRAINIAN]: '#ca8a04',
+  [Subject.HISTORY]: '#dc2626',
+  [Subject.ENGLISH]: '#16a34a',
+  [Subject.PHYSICS]: '#7c3aed',
+  [Subject.BIOLOGY]: '#0d9488',
+  [Subject.CHEMISTRY]: '#db2777'
+};
+
+// Days shown in the activity chart
+const ACTIVITY_DAYS = 14;
+
+// Weakest topics shown in the accuracy chart
+const TOPICS_SHOWN = 8;
+
+const TOOLTIP_STYLE = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' };
+
+const formatDay = (time: number) => new Date(time).toLocaleDateString('uk-UA', { day: 'numeric', month: 'short' });
+
+const formatDateTime = (time: number) =>
+  new Date(time).toLocaleString('uk-UA', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Estimated ratings get a hollow dot
+const ratingDot = (subject: Subject) => (props: { cx?: number | null; cy?: number | null; index: number; payload: { estimated: string[] } }) => {
+  // Attempts without this subject have no point on its line
+  if (props.cx == null || props.cy == null) return <g key={props.index} />;
+  const color = SUBJECT_COLORS[subject];
+  const estimated = props.payload.estimated.includes(subject);
+  return <circle key={props.index} cx={props.cx} cy={props.cy} r={3} stroke={color} strokeWidth={2} fill={estimated ? '#fff' : color} />;
+};
+
+const correctCount = (session: QuizSession) =>
+  session.questions.filter((q, idx) => isFullyCorrect(q, session.userAnswers[idx])).length;
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ onBack, onOpenAttempt }) => {
+  const [attempts, setAttempts] = useState<AttemptRecord[] | null>(null);
+  // Short quick tests make noisy ratings; simulations are closer to the real thing
+  const [onlyStrict, setOnlyStrict] = useState(true);
+
+  useEffect(() => {
+    loadAttempts().then(setAttempts).catch(error => {
+      console.error("Failed to load attempt history:", error);
+      setAttempts([]);
+    });
+  }, []);
+
+  const { ratingRows, subjects, activity, topics } = useMemo(() => {
+    const all = attempts ?? [];
+    const timeline = ratingTimeline(onlyStrict ? all.filter(a => isStrictMode(a.session.config.mode)) : all);
+    return {
+      // recharts wants one flat object per point
+      ratingRows: timeline.map(row => ({ finishedAt: row.finishedAt, estimated: row.estimated, ...row.ratings })),
+      subjects: Object.values(Subject).filter(subject => timeline.some(row => row.ratings[subject] !== undefined)),
+      activity: timePerDay(all, ACTIVITY_DAYS),
+      topics: topicAccuracy(all).slice(0, TOPICS_SHOWN).map(topic => ({
+        name: topic.ref.topic,
+        accuracy: Math.round(topic.points / topic.maxPoints * 100)
+      }))
+    };
+  }, [attempts, onlyStrict]);
+
+  return (
+    <div className="max-w-5xl mx-auto w-full animate-in fade-in duration-500">
+      <div className="mb-8 flex items-center">
+        <button
+            onClick={onBack}
+            className="mr-4 p-2 rounded-full hover:bg-slate-200 transition-colors"
+        >
+            <ArrowLeft className="w-6 h-6 text-slate-600" />
+        </button>
+        <div>
+            <h2 className="text-3xl font-bold text-slate-900">Мій прогрес</h2>
+            <p className="text-slate-500">Історія завершених тестів на цьому пристрої</p>
+        </div>
+      </div>
+
+      {attempts === null ? (
+        <p className="text-sm text-slate-500">Завантаження...</p>
+      ) : attempts.length === 0 ? (
+        <div className="bg-white rounded-3xl shadow-lg border border-slate-200 p-8 text-center text-slate-500">
+          Тут з'являться ваші результати після першого завершеного тесту.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* Ratings over time */}
+          <div className="bg-white rounded-3xl shadow-lg border border-slate-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-bold text-slate-800 flex items-center">
+                <TrendingUp className="w-5 h-5 mr-2 text-slate-500" />
+                Рейтинг 100–200 за предметами
+              </h3>
+              <div className="flex bg-slate-100 rounded-lg p-1 text-xs font-semibold">
+                {[true, false].map(strict => (
+                  <button
+                    key={String(strict)}
+                    onClick={() => setOnlyStrict(strict)}
+                    className={`px-3 py-1 rounded-md transition-colors ${onlyStrict === strict ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+                  >
+                    {strict ? 'Лише симуляції' : 'Усі тести'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {ratingRows.length === 0 ? (
+              <p className="text-sm text-slate-500">Поки немає тестів з рейтингом.</p>
+            ) : (
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={ratingRows}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="finishedAt" tickFormatter={formatDay} tick={{ fontSize: 12 }} />
+                    <YAxis domain={[100, 200]} tick={{ fontSize: 12 }} width={40} />
+                    <Tooltip
+                      labelFormatter={(value) => formatDateTime(Number(value))}
+                      formatter={(value, name, item) => [item.payload.estimated.includes(name) ? `≈${value}` : value, name]}
+                      contentStyle={TOOLTIP_STYLE}
+                    />
+                    <Legend />
+                    {subjects.map(subject => (
+                      <Line key={subject} type="monotone" dataKey={subject} stroke={SUBJECT_COLORS[subject]} strokeWidth={2} connectNulls dot={ratingDot(subject)} />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+            <p className="mt-3 text-xs text-slate-400">Порожні точки — орієнтовний рейтинг: тест був коротшим за реальний, тож бали перераховано на шкалу повного тесту. Результати нижче порогу на графіку не показано.</p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Time per day */}
+            <div className="bg-white rounded-3xl shadow-lg border border-slate-200 p-6">
+              <h3 className="font-bold text-slate-800 mb-4 flex items-center">
+                <CalendarDays className="w-5 h-5 mr-2 text-slate-500" />
+                Хвилин на день
+              </h3>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={activity}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+                    <XAxis dataKey="day" tickFormatter={formatDay} tick={{ fontSize: 11 }} />
+                    <YAxis allowDecimals={false} tick={{ fontSize: 12 }} width={32} />
+                    <Tooltip labelFormatter={(value) => formatDay(Number(value))} formatter={(value) => [`${value} хв`, 'Час']} contentStyle={TOOLTIP_STYLE} />
+                    <Bar dataKey="minutes" fill="#2563eb" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Weakest topics */}
+            <div className="bg-white rounded-3xl shadow-lg border border-slate-200 p-6">
+              <h3 className="font-bold text-slate-800 mb-4 flex items-center">
+                <Target className="w-5 h-5 mr-2 text-slate-500" />
+                Точність за темами
+              </h3>
+              {topics.length === 0 ? (
+                <p className="text-sm text-slate-500">Питання ще не прив'язані до тем програми.</p>
+              ) : (
+                <div className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={topics} layout="vertical" margin={{ left: 8 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" horizontal={false} />
+                      <XAxis type="number" domain={[0, 100]} tick={{ fontSize: 12 }} unit="%" />
+                      <YAxis type="category" dataKey="name" width={140} tick={{ fontSize: 11 }} />
+                      <Tooltip formatter={(value) => [`${value}%`, 'Точність']} contentStyle={TOOLTIP_STYLE} />
+                      <Bar dataKey="accuracy" fill="#f59e0b" radius={[0, 4, 4, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+              <p className="mt-3 text-xs text-slate-400">Найслабші теми за всіма спробами.</p>
+            </div>
+          </div>
+
+          {/* Attempts */}
+          <div className="bg-white rounded-3xl shadow-lg border border-slate-200 p-6">
+            <h3 className="font-bold text-slate-800 mb-4 flex items-center">
+              <History className="w-5 h-5 mr-2 text-slate-500" />
+              Спроби
+            </h3>
+            <div className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+              {[...attempts].reverse().map(attempt => (
+                <div key={attempt.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-4">
+                  <div className="flex-grow min-w-0">
+                    <div className="font-semibold text-slate-800 truncate">{attempt.session.subject}</div>
+                    <div className="text-xs text-slate-500">
+                      {formatDateTime(attempt.finishedAt)} · {MODE_LABELS[attempt.session.config.mode]}
+                    </div>
+                  </div>
+                  <div className="text-sm font-bold text-slate-700 whitespace-nowrap">
+                    {correctCount(attempt.session)} / {attempt.session.questions.length}
+                  </div>
+                  <button
+                    onClick={() => onOpenAttempt(attempt.session)}
+                    className="flex items-center px-3 py-1.5 rounded-lg text-sm font-semibold text-blue-600 hover:bg-blue-50 transition-colors whitespace-nowrap"
+                  >
+                    Відкрити <ExternalLink className="w-4 h-4 ml-1" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
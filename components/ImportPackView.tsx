@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { QuestionPack, QuestionPackError, parseQuestionPack } from '../services/questionPack';
+import { findTopicByCode } from '../data/topics';
+import { ArrowLeft, FileUp, FileJson, AlertCircle, Play, User, Timer, ListTree } from 'lucide-react';
+
+interface ImportPackViewProps {
+  onBack: () => void;
+  onStart: (pack: QuestionPack) => void;
+}
+
+export const ImportPackView: React.FC<ImportPackViewProps> = ({ onBack, onStart }) => {
+  const [pack, setPack] = useState<QuestionPack | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setPack(null);
+    setIssues([]);
+
+    try {
+      setPack(parseQuestionPack(await file.text()));
+    } catch (error) {
+      console.error(error);
+      setIssues(error instanceof QuestionPackError ? error.issues : ["Не вдалося прочитати файл."]);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto w-full animate-in fade-in duration-500">
+      <div className="mb-8 flex items-center">
+        <button
+            onClick={onBack}
+            className="mr-4 p-2 rounded-full hover:bg-slate-200 transition-colors"
+        >
+            <ArrowLeft className="w-6 h-6 text-slate-600" />
+        </button>
+        <div>
+            <h2 className="text-3xl font-bold text-slate-900">Імпорт набору питань</h2>
+            <p className="text-slate-500">Завантажте JSON-файл з питаннями, підготовленими вчителем</p>
+        </div>
+      </div>
+
+      <label className="flex flex-col items-center justify-center p-10 bg-white border-2 border-dashed border-slate-300 rounded-3xl cursor-pointer hover:border-blue-400 hover:bg-blue-50/40 transition-colors">
+        <FileUp className="w-10 h-10 text-blue-500 mb-3" />
+        <span className="font-semibold text-slate-800">{fileName || 'Оберіть файл набору (.json)'}</span>
+        <span className="text-sm text-slate-500 mt-1">Файл обробляється локально і нікуди не надсилається</span>
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {issues.length > 0 && (
+        <div className="mt-6 bg-red-50 border border-red-200 rounded-2xl p-5">
+          <div className="flex items-center font-bold text-red-800 mb-2">
+            <AlertCircle className="w-5 h-5 mr-2" />
+            Набір містить помилки
+          </div>
+          <ul className="list-disc ml-6 text-sm text-red-700 space-y-1">
+            {issues.map((issue, idx) => <li key={idx}>{issue}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {pack && (
+        <div className="mt-6 bg-white rounded-3xl shadow-lg border border-slate-200 overflow-hidden">
+          <div className="p-6">
+            <div className="flex items-start">
+              <div className="p-3 bg-blue-50 rounded-xl mr-4">
+                <FileJson className="w-6 h-6 text-blue-600" />
+              </div>
+              <div>
+                {pack.metadata.subject && (
+                  <span className="inline-block px-3 py-1 rounded-full bg-blue-100 text-blue-700 text-xs font-bold uppercase tracking-wide mb-2">
+                    {pack.metadata.subject}
+                  </span>
+                )}
+                <h3 className="text-2xl font-bold text-slate-900">{pack.metadata.title}</h3>
+                {pack.metadata.description && <p className="text-slate-600 mt-1">{pack.metadata.description}</p>}
+              </div>
+            </div>
+
+            <div className="mt-6 grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+              <div className="flex items-center p-3 bg-slate-50 rounded-xl text-slate-700">
+                <User className="w-4 h-4 mr-2 text-slate-400" />
+                {pack.metadata.author || 'Автор не вказаний'}
+              </div>
+              <div className="flex items-center p-3 bg-slate-50 rounded-xl text-slate-700">
+                <ListTree className="w-4 h-4 mr-2 text-slate-400" />
+                {pack.questions.length} питань
+              </div>
+              <div className="flex items-center p-3 bg-slate-50 rounded-xl text-slate-700">
+                <Timer className="w-4 h-4 mr-2 text-slate-400" />
+                {pack.metadata.timeLimitMinutes ? `${pack.metadata.timeLimitMinutes} хв` : 'Час за замовчуванням'}
+              </div>
+            </div>
+
+            {pack.metadata.topics && pack.metadata.topics.length > 0 && (
+              <div className="mt-4 flex flex-wrap gap-2">
+                {pack.metadata.topics.map(code => (
+                  <span key={code} className="text-xs px-2 py-1 rounded bg-slate-100 text-slate-600">
+                    {findTopicByCode(code)?.topic || code}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="p-6 bg-slate-50 border-t border-slate-200">
+            <button
+              onClick={() => onStart(pack)}
+              className="w-full flex items-center justify-center px-6 py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 shadow-lg shadow-blue-200 transition-all hover:-translate-y-0.5"
+            >
+              <Play className="w-5 h-5 mr-2" />
+              Почати тест
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { MatchingQuestion } from '../types';
+import { MathText } from './MathText';
+
+interface MatchingGridProps {
+  question: MatchingQuestion;
+  answer: number[]; // Selected option per prompt, -1 for empty rows
+  onSelect: (row: number, optionIndex: number) => void;
+  reveal: boolean; // Show correct/incorrect colouring (practice feedback)
+  locked: boolean;
+}
+
+const optionLetter = (idx: number) => String.fromCharCode(65 + idx);
+
+export const MatchingGrid: React.FC<MatchingGridProps> = ({ question, answer, onSelect, reveal, locked }) => {
+  const getCellStyles = (row: number, col: number) => {
+    const isSelected = answer[row] === col;
+    const isCorrect = question.correctMatches[row] === col;
+
+    if (reveal) {
+      if (isCorrect) return 'bg-green-500 border-green-500 text-white';
+      if (isSelected) return 'bg-red-500 border-red-500 text-white';
+      return 'border-slate-200 text-slate-300';
+    }
+    return isSelected
+      ? 'bg-blue-600 border-blue-600 text-white'
+      : 'border-slate-300 text-slate-500 hover:border-blue-400 hover:text-blue-500';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Prompts (left column) */}
+        <div className="space-y-3">
+          {question.prompts.map((prompt, idx) => (
+            <div key={idx} className="flex items-start p-4 rounded-xl border-2 border-slate-200 text-slate-800">
+              <span className="font-bold text-slate-500 mr-3">{idx + 1}</span>
+              <span><MathText text={prompt} /></span>
+            </div>
+          ))}
+        </div>
+
+        {/* Options (right column) */}
+        <div className="space-y-3">
+          {question.options.map((option, idx) => (
+            <div key={idx} className="flex items-start p-4 rounded-xl border-2 border-slate-200 text-slate-800">
+              <span className="font-bold text-slate-500 mr-3">{optionLetter(idx)}</span>
+              <span><MathText text={option} /></span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Answer grid: one letter per row */}
+      <div className="overflow-x-auto">
+        <table className="mx-auto border-separate border-spacing-2">
+          <thead>
+            <tr>
+              <th />
+              {question.options.map((_, col) => (
+                <th key={col} className="text-sm font-bold text-slate-500 w-10">{optionLetter(col)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {question.prompts.map((_, row) => (
+              <tr key={row}>
+                <td className="text-sm font-bold text-slate-500 pr-2">{row + 1}</td>
+                {question.options.map((_, col) => (
+                  <td key={col}>
+                    <button
+                      onClick={() => onSelect(row, col)}
+                      disabled={locked}
+                      aria-label={`${row + 1} — ${optionLetter(col)}`}
+                      aria-pressed={answer[row] === col}
+                      className={`w-10 h-10 rounded-lg border-2 font-bold text-sm transition-colors ${getCellStyles(row, col)}`}
+                    >
+                      {answer[row] === col || (reveal && question.correctMatches[row] === col) ? optionLetter(col) : ''}
+                    </button>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
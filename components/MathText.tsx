@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import { MathNode, nodesToPlainText, parseMath, splitMath } from '../services/mathMarkup';
+
+interface MathTextProps {
+  text: string; // Plain text with $...$ math segments
+}
+
+const MATH_FONT = "'Times New Roman', 'Cambria Math', serif";
+
+const renderNodes = (nodes: MathNode[]): React.ReactNode[] => nodes.map((node, idx) => renderNode(node, idx));
+
+const renderNode = (node: MathNode, key: React.Key): React.ReactNode => {
+  switch (node.type) {
+    case 'symbol':
+      return node.italic
+        ? <i key={key}>{node.value}</i>
+        // Operators get a little air around them, like in printed tasks
+        : <span key={key} className={/[+−=<>≤≥≠≈±·×÷→⇒⇔∈∪∩]/.test(node.value) ? 'mx-[0.2em]' : undefined}>{node.value}</span>;
+    case 'fn':
+      return <span key={key} className="mr-[0.15em]">{node.name}</span>;
+    case 'text':
+      return <span key={key} style={{ fontFamily: 'inherit' }}>{node.value}</span>;
+    case 'group':
+      return <React.Fragment key={key}>{renderNodes(node.body)}</React.Fragment>;
+    case 'frac':
+      return (
+        <span key={key} className="inline-flex flex-col items-center align-middle mx-[0.1em] text-[0.9em] leading-tight">
+          <span className="px-[0.2em]">{renderNodes(node.num)}</span>
+          <span className="px-[0.2em] border-t border-current w-full text-center">{renderNodes(node.den)}</span>
+        </span>
+      );
+    case 'sqrt':
+      return (
+        <span key={key} className="inline-flex items-baseline">
+          {node.index && <sup className="text-[0.6em] -mr-[0.3em]">{renderNodes(node.index)}</sup>}
+          <span>√</span>
+          <span className="border-t border-current pl-[0.1em] pr-[0.1em]">{renderNodes(node.body)}</span>
+        </span>
+      );
+    case 'accent':
+      return node.accent === 'vec' ? (
+        <span key={key} className="relative inline-block pt-[0.3em]">
+          <span className="absolute top-0 left-0 right-0 text-center text-[0.7em] leading-none">→</span>
+          {renderNodes(node.body)}
+        </span>
+      ) : (
+        <span key={key} className="border-t border-current">{renderNodes(node.body)}</span>
+      );
+    case 'scripts':
+      return (
+        <React.Fragment key={key}>
+          {renderNode(node.base, 'base')}
+          {node.sub && <sub className="text-[0.7em]">{renderNodes(node.sub)}</sub>}
+          {node.sup && <sup className="text-[0.7em]">{renderNodes(node.sup)}</sup>}
+        </React.Fragment>
+      );
+    case 'cases':
+      return (
+        <span key={key} className="inline-flex items-center align-middle">
+          <span className="text-[2em] font-light leading-none mr-[0.1em]">{'{'}</span>
+          <span className="inline-flex flex-col">
+            {node.rows.map((row, rowIdx) => <span key={rowIdx}>{renderNodes(row)}</span>)}
+          </span>
+        </span>
+      );
+  }
+};
+
+// A single formula, source without the $ delimiters
+export const MathFormula: React.FC<{ source: string }> = ({ source }) => {
+  const nodes = useMemo(() => {
+    try {
+      return parseMath(source);
+    } catch (e) {
+      return null;
+    }
+  }, [source]);
+
+  // Markup outside the supported subset is shown as is rather than dropped
+  if (!nodes) return <span className="font-mono text-[0.9em]">{source}</span>;
+
+  return (
+    <span role="math" aria-label={nodesToPlainText(nodes)} className="whitespace-nowrap" style={{ fontFamily: MATH_FONT }}>
+      {renderNodes(nodes)}
+    </span>
+  );
+};
+
+export const MathText: React.FC<MathTextProps> = ({ text }) => {
+  const segments = useMemo(() => splitMath(text), [text]);
+  return (
+    <>
+      {segments.map((segment, idx) =>
+        'math' in segment
+          ? <MathFormula key={idx} source={segment.math} />
+          : <React.Fragment key={idx}>{segment.text}</React.Fragment>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { QuestionMedia } from '../types';
+import { ZoomIn, ZoomOut, X, ImageOff, Maximize2 } from 'lucide-react';
+
+interface MediaFigureProps {
+  media: QuestionMedia;
+  reveal: boolean; // Show the caption, which names what is on the image
+  compact?: boolean; // Smaller preview for the results list
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+
+export const MediaFigure: React.FC<MediaFigureProps> = ({ media, reveal, compact = false }) => {
+  const [failed, setFailed] = useState(false);
+  const [zoom, setZoom] = useState<number | null>(null); // null while the viewer is closed
+
+  useEffect(() => {
+    if (zoom === null) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setZoom(null);
+      if (e.key === '+' || e.key === '=') setZoom(z => Math.min(MAX_ZOOM, (z ?? MIN_ZOOM) + 0.5));
+      if (e.key === '-') setZoom(z => Math.max(MIN_ZOOM, (z ?? MIN_ZOOM) - 0.5));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [zoom]);
+
+  // Missing file: keep the task answerable from the description
+  if (failed) {
+    return (
+      <div className="flex items-start p-4 mb-6 rounded-xl border-2 border-dashed border-slate-200 text-slate-500 text-sm">
+        <ImageOff className="w-5 h-5 mr-3 flex-shrink-0" />
+        <span>Зображення недоступне. Опис: {media.alt}</span>
+      </div>
+    );
+  }
+
+  return (
+    <figure className="mb-6">
+      <button
+        onClick={() => setZoom(MIN_ZOOM)}
+        aria-label="Збільшити зображення"
+        className="group relative block mx-auto rounded-xl overflow-hidden border border-slate-200 bg-slate-50"
+      >
+        <img
+          src={media.src}
+          alt={media.alt}
+          onError={() => setFailed(true)}
+          className={`${compact ? 'max-h-40' : 'max-h-80'} w-auto object-contain`}
+        />
+        <span className="absolute bottom-2 right-2 p-1.5 rounded-lg bg-white/90 text-slate-600 opacity-0 group-hover:opacity-100 transition-opacity">
+          <Maximize2 className="w-4 h-4" />
+        </span>
+      </button>
+
+      {reveal && (
+        <figcaption className="mt-2 text-center text-sm text-slate-600">
+          {media.caption}
+          {media.credit && <span className="block text-xs text-slate-400">{media.credit}</span>}
+        </figcaption>
+      )}
+
+      {zoom !== null && (
+        <div
+          className="fixed inset-0 z-50 bg-slate-900/90 flex flex-col"
+          role="dialog"
+          aria-modal="true"
+          aria-label="Перегляд зображення"
+          onClick={() => setZoom(null)}
+        >
+          <div className="flex justify-end gap-2 p-4" onClick={(e) => e.stopPropagation()}>
+            <button
+              onClick={() => setZoom(Math.max(MIN_ZOOM, zoom - 0.5))}
+              disabled={zoom <= MIN_ZOOM}
+              aria-label="Зменшити"
+              className="p-2 rounded-lg bg-white/10 text-white hover:bg-white/20 disabled:opacity-30"
+            >
+              <ZoomOut className="w-5 h-5" />
+            </button>
+            <span className="px-2 py-2 text-white font-mono text-sm">{Math.round(zoom * 100)}%</span>
+            <button
+              onClick={() => setZoom(Math.min(MAX_ZOOM, zoom + 0.5))}
+              disabled={zoom >= MAX_ZOOM}
+              aria-label="Збільшити"
+              className="p-2 rounded-lg bg-white/10 text-white hover:bg-white/20 disabled:opacity-30"
+            >
+              <ZoomIn className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setZoom(null)}
+              aria-label="Закрити"
+              className="p-2 rounded-lg bg-white/10 text-white hover:bg-white/20"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          {/* Scrollable area so a zoomed image can be panned */}
+          <div className="flex-grow overflow-auto p-4">
+            <div className="min-h-full flex">
+              <img
+                src={media.src}
+                alt={media.alt}
+                onClick={(e) => e.stopPropagation()}
+                style={{ width: `${zoom * 100}%`, maxWidth: 'none' }}
+                className="m-auto h-auto"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </figure>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { OpenAnswerQuestion } from '../types';
+import { MathText } from './MathText';
+import { formatNumber, parseNumericAnswer } from '../services/numericAnswer';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+interface OpenAnswerInputProps {
+  question: OpenAnswerQuestion;
+  answer: string;
+  onChange: (value: string) => void;
+  // Simulation saves every keystroke; practice saves only on "Відповісти"
+  commitOnChange: boolean;
+  reveal: boolean; // Show the expected answer (practice feedback)
+  isCorrect: boolean;
+}
+
+export const OpenAnswerInput: React.FC<OpenAnswerInputProps> = ({ question, answer, onChange, commitOnChange, reveal, isCorrect }) => {
+  const [draft, setDraft] = useState(answer);
+  const trimmed = draft.trim();
+  const isValid = trimmed === '' || parseNumericAnswer(trimmed) !== null;
+
+  const handleChange = (value: string) => {
+    setDraft(value);
+    if (commitOnChange) onChange(value);
+  };
+
+  const handleSubmit = () => {
+    if (trimmed && isValid) onChange(trimmed);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex items-center flex-grow">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={draft}
+            disabled={reveal}
+            onChange={(e) => handleChange(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && !commitOnChange) handleSubmit(); }}
+            placeholder="Ваша відповідь, напр. 2,5 або 3/4"
+            aria-invalid={!isValid}
+            className={`w-full p-4 text-lg rounded-xl border-2 outline-none transition-colors font-mono ${
+              reveal
+                ? (isCorrect ? 'border-green-500 bg-green-50 text-green-800' : 'border-red-500 bg-red-50 text-red-800')
+                : isValid ? 'border-slate-200 focus:border-blue-500' : 'border-red-400 focus:border-red-500'
+            }`}
+          />
+          {question.unit && <span className="ml-3 text-lg text-slate-600"><MathText text={question.unit} /></span>}
+        </div>
+        {!commitOnChange && !reveal && (
+          <button
+            onClick={handleSubmit}
+            disabled={!trimmed || !isValid}
+            className="px-6 py-4 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Відповісти
+          </button>
+        )}
+      </div>
+
+      {!isValid && (
+        <p className="text-sm text-red-600">
+          Введіть число: ціле, десятковий дріб (2,5 або 2.5) чи звичайний дріб (3/4).
+        </p>
+      )}
+
+      {reveal && (
+        <div className={`flex items-center text-sm font-medium ${isCorrect ? 'text-green-700' : 'text-red-700'}`}>
+          {isCorrect ? <CheckCircle2 className="w-5 h-5 mr-2" /> : <XCircle className="w-5 h-5 mr-2" />}
+          Правильна відповідь: <span className="font-bold ml-1">{formatNumber(question.correctAnswer)}{question.unit && <> <MathText text={question.unit} /></>}</span>
+        </div>
+      )}
+    </div>
+  );
+};
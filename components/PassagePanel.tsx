@@ -0,0 +1,49 @@
+import React from 'react';
+import { Passage } from '../types';
+import { splitPassage } from '../services/passages';
+import { FileText } from 'lucide-react';
+
+interface PassagePanelProps {
+  passage: Passage;
+  label?: string; // e.g. "Текст до завдань 3–6"
+  activeGap?: number; // Blank of the current gap-fill question
+  filled?: Record<number, string>; // Chosen word per blank
+  onGapClick?: (gap: number) => void;
+}
+
+export const PassagePanel: React.FC<PassagePanelProps> = ({ passage, label, activeGap, filled = {}, onGapClick }) => (
+  <div className="bg-white rounded-3xl shadow-lg border border-slate-100 p-6 lg:sticky lg:top-36 lg:max-h-[calc(100vh-10rem)] lg:overflow-y-auto">
+    <div className="flex items-center text-slate-500 text-sm font-semibold mb-4">
+      <FileText className="w-4 h-4 mr-2" />
+      {label || 'Текст до завдань'}
+    </div>
+
+    {passage.title && <h3 className="text-lg font-bold text-slate-900 mb-3">{passage.title}</h3>}
+
+    <p className="text-slate-800 leading-relaxed whitespace-pre-line">
+      {splitPassage(passage.text).map((segment, idx) =>
+        'gap' in segment ? (
+          <button
+            key={idx}
+            onClick={() => onGapClick?.(segment.gap)}
+            aria-label={`Пропуск ${segment.gap}`}
+            className={`inline-flex items-baseline mx-0.5 px-2 rounded-md border font-semibold transition-colors ${
+              segment.gap === activeGap
+                ? 'border-blue-500 bg-blue-50 text-blue-800 ring-1 ring-blue-500'
+                : filled[segment.gap]
+                  ? 'border-slate-300 bg-slate-50 text-slate-800'
+                  : 'border-dashed border-slate-300 text-slate-400 hover:border-blue-400'
+            }`}
+          >
+            <span className="text-xs mr-1 opacity-70">({segment.gap})</span>
+            {filled[segment.gap] || '______'}
+          </button>
+        ) : (
+          <React.Fragment key={idx}>{segment.text}</React.Fragment>
+        )
+      )}
+    </p>
+
+    {passage.source && <p className="mt-4 text-sm text-slate-500 italic text-right">{passage.source}</p>}
+  </div>
+);
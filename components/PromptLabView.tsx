@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Subject } from '../types';
+import { TOPICS } from '../data/topics';
+import { PromptTask, listTemplateVersions } from '../services/promptRegistry';
+import { previewPrompt } from '../services/geminiService';
+import { PromptVersionStats, loadPromptVersionStats } from '../services/questionBank';
+import { ArrowLeft, FileCode2, BarChart3, AlertCircle } from 'lucide-react';
+
+interface PromptLabViewProps {
+  onBack: () => void;
+}
+
+const TASKS: { task: PromptTask; label: string }[] = [
+  { task: 'quiz', label: 'Тест' },
+  { task: 'explanation', label: 'Пояснення' },
+  { task: 'notes', label: 'Конспект' },
+  { task: 'chat', label: 'Чат-репетитор' }
+];
+
+// Below this many answers a version's accuracy is mostly noise
+const MIN_ANSWERS_TO_COMPARE = 30;
+
+const selectClass = "w-full px-3 py-2 rounded-xl border border-slate-200 bg-white text-slate-800 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+// Developer page: shows what a template version sends to the model and how
+// students did on the questions each version produced
+export const PromptLabView: React.FC<PromptLabViewProps> = ({ onBack }) => {
+  const [task, setTask] = useState<PromptTask>('quiz');
+  const [subject, setSubject] = useState<Subject>(Subject.MATH);
+  const [topic, setTopic] = useState('');
+  const [version, setVersion] = useState('');
+  const [stats, setStats] = useState<PromptVersionStats[] | null>(null);
+
+  useEffect(() => {
+    loadPromptVersionStats().then(setStats).catch(error => {
+      console.error("Failed to load prompt version stats:", error);
+      setStats([]);
+    });
+  }, []);
+
+  const versions = listTemplateVersions(task, subject);
+  const template = versions.find(t => t.version === version) ?? versions[versions.length - 1];
+
+  const rendered = useMemo(() => {
+    if (!template) return { error: 'Для цього завдання немає шаблону.' };
+    try {
+      return { text: previewPrompt(template, subject, topic || undefined) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [template, subject, topic]);
+
+  const topics = (TOPICS[subject] || []).flatMap(group => group.topics.map(t => t.name));
+
+  return (
+    <div className="max-w-5xl mx-auto w-full animate-in fade-in duration-500">
+      <div className="mb-8 flex items-center">
+        <button
+            onClick={onBack}
+            className="mr-4 p-2 rounded-full hover:bg-slate-200 transition-colors"
+        >
+            <ArrowLeft className="w-6 h-6 text-slate-600" />
+        </button>
+        <div>
+            <h2 className="text-3xl font-bold text-slate-900">Шаблони промптів</h2>
+            <p className="text-slate-500">Перегляд версій і порівняння їх за відповідями учнів</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-3xl shadow-lg border border-slate-200 p-6 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+          <select value={task} onChange={(e) => { setTask(e.target.value as PromptTask); setVersion(''); }} className={selectClass} aria-label="Завдання">
+            {TASKS.map(t => <option key={t.task} value={t.task}>{t.label}</option>)}
+          </select>
+          <select value={subject} onChange={(e) => { setSubject(e.target.value as Subject); setTopic(''); setVersion(''); }} className={selectClass} aria-label="Предмет">
+            {Object.values(Subject).map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <select value={topic} onChange={(e) => setTopic(e.target.value)} className={selectClass} aria-label="Тема">
+            <option value="">Весь курс</option>
+            {topics.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <select value={template?.version || ''} onChange={(e) => setVersion(e.target.value)} className={selectClass} aria-label="Версія">
+            {versions.map(t => (
+              <option key={t.version} value={t.version}>
+                {t.version}{t.trafficShare !== undefined ? ` (${Math.round(t.trafficShare * 100)}% запитів)` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center text-sm font-semibold text-slate-700">
+          <FileCode2 className="w-4 h-4 mr-2 text-slate-400" />
+          Промпт, який отримає модель
+        </div>
+        {rendered.error ? (
+          <div className="flex items-center p-4 bg-red-50 text-red-800 rounded-xl text-sm">
+            <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" />
+            {rendered.error}
+          </div>
+        ) : (
+          <pre className="p-4 bg-slate-50 rounded-xl text-xs text-slate-700 whitespace-pre-wrap break-words max-h-[32rem] overflow-y-auto">{rendered.text}</pre>
+        )}
+      </div>
+
+      <div className="mt-6 bg-white rounded-3xl shadow-lg border border-slate-200 p-6">
+        <div className="flex items-center text-sm font-semibold text-slate-700 mb-4">
+          <BarChart3 className="w-4 h-4 mr-2 text-slate-400" />
+          Точність відповідей за версіями (банк питань цього браузера)
+        </div>
+        {stats === null ? (
+          <p className="text-sm text-slate-500">Завантаження...</p>
+        ) : stats.length === 0 ? (
+          <p className="text-sm text-slate-500">У банку ще немає питань з версією промпту.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 border-b border-slate-100">
+                <th className="py-2 font-medium">Версія</th>
+                <th className="py-2 font-medium text-right">Питань</th>
+                <th className="py-2 font-medium text-right">Відповідей</th>
+                <th className="py-2 font-medium text-right">Правильних</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map(row => (
+                <tr key={row.promptVersion} className="border-b border-slate-50">
+                  <td className="py-2 font-mono text-slate-800">{row.promptVersion}</td>
+                  <td className="py-2 text-right text-slate-600">{row.questions}</td>
+                  <td className="py-2 text-right text-slate-600">{row.answered}</td>
+                  <td className={`py-2 text-right font-semibold ${row.answered < MIN_ANSWERS_TO_COMPARE ? 'text-slate-400' : 'text-slate-800'}`}>
+                    {row.answered > 0 ? `${Math.round((row.correct / row.answered) * 100)}%` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="mt-3 text-xs text-slate-400">Сірим позначено версії, що мають менше {MIN_ANSWERS_TO_COMPARE} відповідей: їхній результат ще ненадійний.</p>
+      </div>
+    </div>
+  );
+};
@@ -1,26 +1,98 @@
-import React, { useState, useEffect } from 'react';
-import { Question, QuizSession } from '../types';
-import { Clock, ChevronRight, ChevronLeft, CheckCircle2, XCircle, Lightbulb, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Answer, QuizSession, SingleChoiceQuestion } from '../types';
+import { Clock, ChevronRight, ChevronLeft, CheckCircle2, XCircle, Lightbulb, AlertCircle, Loader2, Pause, Skull } from 'lucide-react';
+import { MatchingGrid } from './MatchingGrid';
+import { OpenAnswerInput } from './OpenAnswerInput';
+import { SequenceOrder } from './SequenceOrder';
+import { PassagePanel } from './PassagePanel';
+import { MediaFigure } from './MediaFigure';
+import { GeometryFigure } from './GeometryFigure';
+import { MathText } from './MathText';
+import { DIFFICULTY_LABELS } from '../services/difficulty';
+import { passageGroupRange } from '../services/passages';
+import { emptyAnswer, isAnswered as hasAnswer, isComplete, isFullyCorrect } from '../services/scoring';
+import { MODE_LABELS, isStrictMode } from '../services/quizConfig';
 
 interface QuizRunnerProps {
   session: QuizSession;
-  onComplete: (answers: number[], endTime: number) => void;
+  onComplete: (answers: Answer[], endTime: number, questionTimes: number[]) => void;
 }
 
 export const QuizRunner: React.FC<QuizRunnerProps> = ({ session, onComplete }) => {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<number[]>(new Array(session.questions.length).fill(-1));
-  const [timeLeft, setTimeLeft] = useState(session.timeLimit); 
+  const [answers, setAnswers] = useState<Answer[]>(() => session.questions.map(emptyAnswer));
+  const { mode, timeLimit } = session.config;
+  const [timeLeft, setTimeLeft] = useState(timeLimit ?? 0);
+  // Questions whose explanation was opened before answering (learn mode)
+  const [explanationsShown, setExplanationsShown] = useState<number[]>([]);
 
-  // Check if this is a strict simulation (no hints allowed)
-  const isSimulation = session.subject.includes("Симуляція");
+  // Simulations and exams are strict: explanations only on the results
+  const isSimulation = isStrictMode(mode);
+
+  // An exam part lets the student move freely between its subject blocks
+  const examPart = session.exam ? session.exam.parts[session.exam.partIndex] : undefined;
+  const isLastPart = !session.exam || session.exam.partIndex === session.exam.parts.length - 1;
+  const subjectBlocks = examPart
+    ? examPart.subjects
+        .map(subject => ({ subject, first: session.questions.findIndex(q => q.subject === subject) }))
+        .filter(block => block.first !== -1)
+    : [];
+
+  // A streamed test keeps the clock paused until enough questions are there
+  const streaming = session.streaming;
+  const timerRunning = !streaming || session.questions.length >= streaming.timerThreshold;
+  // Questions still being generated count towards the length of the test
+  const totalCount = streaming ? Math.max(streaming.expectedCount, session.questions.length) : session.questions.length;
+
+  // Sudden death ends at the first wrong answer; questions go strictly in order
+  const firstMistake = mode === 'sudden-death'
+    ? session.questions.findIndex((q, idx) => isComplete(q, answers[idx]) && !isFullyCorrect(q, answers[idx]))
+    : -1;
+  const isOver = firstMistake !== -1;
+  const mustAnswerFirst = mode === 'sudden-death' && !!session.questions[currentQuestionIndex]
+    && !isComplete(session.questions[currentQuestionIndex], answers[currentQuestionIndex]);
+
+  // New questions of a streamed test start unanswered
+  useEffect(() => {
+    setAnswers(prev => prev.length >= session.questions.length
+      ? prev
+      : [...prev, ...session.questions.slice(prev.length).map(emptyAnswer)]);
+  }, [session.questions]);
+
+  // Generation may end with fewer questions than expected
+  useEffect(() => {
+    if (!streaming && session.questions.length > 0 && currentQuestionIndex >= session.questions.length) {
+      setCurrentQuestionIndex(session.questions.length - 1);
+    }
+  }, [streaming, session.questions.length, currentQuestionIndex]);
+
+  // Seconds each question has been on screen, added up over every visit
+  const timesRef = useRef<number[]>([]);
+  const shownAtRef = useRef(Date.now());
+
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+    return () => {
+      timesRef.current[currentQuestionIndex] = (timesRef.current[currentQuestionIndex] ?? 0) + (Date.now() - shownAtRef.current) / 1000;
+    };
+  }, [currentQuestionIndex]);
+
+  // The question still on screen counts up to now
+  const questionTimes = (): number[] => session.questions.map((_, idx) => Math.round(
+    (timesRef.current[idx] ?? 0) + (idx === currentQuestionIndex ? (Date.now() - shownAtRef.current) / 1000 : 0)
+  ));
+
+  // The clock may start long before the last streamed block arrives, so it
+  // submits through a ref that always sees the latest answers
+  const finishRef = useRef<() => void>(() => {});
 
   useEffect(() => {
+    if (!timerRunning || timeLimit === null) return;
     const timer = setInterval(() => {
       setTimeLeft((prev) => {
         if (prev <= 1) {
           clearInterval(timer);
-          handleFinish(); // Auto-submit
+          finishRef.current(); // Auto-submit
           return 0;
         }
         return prev - 1;
@@ -29,11 +101,11 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ session, onComplete }) =
 
     return () => clearInterval(timer);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [timerRunning]);
 
   const handleSelectOption = (optionIndex: number) => {
     // If practicing (not simulation), lock answer after selection
-    if (!isSimulation && answers[currentQuestionIndex] !== -1) {
+    if (!isSimulation && isAnswered) {
         return; 
     }
 
@@ -42,8 +114,42 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ session, onComplete }) =
     setAnswers(newAnswers);
   };
 
+  const handleSelectMatch = (row: number, optionIndex: number) => {
+    // In practice mode the grid locks once every row has a letter
+    if (!isSimulation && isAnswered) {
+        return;
+    }
+
+    const newAnswers = [...answers];
+    const rows = [...(answers[currentQuestionIndex] as number[])];
+    // Clicking the selected cell again clears the row
+    rows[row] = rows[row] === optionIndex ? -1 : optionIndex;
+    newAnswers[currentQuestionIndex] = rows;
+    setAnswers(newAnswers);
+  };
+
+  const handleOpenAnswer = (value: string) => {
+    if (!isSimulation && isAnswered) {
+        return;
+    }
+
+    const newAnswers = [...answers];
+    newAnswers[currentQuestionIndex] = value;
+    setAnswers(newAnswers);
+  };
+
+  const handleSequenceAnswer = (order: number[]) => {
+    if (!isSimulation && isAnswered) {
+        return;
+    }
+
+    const newAnswers = [...answers];
+    newAnswers[currentQuestionIndex] = order;
+    setAnswers(newAnswers);
+  };
+
   const handleNext = () => {
-    if (currentQuestionIndex < session.questions.length - 1) {
+    if (currentQuestionIndex < totalCount - 1) {
       setCurrentQuestionIndex(currentQuestionIndex + 1);
     }
   };
@@ -55,8 +161,9 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ session, onComplete }) =
   };
 
   const handleFinish = () => {
-    onComplete(answers, Date.now());
+    onComplete(answers, Date.now(), questionTimes());
   };
+  finishRef.current = handleFinish;
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -64,12 +171,168 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ session, onComplete }) =
     return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
   };
 
-  const progressPercentage = ((answers.filter(a => a !== -1).length) / session.questions.length) * 100;
+  const progressPercentage = ((session.questions.filter((q, idx) => hasAnswer(q, answers[idx])).length) / totalCount) * 100;
+
+  // Header with Timer and Progress
+  const header = (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 mb-6 sticky top-4 z-10">
+      {examPart && (
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <span className="text-xs font-semibold uppercase tracking-wider text-slate-400 mr-1">{examPart.title}</span>
+          {subjectBlocks.map(block => {
+            const active = session.questions[currentQuestionIndex]?.subject === block.subject;
+            return (
+              <button
+                key={block.subject}
+                onClick={() => setCurrentQuestionIndex(block.first)}
+                className={`px-3 py-1 rounded-lg text-xs font-semibold transition-colors ${active ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              >
+                {block.subject}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center space-x-2 text-slate-700">
+          <span className="font-bold text-lg">Питання {currentQuestionIndex + 1}</span>
+          <span className="text-slate-400">/ {totalCount}</span>
+        </div>
+        {timeLimit === null ? (
+          <div className="flex items-center space-x-2 text-sm font-semibold text-slate-400">
+            <Clock className="w-5 h-5" />
+            <span>Без обмеження часу</span>
+          </div>
+        ) : (
+          <div
+            className={`flex items-center space-x-2 font-mono text-xl font-bold ${!timerRunning ? 'text-slate-400' : timeLeft < Math.min(300, timeLimit / 4) ? 'text-red-500 animate-pulse' : 'text-slate-700'}`}
+            title={timerRunning ? undefined : 'Таймер запуститься, коли завантажиться більше питань'}
+          >
+            {timerRunning ? <Clock className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+            <span>{formatTime(timeLeft)}</span>
+          </div>
+        )}
+      </div>
+
+      {isOver && (
+        <div className="flex items-center p-3 mb-3 rounded-xl bg-red-50 border border-red-200 text-sm text-red-800">
+          <Skull className="w-5 h-5 mr-2 flex-shrink-0" />
+          Помилка у питанні {firstMistake + 1}. Правильних відповідей поспіль: {firstMistake}.
+        </div>
+      )}
+
+      {streaming && (
+        <div className="flex items-center text-xs text-slate-500 mb-2">
+          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+          Завантажено {session.questions.length} з {totalCount} питань, решта генерується
+        </div>
+      )}
+      <div className="w-full bg-slate-100 rounded-full h-2">
+        <div 
+          className="bg-blue-600 h-2 rounded-full transition-all duration-300 ease-out"
+          style={{ width: `${progressPercentage}%` }}
+        />
+      </div>
+    </div>
+  );
+
+  // Navigation Footer
+  const footer = (
+    <div className="bg-slate-50 p-6 border-t border-slate-100 flex justify-between items-center">
+      <button
+        onClick={handlePrev}
+        disabled={currentQuestionIndex === 0}
+        className="flex items-center px-4 py-2 text-slate-600 font-medium hover:text-slate-900 disabled:opacity-30 disabled:hover:text-slate-600 transition-colors"
+      >
+        <ChevronLeft className="w-5 h-5 mr-1" />
+        Назад
+      </button>
+      
+      <div className="flex space-x-2">
+        {/* Pagination Dots (Mobile hidden) */}
+        <div className="hidden md:flex space-x-1">
+            {session.questions.length <= 10 && session.questions.map((_, idx) => (
+                <div 
+                    key={idx} 
+                    className={`w-2 h-2 rounded-full ${
+                         idx === currentQuestionIndex 
+                            ? 'bg-slate-800' 
+                            : !isSimulation && isComplete(session.questions[idx], answers[idx]) // Practice mode coloring
+                                ? (isFullyCorrect(session.questions[idx], answers[idx]) ? 'bg-green-400' : 'bg-red-400')
+                                : hasAnswer(session.questions[idx], answers[idx]) ? 'bg-blue-400' : 'bg-slate-300'
+                    }`}
+                />
+            ))}
+             {totalCount > 10 && (
+                 <div className="text-sm text-slate-400">
+                    Всього {totalCount} питань
+                 </div>
+             )}
+        </div>
+      </div>
+
+      {currentQuestionIndex === totalCount - 1 || isOver ? (
+         <button
+            onClick={handleFinish}
+            className="flex items-center px-6 py-2 bg-green-600 text-white rounded-lg font-semibold hover:bg-green-700 hover:shadow-md transition-all active:scale-95"
+          >
+            {isLastPart ? 'Завершити тест' : 'Завершити сесію'}
+            <CheckCircle2 className="w-5 h-5 ml-2" />
+          </button>
+      ) : (
+        <button
+          onClick={handleNext}
+          disabled={mustAnswerFirst}
+          title={mustAnswerFirst ? 'Спершу дайте відповідь' : undefined}
+          className="flex items-center px-6 py-2 bg-blue-600 disabled:opacity-50 disabled:hover:bg-blue-600 disabled:hover:shadow-none text-white rounded-lg font-semibold hover:bg-blue-700 hover:shadow-md transition-all active:scale-95"
+        >
+          Далі
+          <ChevronRight className="w-5 h-5 ml-2" />
+        </button>
+      )}
+    </div>
+  );
+
   const currentQuestion = session.questions[currentQuestionIndex];
+
+  // The student moved past the questions generated so far
+  if (!currentQuestion) {
+    return (
+      <div className="max-w-4xl mx-auto w-full">
+        {header}
+        <div className="bg-white rounded-3xl shadow-lg border border-slate-100 overflow-hidden mb-6">
+          <div className="p-8 flex flex-col items-center justify-center text-center min-h-[40vh]">
+            <Loader2 className="w-10 h-10 text-blue-600 animate-spin mb-4" />
+            <h2 className="text-xl font-semibold text-slate-800 mb-2">Питання {currentQuestionIndex + 1} ще генерується</h2>
+            <p className="text-slate-500 max-w-sm">Воно з'явиться тут автоматично. Тим часом можна повернутися до попередніх питань.</p>
+          </div>
+          {footer}
+        </div>
+      </div>
+    );
+  }
   
   // Logic for feedback state (only for practice mode)
-  const isAnswered = answers[currentQuestionIndex] !== -1;
-  const isCorrect = isAnswered && answers[currentQuestionIndex] === currentQuestion.correctIndex;
+  const isAnswered = isComplete(currentQuestion, answers[currentQuestionIndex]);
+  const isCorrect = isAnswered && isFullyCorrect(currentQuestion, answers[currentQuestionIndex]);
+  const explanationShown = explanationsShown.includes(currentQuestionIndex);
+
+  // Reading and gap-fill questions show their shared text next to the question
+  const passage = currentQuestion.passage;
+  const passageRange = passageGroupRange(session.questions, currentQuestionIndex);
+  const passageQuestions = passageRange ? session.questions.slice(passageRange[0], passageRange[1] + 1) : [];
+  const filledGaps: Record<number, string> = {};
+  passageQuestions.forEach((q, offset) => {
+    const answer = answers[passageRange![0] + offset];
+    if (q.gap !== undefined && q.type === 'single' && typeof answer === 'number' && answer !== -1) {
+      filledGaps[q.gap] = q.options[answer];
+    }
+  });
+
+  const handleGapClick = (gap: number) => {
+    const offset = passageQuestions.findIndex(q => q.gap === gap);
+    if (passageRange && offset !== -1) setCurrentQuestionIndex(passageRange[0] + offset);
+  };
 
   // Helper to get question subject badge color
   const getSubjectBadgeColor = (subj?: string) => {
@@ -83,7 +346,7 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ session, onComplete }) =
   };
 
   // Helper for option styling
-  const getOptionStyles = (idx: number) => {
+  const getOptionStyles = (question: SingleChoiceQuestion, idx: number) => {
       const isSelected = answers[currentQuestionIndex] === idx;
       
       // Simulation Mode: Simple Blue selection, no validation colors
@@ -98,11 +361,11 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ session, onComplete }) =
           return 'border-slate-200 hover:border-blue-300 hover:bg-slate-50 text-slate-700';
       }
 
-      if (idx === currentQuestion.correctIndex) {
+      if (idx === question.correctIndex) {
           return 'border-green-500 bg-green-50 text-green-800 font-medium ring-1 ring-green-500'; // Always show correct
       }
 
-      if (isSelected && idx !== currentQuestion.correctIndex) {
+      if (isSelected && idx !== question.correctIndex) {
           return 'border-red-500 bg-red-50 text-red-800 font-medium ring-1 ring-red-500'; // Show error if selected
       }
 
@@ -110,27 +373,22 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ session, onComplete }) =
   };
 
   return (
-    <div className="max-w-4xl mx-auto w-full">
-      {/* Header with Timer and Progress */}
-      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 mb-6 sticky top-4 z-10">
-        <div className="flex justify-between items-center mb-4">
-          <div className="flex items-center space-x-2 text-slate-700">
-            <span className="font-bold text-lg">Питання {currentQuestionIndex + 1}</span>
-            <span className="text-slate-400">/ {session.questions.length}</span>
-          </div>
-          <div className={`flex items-center space-x-2 font-mono text-xl font-bold ${timeLeft < 300 ? 'text-red-500 animate-pulse' : 'text-slate-700'}`}>
-            <Clock className="w-5 h-5" />
-            <span>{formatTime(timeLeft)}</span>
-          </div>
-        </div>
-        
-        <div className="w-full bg-slate-100 rounded-full h-2">
-          <div 
-            className="bg-blue-600 h-2 rounded-full transition-all duration-300 ease-out"
-            style={{ width: `${progressPercentage}%` }}
-          />
-        </div>
-      </div>
+    <div className={`${passage ? 'max-w-6xl' : 'max-w-4xl'} mx-auto w-full`}>
+      {header}
+
+      <div className={passage ? 'grid grid-cols-1 lg:grid-cols-2 gap-6 items-start' : ''}>
+      {/* Passage pinned next to the question while its group is active */}
+      {passage && passageRange && (
+        <PassagePanel
+          passage={passage}
+          label={passageRange[0] === passageRange[1]
+            ? `Текст до завдання ${passageRange[0] + 1}`
+            : `Текст до завдань ${passageRange[0] + 1}–${passageRange[1] + 1}`}
+          activeGap={currentQuestion.gap}
+          filled={filledGaps}
+          onGapClick={handleGapClick}
+        />
+      )}
 
       {/* Question Card */}
       <div className="bg-white rounded-3xl shadow-lg border border-slate-100 overflow-hidden mb-6">
@@ -141,14 +399,63 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ session, onComplete }) =
                     {currentQuestion.subject}
                     </span>
                )}
-               {isSimulation && <span className="bg-purple-100 text-purple-700 text-xs px-2 py-1 rounded font-bold">СИМУЛЯЦІЯ</span>}
-               {!isSimulation && <span className="bg-emerald-100 text-emerald-700 text-xs px-2 py-1 rounded font-bold">ТРЕНУВАННЯ</span>}
+               <div className="flex items-center gap-2 ml-auto">
+                   {currentQuestion.type === 'single' && currentQuestion.points && (
+                        <span className="bg-amber-100 text-amber-700 text-xs px-2 py-1 rounded font-semibold">{currentQuestion.points} бали</span>
+                   )}
+                   {currentQuestion.difficulty && (
+                        <span className="bg-slate-100 text-slate-500 text-xs px-2 py-1 rounded font-semibold">{DIFFICULTY_LABELS[currentQuestion.difficulty]}</span>
+                   )}
+                   <span className={`${isSimulation ? 'bg-purple-100 text-purple-700' : 'bg-emerald-100 text-emerald-700'} text-xs px-2 py-1 rounded font-bold uppercase`}>{MODE_LABELS[mode]}</span>
+               </div>
            </div>
 
           <h2 className="text-xl md:text-2xl font-semibold text-slate-900 mb-8 leading-relaxed">
-            {currentQuestion.text}
+            <MathText text={currentQuestion.text} />
           </h2>
 
+          {currentQuestion.media && (
+            <MediaFigure
+              key={currentQuestionIndex}
+              media={currentQuestion.media}
+              reveal={!isSimulation && isAnswered}
+            />
+          )}
+
+          {currentQuestion.figure && (
+            <div className="mb-8">
+              <GeometryFigure figure={currentQuestion.figure} />
+            </div>
+          )}
+
+          {currentQuestion.type === 'matching' ? (
+            <MatchingGrid
+              question={currentQuestion}
+              answer={answers[currentQuestionIndex] as number[]}
+              onSelect={handleSelectMatch}
+              reveal={!isSimulation && isAnswered}
+              locked={!isSimulation && isAnswered}
+            />
+          ) : currentQuestion.type === 'open' ? (
+            <OpenAnswerInput
+              key={currentQuestionIndex}
+              question={currentQuestion}
+              answer={answers[currentQuestionIndex] as string}
+              onChange={handleOpenAnswer}
+              commitOnChange={isSimulation}
+              reveal={!isSimulation && isAnswered}
+              isCorrect={isCorrect}
+            />
+          ) : currentQuestion.type === 'sequence' ? (
+            <SequenceOrder
+              key={currentQuestionIndex}
+              question={currentQuestion}
+              answer={answers[currentQuestionIndex] as number[]}
+              onChange={handleSequenceAnswer}
+              commitOnChange={isSimulation}
+              reveal={!isSimulation && isAnswered}
+            />
+          ) : (
           <div className="space-y-4">
             {currentQuestion.options.map((option, idx) => (
               <button
@@ -157,7 +464,7 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ session, onComplete }) =
                 disabled={!isSimulation && isAnswered} // Lock answers in practice mode
                 className={`
                   w-full text-left p-5 rounded-xl border-2 transition-all duration-200 flex items-center group relative
-                  ${getOptionStyles(idx)}
+                  ${getOptionStyles(currentQuestion, idx)}
                 `}
               >
                 <div className={`
@@ -178,7 +485,7 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ session, onComplete }) =
                   {String.fromCharCode(65 + idx)}
                 </div>
                 <span className="text-lg flex-grow">
-                  {option}
+                  <MathText text={option} />
                 </span>
                 
                 {/* Status Icons for Practice Mode */}
@@ -196,9 +503,21 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ session, onComplete }) =
               </button>
             ))}
           </div>
+          )}
+
+          {/* Learn mode can open the explanation before answering */}
+          {mode === 'learn' && !isAnswered && !explanationShown && (
+             <button
+                 onClick={() => setExplanationsShown(prev => [...prev, currentQuestionIndex])}
+                 className="mt-6 flex items-center px-4 py-2 rounded-lg text-sm font-semibold text-amber-700 bg-amber-50 border border-amber-200 hover:bg-amber-100 transition-colors"
+             >
+                 <Lightbulb className="w-4 h-4 mr-2" />
+                 Показати пояснення
+             </button>
+          )}
 
           {/* Explanation Block - Only visible in Practice Mode after answering */}
-          {!isSimulation && isAnswered && (
+          {!isSimulation && (isAnswered || explanationShown) && (
              <div className="mt-8 animate-in fade-in slide-in-from-top-4 duration-500">
                  <div className={`rounded-xl p-5 border ${isCorrect ? 'bg-green-50 border-green-200' : 'bg-blue-50 border-blue-200'}`}>
                     <div className="flex items-start">
@@ -207,10 +526,10 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ session, onComplete }) =
                         </div>
                         <div>
                             <h4 className={`font-bold text-lg mb-1 ${isCorrect ? 'text-green-900' : 'text-blue-900'}`}>
-                                {isCorrect ? 'Чудово! Правильна відповідь.' : 'Пояснення'}
+                                {!isAnswered ? 'Пояснення' : isCorrect ? 'Чудово! Правильна відповідь.' : 'Пояснення'}
                             </h4>
                             <p className={`${isCorrect ? 'text-green-800' : 'text-blue-800'} leading-relaxed`}>
-                                {currentQuestion.explanation}
+                                <MathText text={currentQuestion.explanation} />
                             </p>
                         </div>
                     </div>
@@ -219,58 +538,8 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ session, onComplete }) =
           )}
         </div>
         
-        {/* Navigation Footer */}
-        <div className="bg-slate-50 p-6 border-t border-slate-100 flex justify-between items-center">
-          <button
-            onClick={handlePrev}
-            disabled={currentQuestionIndex === 0}
-            className="flex items-center px-4 py-2 text-slate-600 font-medium hover:text-slate-900 disabled:opacity-30 disabled:hover:text-slate-600 transition-colors"
-          >
-            <ChevronLeft className="w-5 h-5 mr-1" />
-            Назад
-          </button>
-          
-          <div className="flex space-x-2">
-            {/* Pagination Dots (Mobile hidden) */}
-            <div className="hidden md:flex space-x-1">
-                {session.questions.length <= 10 && session.questions.map((_, idx) => (
-                    <div 
-                        key={idx} 
-                        className={`w-2 h-2 rounded-full ${
-                             idx === currentQuestionIndex 
-                                ? 'bg-slate-800' 
-                                : !isSimulation && answers[idx] !== -1 // Practice mode coloring
-                                    ? (answers[idx] === session.questions[idx].correctIndex ? 'bg-green-400' : 'bg-red-400')
-                                    : answers[idx] !== -1 ? 'bg-blue-400' : 'bg-slate-300'
-                        }`}
-                    />
-                ))}
-                 {session.questions.length > 10 && (
-                     <div className="text-sm text-slate-400">
-                        Всього {session.questions.length} питань
-                     </div>
-                 )}
-            </div>
-          </div>
-
-          {currentQuestionIndex === session.questions.length - 1 ? (
-             <button
-                onClick={handleFinish}
-                className="flex items-center px-6 py-2 bg-green-600 text-white rounded-lg font-semibold hover:bg-green-700 hover:shadow-md transition-all active:scale-95"
-              >
-                Завершити тест
-                <CheckCircle2 className="w-5 h-5 ml-2" />
-              </button>
-          ) : (
-            <button
-              onClick={handleNext}
-              className="flex items-center px-6 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 hover:shadow-md transition-all active:scale-95"
-            >
-              Далі
-              <ChevronRight className="w-5 h-5 ml-2" />
-            </button>
-          )}
-        </div>
+        {footer}
+      </div>
       </div>
     </div>
   );
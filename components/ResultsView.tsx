@@ -1,12 +1,27 @@
-import React, { useMemo } from 'react';
-import { QuizSession } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Answer, Question, QuizSession } from '../types';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
-import { CheckCircle, XCircle, RefreshCcw, ArrowRight, BookOpen } from 'lucide-react';
+import { CheckCircle, XCircle, RefreshCcw, ArrowRight, BookOpen, Download, ListTree, NotebookPen, Play, Award, AlertTriangle, Calculator, Shuffle } from 'lucide-react';
+import { downloadQuestionPack, packFromSession } from '../services/questionPack';
+import { isFullyCorrect, scoreQuestion } from '../services/scoring';
+import { formatNumber } from '../services/numericAnswer';
+import { splitPassage } from '../services/passages';
+import { MediaFigure } from './MediaFigure';
+import { GeometryFigure } from './GeometryFigure';
+import { MathText } from './MathText';
+import { loadAnswerStats } from '../services/questionBank';
+import { AnswerStats, DIFFICULTY_LABELS, calibrateDifficulty } from '../services/difficulty';
+import { TopicRef, findTopicByCode } from '../data/topics';
+import { ScaledScore, findSubjectScale, scaleSessionScores } from '../services/nmtScale';
 
 interface ResultsViewProps {
   session: QuizSession;
-  onRestart: () => void;
+  onRestart: () => void; // Same questions again
+  onNewTest?: () => void; // New questions with the same settings; imported packs have none
   onHome: () => void;
+  onStudyTopic?: (topic: TopicRef) => void;
+  onPracticeTopic?: (topic: TopicRef) => void;
+  onOpenAdmission?: () => void; // Offered after simulations, whose ratings the calculator uses
 }
 
 // Define interface for subject statistics to ensure type safety
@@ -15,28 +30,91 @@ interface SubjectStat {
     correct: number;
 }
 
-export const ResultsView: React.FC<ResultsViewProps> = ({ session, onRestart, onHome }) => {
-  const { correctCount, incorrectCount, score, subjectBreakdown } = useMemo(() => {
+interface TopicStat extends SubjectStat {
+    ref: TopicRef;
+}
+
+const optionLetter = (idx: number) => idx !== -1 ? String.fromCharCode(65 + idx) : '-';
+
+// "1 хв 05 с", or "42 с" under a minute
+const formatSeconds = (seconds: number): string =>
+  seconds < 60 ? `${seconds} с` : `${Math.floor(seconds / 60)} хв ${String(seconds % 60).padStart(2, '0')} с`;
+
+// "Ви обрали" summary for any question type
+const formatAnswer = (q: Question, answer: Answer | undefined): string => {
+    if (q.type === 'matching') {
+        const rows = Array.isArray(answer) ? answer : [];
+        return q.prompts.map((_, row) => `${row + 1}${optionLetter(rows[row] ?? -1)}`).join(' ');
+    }
+    if (q.type === 'open') {
+        return typeof answer === 'string' && answer.trim() ? answer.trim() : '-';
+    }
+    if (q.type === 'sequence') {
+        return Array.isArray(answer) && answer.length ? answer.map(optionLetter).join('') : '-';
+    }
+    return optionLetter(typeof answer === 'number' ? answer : -1);
+};
+
+const formatCorrectAnswer = (q: Question): string => {
+    if (q.type === 'matching') return q.correctMatches.map((col, row) => `${row + 1}${optionLetter(col)}`).join(' ');
+    if (q.type === 'open') return `${formatNumber(q.correctAnswer)}${q.unit ? ` ${q.unit}` : ''}`;
+    if (q.type === 'sequence') return q.correctOrder.map(optionLetter).join('');
+    return optionLetter(q.correctIndex);
+};
+
+export const ResultsView: React.FC<ResultsViewProps> = ({ session, onRestart, onNewTest, onHome, onStudyTopic, onPracticeTopic, onOpenAdmission }) => {
+  // Answers from every attempt stored in the bank, including this one
+  const [answerStats, setAnswerStats] = useState<(AnswerStats | undefined)[]>([]);
+
+  useEffect(() => {
+    loadAnswerStats(session.questions)
+      .then(setAnswerStats)
+      .catch(error => console.error("Failed to load answer statistics:", error));
+  }, [session.questions]);
+
+  const { correctCount, incorrectCount, points, maxPoints, subjectBreakdown, scaledScores, topicBreakdown } = useMemo(() => {
     let correct = 0;
+    let earned = 0;
+    let available = 0;
     const breakdown: Record<string, SubjectStat> = {};
+    const byTopic: Record<string, TopicStat> = {};
 
     session.questions.forEach((q, idx) => {
-      const isCorrect = session.userAnswers[idx] === q.correctIndex;
-      if (isCorrect) correct++;
+      // Matching tasks give partial credit, so subjects are compared by points
+      const result = scoreQuestion(q, session.userAnswers[idx]);
+      if (result.points === result.maxPoints) correct++;
+      earned += result.points;
+      available += result.maxPoints;
       
       const subj = q.subject || 'Загальні';
       if (!breakdown[subj]) {
         breakdown[subj] = { total: 0, correct: 0 };
       }
-      breakdown[subj].total++;
-      if (isCorrect) breakdown[subj].correct++;
+      breakdown[subj].total += result.maxPoints;
+      breakdown[subj].correct += result.points;
+
+      const ref = q.topicCode ? findTopicByCode(q.topicCode) : undefined;
+      if (ref) {
+        if (!byTopic[ref.code]) {
+          byTopic[ref.code] = { ref, total: 0, correct: 0 };
+        }
+        byTopic[ref.code].total += result.maxPoints;
+        byTopic[ref.code].correct += result.points;
+      }
     });
 
     return {
       correctCount: correct,
       incorrectCount: session.questions.length - correct,
-      score: Math.round((correct / session.questions.length) * 200),
-      subjectBreakdown: breakdown
+      points: earned,
+      maxPoints: available,
+      subjectBreakdown: breakdown,
+      // NMT rates every subject separately; subjects without a table get none
+      scaledScores: Object.fromEntries(
+        scaleSessionScores(session.questions, session.userAnswers).map(scaled => [scaled.subject, scaled])
+      ) as Record<string, ScaledScore>,
+      // Weakest topics first, they are the ones worth revisiting
+      topicBreakdown: Object.values(byTopic).sort((a, b) => a.correct / a.total - b.correct / b.total)
     };
   }, [session]);
 
@@ -46,6 +124,20 @@ export const ResultsView: React.FC<ResultsViewProps> = ({ session, onRestart, on
   ];
 
   const hasMultipleSubjects = Object.keys(subjectBreakdown).length > 1;
+  // A single-subject test is summed up by its rating, like the real one
+  const headline = hasMultipleSubjects ? undefined : Object.values(scaledScores)[0];
+  const headlineScale = headline ? findSubjectScale(headline.subject) : undefined;
+  const passScore = headlineScale?.passRawScore;
+
+  // Sudden death is about how far the student got without a mistake
+  const firstMiss = session.questions.findIndex((q, idx) => !isFullyCorrect(q, session.userAnswers[idx]));
+  const streak = session.config.mode === 'sudden-death'
+    ? (firstMiss === -1 ? session.questions.length : firstMiss)
+    : undefined;
+
+  // Items the generator rejected and could not replace
+  const dropped = session.generation?.dropped ?? 0;
+  const missing = Math.max(0, session.config.count - session.questions.length);
 
   return (
     <div className="max-w-4xl mx-auto w-full animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -54,8 +146,23 @@ export const ResultsView: React.FC<ResultsViewProps> = ({ session, onRestart, on
             <div className="absolute top-0 left-0 w-full h-full opacity-10 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-blue-500 to-transparent"></div>
             <h2 className="text-3xl font-bold mb-2 relative z-10">Результати тестування</h2>
             <p className="text-slate-400 relative z-10">{session.subject} • Програма 2026</p>
+            {streak !== undefined && (
+              <p className="mt-3 text-lg font-semibold text-blue-300 relative z-10">Правильних відповідей поспіль: {streak} з {session.questions.length}</p>
+            )}
         </div>
 
+        {(dropped > 0 || missing > 0) && (
+          <div className="mx-8 mt-8 flex items-start p-4 rounded-xl border bg-amber-50 border-amber-100 text-sm text-amber-800">
+            <AlertTriangle className="w-5 h-5 mr-3 flex-shrink-0 text-amber-600" />
+            <span>
+              {dropped > 0 && <>Під час генерації відхилено некоректних питань: {dropped}. </>}
+              {missing > 0
+                ? <>Тест містить {session.questions.length} з {session.config.count} питань, тож результат менш точний.</>
+                : <>Їх замінено новими, тест повний.</>}
+            </span>
+          </div>
+        )}
+
         <div className="p-8 grid grid-cols-1 md:grid-cols-2 gap-8 items-center">
           {/* Chart Section */}
           <div className="h-64 relative">
@@ -81,13 +188,58 @@ export const ResultsView: React.FC<ResultsViewProps> = ({ session, onRestart, on
               </PieChart>
             </ResponsiveContainer>
             <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-center">
-              <div className="text-4xl font-bold text-slate-800">{score}</div>
-              <div className="text-xs text-slate-500 font-semibold uppercase tracking-wider">Балів</div>
+              {headline ? (
+                <>
+                  <div className={`text-4xl font-bold ${headline.passed ? 'text-slate-800' : 'text-red-600'}`}>{headline.rating ?? '—'}</div>
+                  <div className="text-xs text-slate-500 font-semibold uppercase tracking-wider">Рейтинг 100–200</div>
+                </>
+              ) : (
+                <>
+                  <div className="text-4xl font-bold text-slate-800">{points}</div>
+                  <div className="text-xs text-slate-500 font-semibold uppercase tracking-wider">з {maxPoints} балів</div>
+                </>
+              )}
             </div>
           </div>
 
           {/* Text Summary */}
           <div className="space-y-6">
+             {headline && (
+                <div
+                    title={`Таблиця переведення ${headline.scaleVersion}`}
+                    className={`flex items-center p-4 rounded-xl border ${headline.passed ? 'bg-blue-50 border-blue-100' : 'bg-amber-50 border-amber-100'}`}
+                >
+                    <div className={`p-2 rounded-lg mr-4 ${headline.passed ? 'bg-blue-100' : 'bg-amber-100'}`}>
+                        {headline.passed
+                          ? <Award className="w-6 h-6 text-blue-600" />
+                          : <AlertTriangle className="w-6 h-6 text-amber-600" />}
+                    </div>
+                    <div>
+                        <div className={`text-sm font-medium ${headline.passed ? 'text-blue-800' : 'text-amber-800'}`}>
+                            {headline.passed ? 'Поріг складено' : 'Поріг не подолано'}
+                        </div>
+                        <div className={`text-2xl font-bold ${headline.passed ? 'text-blue-700' : 'text-amber-700'}`}>
+                            {headline.rawScore} <span className="text-sm font-normal">/ {headline.maxRawScore} тестових балів</span>
+                        </div>
+                        <div className={`text-xs mt-1 ${headline.passed ? 'text-blue-700' : 'text-amber-700'}`}>
+                            {headline.passed
+                              ? `Рейтинговий бал: ${headline.rating}`
+                              : `Для рейтингу потрібно щонайменше ${passScore} тестових балів`}
+                        </div>
+                        {headline.estimated && maxPoints !== headline.maxRawScore && (
+                            <div className="text-xs text-slate-500 mt-1">
+                                Оцінка: {points} з {maxPoints} балів цього тесту перераховано на максимум НМТ ({headline.maxRawScore})
+                            </div>
+                        )}
+                        {headlineScale?.provisional && (
+                            <div className="text-xs text-slate-500 mt-1">
+                                Оцінка: офіційної таблиці переведення для цього предмета ще немає, рейтинг наближений
+                            </div>
+                        )}
+                    </div>
+                </div>
+             )}
+
              <div className="flex items-center p-4 bg-green-50 rounded-xl border border-green-100">
                 <div className="bg-green-100 p-2 rounded-lg mr-4">
                     <CheckCircle className="w-6 h-6 text-green-600" />
@@ -95,6 +247,9 @@ export const ResultsView: React.FC<ResultsViewProps> = ({ session, onRestart, on
                 <div>
                     <div className="text-sm text-green-800 font-medium">Правильних відповідей</div>
                     <div className="text-2xl font-bold text-green-700">{correctCount} <span className="text-sm font-normal text-green-600">/ {session.questions.length}</span></div>
+                    {points !== correctCount && (
+                        <div className="text-xs text-green-700 mt-1">Тестових балів: {points} з {maxPoints}</div>
+                    )}
                 </div>
              </div>
              
@@ -120,6 +275,7 @@ export const ResultsView: React.FC<ResultsViewProps> = ({ session, onRestart, on
              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                {Object.entries(subjectBreakdown).map(([subject, statsRaw]) => {
                  const stats = statsRaw as SubjectStat;
+                 const scaled = scaledScores[subject];
                  const percent = Math.round((stats.correct / stats.total) * 100);
                  return (
                    <div key={subject} className="bg-white p-4 rounded-xl border border-slate-200">
@@ -135,8 +291,59 @@ export const ResultsView: React.FC<ResultsViewProps> = ({ session, onRestart, on
                          style={{ width: `${percent}%` }}
                        />
                      </div>
-                     <div className="mt-2 text-xs text-slate-500 text-right">
-                       {stats.correct} з {stats.total}
+                     <div className="mt-2 flex justify-between text-xs text-slate-500">
+                       <span>
+                         {scaled && (scaled.passed
+                           ? <>Рейтинг: <span className="font-bold text-slate-700">{scaled.rating}</span> ({scaled.rawScore} з {scaled.maxRawScore}{scaled.estimated ? ', оцінка' : ''})</>
+                           : <span className="font-semibold text-amber-600">Поріг не подолано ({scaled.rawScore} з {scaled.maxRawScore})</span>)}
+                       </span>
+                       <span>{stats.correct} з {stats.total}</span>
+                     </div>
+                   </div>
+                 );
+               })}
+             </div>
+           </div>
+        )}
+
+        {/* Topic Breakdown, for questions tagged with a programme topic */}
+        {topicBreakdown.length > 0 && (
+           <div className="bg-white border-t border-slate-200 p-6">
+             <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center">
+                <ListTree className="w-5 h-5 mr-2 text-slate-500"/>
+                Результати за темами
+             </h3>
+             <div className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+               {topicBreakdown.map(stats => {
+                 const percent = Math.round((stats.correct / stats.total) * 100);
+                 return (
+                   <div key={stats.ref.code} className="flex flex-col sm:flex-row sm:items-center gap-3 p-4">
+                     <div className="flex-grow min-w-0">
+                       <div className="font-semibold text-slate-800">{stats.ref.topic}</div>
+                       <div className="text-xs text-slate-500 truncate">
+                         {hasMultipleSubjects ? `${stats.ref.subject} · ` : ''}{stats.ref.category}
+                       </div>
+                     </div>
+                     <span className={`text-sm font-bold whitespace-nowrap ${percent >= 70 ? 'text-green-600' : percent >= 40 ? 'text-yellow-600' : 'text-red-600'}`}>
+                       {percent}% <span className="font-normal text-slate-400">({stats.correct} з {stats.total})</span>
+                     </span>
+                     <div className="flex gap-2">
+                       {onStudyTopic && (
+                         <button
+                           onClick={() => onStudyTopic(stats.ref)}
+                           className="flex items-center px-3 py-1.5 rounded-lg text-xs font-semibold bg-emerald-50 text-emerald-700 hover:bg-emerald-100 transition-colors"
+                         >
+                           <NotebookPen className="w-4 h-4 mr-1" /> Конспект
+                         </button>
+                       )}
+                       {onPracticeTopic && (
+                         <button
+                           onClick={() => onPracticeTopic(stats.ref)}
+                           className="flex items-center px-3 py-1.5 rounded-lg text-xs font-semibold bg-blue-50 text-blue-700 hover:bg-blue-100 transition-colors"
+                         >
+                           <Play className="w-4 h-4 mr-1" /> Тест з теми
+                         </button>
+                       )}
                      </div>
                    </div>
                  );
@@ -151,12 +358,31 @@ export const ResultsView: React.FC<ResultsViewProps> = ({ session, onRestart, on
                 <h3 className="text-lg font-bold text-slate-800 mb-4">Детальний розбір</h3>
                 <div className="space-y-6">
                     {session.questions.map((q, idx) => {
-                        const isCorrect = session.userAnswers[idx] === q.correctIndex;
-                        const userAnswerLetter = session.userAnswers[idx] !== -1 ? String.fromCharCode(65 + session.userAnswers[idx]) : '-';
-                        const correctAnswerLetter = String.fromCharCode(65 + q.correctIndex);
+                        const answer = session.userAnswers[idx];
+                        const isCorrect = isFullyCorrect(q, answer);
+                        const result = scoreQuestion(q, answer);
+                        const userAnswerLetter = formatAnswer(q, answer);
+                        const correctAnswerLetter = formatCorrectAnswer(q);
+                        // Observed difficulty needs at least one recorded answer
+                        const stats = answerStats[idx]?.answered ? answerStats[idx] : undefined;
+                        // Shared text is shown once, above the first question of its group
+                        const startsPassage = q.passage && session.questions[idx - 1]?.passage?.id !== q.passage.id;
 
                         return (
-                            <div key={q.id} className={`p-5 rounded-xl border ${isCorrect ? 'border-green-200 bg-white' : 'border-red-200 bg-white'}`}>
+                            <React.Fragment key={q.id}>
+                            {startsPassage && q.passage && (
+                                <details className="rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm">
+                                    <summary className="font-semibold text-slate-700 cursor-pointer">
+                                        Текст: {q.passage.title || q.passage.source || 'до наступних завдань'}
+                                    </summary>
+                                    <p className="mt-3 text-slate-700 leading-relaxed whitespace-pre-line">
+                                        {splitPassage(q.passage.text).map((segment, i) =>
+                                            'gap' in segment ? <span key={i} className="font-semibold">({segment.gap}) ______</span> : segment.text
+                                        )}
+                                    </p>
+                                </details>
+                            )}
+                            <div className={`p-5 rounded-xl border ${isCorrect ? 'border-green-200 bg-white' : 'border-red-200 bg-white'}`}>
                                 <div className="flex items-start mb-3">
                                     <div className={`
                                         flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold text-white mr-3
@@ -166,31 +392,108 @@ export const ResultsView: React.FC<ResultsViewProps> = ({ session, onRestart, on
                                     </div>
                                     <div className="w-full">
                                         <div className="flex justify-between items-start">
-                                            <p className="text-slate-900 font-medium mb-2">{q.text}</p>
+                                            <p className="text-slate-900 font-medium mb-2"><MathText text={q.text} /></p>
                                             {q.subject && (
                                                 <span className="text-xs font-semibold text-slate-400 bg-slate-100 px-2 py-1 rounded ml-2 whitespace-nowrap hidden sm:block">
                                                     {q.subject}
                                                 </span>
                                             )}
                                         </div>
+
+                                        {q.media && <MediaFigure media={q.media} reveal compact />}
+                                        {q.figure && (
+                                            <div className="mb-3">
+                                                <GeometryFigure figure={q.figure} size={220} />
+                                            </div>
+                                        )}
                                         
                                         <div className="flex flex-wrap gap-2 text-sm mb-3">
                                             <span className={`px-2 py-1 rounded border ${isCorrect ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-700'}`}>
-                                                Ви обрали: <span className="font-bold">{userAnswerLetter}</span>
+                                                {q.type === 'open' ? 'Ви ввели' : 'Ви обрали'}: <span className="font-bold"><MathText text={userAnswerLetter} /></span>
                                             </span>
-                                            {!isCorrect && (
+                                            {(!isCorrect || q.type === 'open') && (
                                                  <span className="px-2 py-1 rounded border bg-green-50 border-green-200 text-green-700">
-                                                    Правильно: <span className="font-bold">{correctAnswerLetter}</span>
+                                                    Правильно: <span className="font-bold"><MathText text={correctAnswerLetter} /></span>
+                                                 </span>
+                                            )}
+                                            {(q.difficulty || stats) && (
+                                                 <span
+                                                    className="px-2 py-1 rounded border bg-slate-50 border-slate-200 text-slate-600"
+                                                    title={stats ? `Правильно відповіли ${stats.correct} з ${stats.answered} разів` : 'Рівень, з яким завдання згенеровано'}
+                                                 >
+                                                    Складність: <span className="font-bold">{DIFFICULTY_LABELS[stats ? calibrateDifficulty(q.difficulty, stats) : q.difficulty!]}</span>
+                                                    {stats && <span className="text-slate-400"> · {Math.round((stats.correct / stats.answered) * 100)}% правильних</span>}
+                                                 </span>
+                                            )}
+                                            {result.maxPoints > 1 && (
+                                                 <span className="px-2 py-1 rounded border bg-slate-50 border-slate-200 text-slate-600">
+                                                    Бали: <span className="font-bold">{result.points} / {result.maxPoints}</span>
+                                                 </span>
+                                            )}
+                                            {session.questionTimes?.[idx] !== undefined && (
+                                                 <span className="px-2 py-1 rounded border bg-slate-50 border-slate-200 text-slate-600">
+                                                    Час: <span className="font-bold">{formatSeconds(session.questionTimes[idx])}</span>
                                                  </span>
                                             )}
                                         </div>
+
+                                        {/* Per-row breakdown for matching tasks */}
+                                        {q.type === 'matching' && (
+                                            <div className="space-y-1 text-sm mb-3">
+                                                {q.prompts.map((prompt, row) => {
+                                                    const rows = Array.isArray(answer) ? answer : [];
+                                                    const rowCorrect = rows[row] === q.correctMatches[row];
+                                                    return (
+                                                        <div key={row} className="flex items-start">
+                                                            {rowCorrect
+                                                                ? <CheckCircle className="w-4 h-4 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                                                                : <XCircle className="w-4 h-4 text-red-500 mr-2 mt-0.5 flex-shrink-0" />}
+                                                            <span className="text-slate-700">
+                                                                <span className="font-semibold">{row + 1}.</span> <MathText text={prompt} /> → <span className="font-semibold">{optionLetter(q.correctMatches[row])}</span> <MathText text={q.options[q.correctMatches[row]]} />
+                                                            </span>
+                                                        </div>
+                                                    );
+                                                })}
+                                            </div>
+                                        )}
+
+                                        {/* Student's order next to the correct one for sequence tasks */}
+                                        {q.type === 'sequence' && (
+                                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm mb-3">
+                                                <div>
+                                                    <div className="font-semibold text-slate-500 mb-1">Ваш порядок</div>
+                                                    {Array.isArray(answer) && answer.length ? (
+                                                        <ol className="space-y-1">
+                                                            {answer.map((item, position) => (
+                                                                <li key={position} className={`flex items-start ${item === q.correctOrder[position] ? 'text-green-700' : 'text-red-700'}`}>
+                                                                    <span className="font-semibold mr-2">{position + 1}.</span> <MathText text={q.items[item]} />
+                                                                </li>
+                                                            ))}
+                                                        </ol>
+                                                    ) : (
+                                                        <div className="text-slate-400">Порядок не встановлено</div>
+                                                    )}
+                                                </div>
+                                                <div>
+                                                    <div className="font-semibold text-slate-500 mb-1">Правильний порядок</div>
+                                                    <ol className="space-y-1">
+                                                        {q.correctOrder.map((item, position) => (
+                                                            <li key={position} className="flex items-start text-slate-700">
+                                                                <span className="font-semibold mr-2">{position + 1}.</span> <MathText text={q.items[item]} />
+                                                            </li>
+                                                        ))}
+                                                    </ol>
+                                                </div>
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
                                 <div className="ml-11 text-sm text-slate-600 bg-slate-50 p-3 rounded-lg border border-slate-100">
                                     <span className="font-semibold text-slate-800">Пояснення: </span>
-                                    {q.explanation}
+                                    <MathText text={q.explanation} />
                                 </div>
                             </div>
+                            </React.Fragment>
                         )
                     })}
                 </div>
@@ -205,6 +508,31 @@ export const ResultsView: React.FC<ResultsViewProps> = ({ session, onRestart, on
             >
                 На головну
             </button>
+            <button 
+                onClick={() => downloadQuestionPack(packFromSession(session))}
+                className="flex items-center justify-center px-6 py-3 bg-white border border-slate-300 text-slate-700 rounded-xl font-semibold hover:bg-slate-100 transition-colors"
+            >
+                <Download className="w-5 h-5 mr-2" />
+                Експорт питань
+            </button>
+            {onOpenAdmission && (
+                <button
+                    onClick={onOpenAdmission}
+                    className="flex items-center justify-center px-6 py-3 bg-white border border-slate-300 text-slate-700 rounded-xl font-semibold hover:bg-slate-100 transition-colors"
+                >
+                    <Calculator className="w-5 h-5 mr-2" />
+                    Конкурсний бал
+                </button>
+            )}
+            {onNewTest && (
+                <button
+                    onClick={onNewTest}
+                    className="flex items-center justify-center px-6 py-3 bg-white border border-slate-300 text-slate-700 rounded-xl font-semibold hover:bg-slate-100 transition-colors"
+                >
+                    <Shuffle className="w-5 h-5 mr-2" />
+                    Новий тест з тими ж налаштуваннями
+                </button>
+            )}
             <button 
                 onClick={onRestart}
                 className="flex items-center justify-center px-6 py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 shadow-lg shadow-blue-200 transition-all hover:-translate-y-0.5"
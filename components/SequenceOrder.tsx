@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+import { SequenceQuestion } from '../types';
+import { MathText } from './MathText';
+import { mathToPlainText } from '../services/mathMarkup';
+import { ChevronUp, ChevronDown, GripVertical, CheckCircle2, XCircle } from 'lucide-react';
+
+interface SequenceOrderProps {
+  question: SequenceQuestion;
+  answer: number[]; // Item indices in the student's order, [] if not arranged yet
+  onChange: (order: number[]) => void;
+  // Simulation saves every move; practice saves only on "Перевірити"
+  commitOnChange: boolean;
+  reveal: boolean; // Show the correct order (practice feedback)
+}
+
+const itemLetter = (idx: number) => String.fromCharCode(65 + idx);
+
+export const SequenceOrder: React.FC<SequenceOrderProps> = ({ question, answer, onChange, commitOnChange, reveal }) => {
+  const [order, setOrder] = useState<number[]>(
+    answer.length === question.items.length ? answer : question.items.map((_, idx) => idx)
+  );
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const rowRefs = useRef<(HTMLLIElement | null)[]>([]);
+
+  const move = (from: number, to: number) => {
+    if (reveal || to < 0 || to >= order.length || from === to) return;
+    const next = [...order];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    setOrder(next);
+    setAnnouncement(`${mathToPlainText(question.items[item])} — позиція ${to + 1}`);
+    if (commitOnChange) onChange(next);
+    // Keep keyboard focus on the moved item
+    requestAnimationFrame(() => rowRefs.current[to]?.focus());
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, position: number) => {
+    if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      move(position, position - 1);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      move(position, position + 1);
+    }
+  };
+
+  const getRowStyles = (position: number) => {
+    if (reveal) {
+      return order[position] === question.correctOrder[position]
+        ? 'border-green-500 bg-green-50 text-green-900'
+        : 'border-red-500 bg-red-50 text-red-900';
+    }
+    return dragIndex === position
+      ? 'border-blue-400 bg-blue-50 opacity-60'
+      : 'border-slate-200 bg-white hover:border-blue-300 text-slate-800';
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-500">
+        Перетягніть події або використовуйте стрілки ↑ ↓ на клавіатурі. Зверху — найдавніша подія.
+      </p>
+
+      <ol className="space-y-3" aria-label="Послідовність подій">
+        {order.map((item, position) => (
+          <li
+            key={item}
+            ref={el => { rowRefs.current[position] = el; }}
+            tabIndex={reveal ? -1 : 0}
+            draggable={!reveal}
+            onDragStart={() => setDragIndex(position)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => { if (dragIndex !== null) move(dragIndex, position); setDragIndex(null); }}
+            onDragEnd={() => setDragIndex(null)}
+            onKeyDown={(e) => handleKeyDown(e, position)}
+            aria-label={`${position + 1}. ${mathToPlainText(question.items[item])}`}
+            className={`flex items-center p-4 rounded-xl border-2 transition-all outline-none focus:ring-2 focus:ring-blue-500 ${reveal ? '' : 'cursor-grab'} ${getRowStyles(position)}`}
+          >
+            <span className="w-8 h-8 rounded-full border-2 border-current flex items-center justify-center font-bold text-sm mr-3 flex-shrink-0 opacity-70">
+              {position + 1}
+            </span>
+            {!reveal && <GripVertical className="w-5 h-5 text-slate-300 mr-2 flex-shrink-0" />}
+            <span className="font-bold text-slate-400 mr-2">{itemLetter(item)}</span>
+            <span className="text-lg flex-grow"><MathText text={question.items[item]} /></span>
+
+            {!reveal && (
+              <div className="flex flex-col ml-2">
+                <button
+                  onClick={() => move(position, position - 1)}
+                  disabled={position === 0}
+                  tabIndex={-1}
+                  aria-label="Перемістити вище"
+                  className="p-0.5 text-slate-400 hover:text-blue-600 disabled:opacity-20"
+                >
+                  <ChevronUp className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => move(position, position + 1)}
+                  disabled={position === order.length - 1}
+                  tabIndex={-1}
+                  aria-label="Перемістити нижче"
+                  className="p-0.5 text-slate-400 hover:text-blue-600 disabled:opacity-20"
+                >
+                  <ChevronDown className="w-5 h-5" />
+                </button>
+              </div>
+            )}
+            {reveal && (order[position] === question.correctOrder[position]
+              ? <CheckCircle2 className="w-6 h-6 text-green-600 ml-2" />
+              : <XCircle className="w-6 h-6 text-red-600 ml-2" />)}
+          </li>
+        ))}
+      </ol>
+
+      <div className="sr-only" aria-live="polite">{announcement}</div>
+
+      {/* The starting order is a valid answer too, so it has to be confirmed explicitly */}
+      {!reveal && (!commitOnChange || answer.length === 0) && (
+        <button
+          onClick={() => onChange(order)}
+          className="px-6 py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition-colors"
+        >
+          {commitOnChange ? 'Зберегти порядок' : 'Перевірити'}
+        </button>
+      )}
+
+      {reveal && (
+        <div className="text-sm text-slate-700 bg-slate-50 border border-slate-200 rounded-xl p-4">
+          <span className="font-semibold">Правильна послідовність: </span>
+          {question.correctOrder.map(idx => mathToPlainText(question.items[idx])).join(' → ')}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,357 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_GEMINI_MODEL, DEFAULT_GEMINI_TTS_MODEL, ProviderKind, ProviderSettings, isApiKeyLocked, loadProviderSettings,
+  saveProviderSettings, saveProviderSettingsEncrypted, testProviderConnection, unlockApiKey
+} from '../services/llm';
+import { WrongPassphraseError } from '../services/secretBox';
+import { describeError } from '../services/generationErrors';
+import { chatPrompt } from '../services/geminiService';
+import { ArrowLeft, KeyRound, Lock, Unlock, Eye, EyeOff, PlugZap, Save, Trash2, CheckCircle2, AlertCircle, Loader2, FileCode2 } from 'lucide-react';
+
+interface SettingsViewProps {
+  onBack: () => void;
+  onOpenPromptLab: () => void;
+}
+
+const PROVIDERS: { kind: ProviderKind; label: string; hint: string }[] = [
+  { kind: 'proxy', label: 'Сервер застосунку', hint: 'Ключ зберігається на сервері, нічого налаштовувати не треба' },
+  { kind: 'gemini', label: 'Gemini з власним ключем', hint: 'Запити йдуть напряму до Google з вашим ключем' },
+  { kind: 'openai-compatible', label: 'OpenAI-сумісний сервер', hint: 'llama.cpp, Ollama або інший сервер з API OpenAI' },
+  { kind: 'fixture', label: 'Демо-режим', hint: 'Заготовлені відповіді без мережі' }
+];
+
+// Suggestions only; any model id the account has access to can be typed in
+const GEMINI_TEXT_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+const GEMINI_TTS_MODELS = ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'];
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// Connection tests should not hang the screen on an unreachable server
+const TEST_TIMEOUT_MS = 20000;
+
+type Status = { tone: 'ok' | 'error'; text: string; details?: string };
+
+const errorStatus = (error: unknown): Status => ({
+  tone: 'error',
+  text: describeError(error),
+  details: error instanceof Error ? error.message : String(error)
+});
+
+const inputClass = "w-full px-4 py-2.5 rounded-xl border border-slate-200 bg-white text-slate-800 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export const SettingsView: React.FC<SettingsViewProps> = ({ onBack, onOpenPromptLab }) => {
+  const [saved, setSaved] = useState<ProviderSettings>(loadProviderSettings);
+  const [draft, setDraft] = useState<ProviderSettings>(saved);
+
+  // A newly typed key; empty keeps the stored one
+  const [apiKey, setApiKey] = useState('');
+  const [showKey, setShowKey] = useState(false);
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+
+  const [locked, setLocked] = useState(() => isApiKeyLocked(saved));
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+
+  const [busy, setBusy] = useState<'test' | 'save' | 'unlock' | null>(null);
+  const [status, setStatus] = useState<Status | null>(null);
+
+  const isGemini = draft.kind === 'gemini';
+  const usesKey = isGemini || draft.kind === 'openai-compatible';
+  const usesBaseUrl = draft.kind === 'openai-compatible' || draft.kind === 'proxy';
+  const hasStoredKey = Boolean(saved.apiKey || saved.encryptedApiKey);
+
+  const update = (patch: Partial<ProviderSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setStatus(null);
+  };
+
+  // The draft as it would be saved. Model fields left empty mean the
+  // provider default; a stored key is kept unless a new one was typed.
+  const buildSettings = (): ProviderSettings => {
+    const settings: ProviderSettings = {
+      kind: draft.kind,
+      model: draft.model?.trim() || undefined,
+      ttsModel: draft.ttsModel?.trim() || undefined,
+      baseUrl: draft.baseUrl?.trim() || undefined
+    };
+    return apiKey.trim()
+      ? { ...settings, apiKey: apiKey.trim() }
+      : { ...settings, apiKey: saved.apiKey, encryptedApiKey: saved.encryptedApiKey };
+  };
+
+  const handleTest = async () => {
+    setBusy('test');
+    setStatus(null);
+    try {
+      await testProviderConnection(buildSettings(), chatPrompt(), AbortSignal.timeout(TEST_TIMEOUT_MS));
+      setStatus({ tone: 'ok', text: "З'єднання працює: модель відповіла." });
+    } catch (error) {
+      console.error("Connection test failed:", error);
+      setStatus(errorStatus(error));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSave = async () => {
+    const settings = buildSettings();
+    const protect = usesKey && encrypt && Boolean(apiKey.trim());
+    if (protect && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setStatus({ tone: 'error', text: `Пароль має містити щонайменше ${MIN_PASSPHRASE_LENGTH} символів.` });
+      return;
+    }
+
+    setBusy('save');
+    try {
+      if (protect) {
+        await saveProviderSettingsEncrypted(settings, passphrase);
+      } else {
+        saveProviderSettings(settings);
+      }
+      const stored = loadProviderSettings();
+      setSaved(stored);
+      setDraft(stored);
+      setApiKey('');
+      setPassphrase('');
+      setEncrypt(false);
+      setLocked(isApiKeyLocked(stored));
+      setStatus({ tone: 'ok', text: 'Налаштування збережено. Вони діють з наступного запиту.' });
+    } catch (error) {
+      console.error("Failed to save settings:", error);
+      setStatus(errorStatus(error));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleUnlock = async () => {
+    setBusy('unlock');
+    try {
+      await unlockApiKey(unlockPassphrase);
+      setLocked(false);
+      setUnlockPassphrase('');
+      setStatus({ tone: 'ok', text: 'Ключ розблоковано до перезавантаження сторінки.' });
+    } catch (error) {
+      setStatus(error instanceof WrongPassphraseError
+        ? { tone: 'error', text: 'Неправильний пароль.' }
+        : errorStatus(error));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRemoveKey = () => {
+    const { apiKey: _plain, encryptedApiKey: _encrypted, ...rest } = saved;
+    saveProviderSettings(rest);
+    setSaved(rest);
+    setLocked(false);
+    setStatus({ tone: 'ok', text: 'Ключ видалено з цього браузера.' });
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto w-full animate-in fade-in duration-500">
+      <div className="mb-8 flex items-center">
+        <button
+            onClick={onBack}
+            className="mr-4 p-2 rounded-full hover:bg-slate-200 transition-colors"
+        >
+            <ArrowLeft className="w-6 h-6 text-slate-600" />
+        </button>
+        <div>
+            <h2 className="text-3xl font-bold text-slate-900">Налаштування моделі</h2>
+            <p className="text-slate-500">Звідки застосунок бере питання, конспекти та озвучення</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-3xl shadow-lg border border-slate-200 p-6 space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3" role="radiogroup" aria-label="Постачальник моделі">
+          {PROVIDERS.map(provider => (
+            <button
+              key={provider.kind}
+              role="radio"
+              aria-checked={draft.kind === provider.kind}
+              onClick={() => update({ kind: provider.kind })}
+              className={`p-4 rounded-xl text-left border transition-all ${
+                draft.kind === provider.kind
+                  ? 'border-blue-500 bg-blue-50 ring-2 ring-blue-200'
+                  : 'border-slate-200 hover:border-blue-300'
+              }`}
+            >
+              <span className="block font-semibold text-slate-800">{provider.label}</span>
+              <span className="block text-xs text-slate-500 mt-1">{provider.hint}</span>
+            </button>
+          ))}
+        </div>
+
+        {usesKey && (
+          <div className="space-y-3">
+            <label className="flex items-center text-sm font-semibold text-slate-700">
+              <KeyRound className="w-4 h-4 mr-2 text-slate-400" />
+              Ключ API
+            </label>
+
+            {hasStoredKey && (
+              <div className="flex items-center justify-between p-3 bg-slate-50 rounded-xl text-sm">
+                <span className="flex items-center text-slate-600">
+                  {saved.encryptedApiKey
+                    ? <><Lock className="w-4 h-4 mr-2 text-slate-400" />Збережено, захищено паролем{locked ? '' : ' (розблоковано)'}</>
+                    : <><KeyRound className="w-4 h-4 mr-2 text-slate-400" />Збережено без шифрування</>}
+                </span>
+                <button onClick={handleRemoveKey} className="flex items-center text-red-600 hover:text-red-700 font-medium">
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Видалити
+                </button>
+              </div>
+            )}
+
+            {locked && (
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  value={unlockPassphrase}
+                  onChange={(e) => setUnlockPassphrase(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter' && unlockPassphrase) handleUnlock(); }}
+                  placeholder="Пароль, щоб розблокувати ключ"
+                  className={inputClass}
+                />
+                <button
+                  onClick={handleUnlock}
+                  disabled={!unlockPassphrase || busy !== null}
+                  className="flex items-center px-4 py-2.5 bg-slate-900 text-white rounded-xl font-semibold hover:bg-slate-800 transition-colors disabled:opacity-50"
+                >
+                  {busy === 'unlock' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlock className="w-4 h-4" />}
+                </button>
+              </div>
+            )}
+
+            <div className="relative">
+              <input
+                type={showKey ? 'text' : 'password'}
+                value={apiKey}
+                onChange={(e) => { setApiKey(e.target.value); setStatus(null); }}
+                placeholder={hasStoredKey ? 'Новий ключ, щоб замінити збережений' : isGemini ? 'Ключ з Google AI Studio' : 'Необов\'язково для локального сервера'}
+                autoComplete="off"
+                className={`${inputClass} pr-12 font-mono`}
+              />
+              <button
+                onClick={() => setShowKey(!showKey)}
+                aria-label={showKey ? 'Сховати ключ' : 'Показати ключ'}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+              >
+                {showKey ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+              </button>
+            </div>
+
+            {apiKey.trim() && (
+              <div className="p-4 bg-slate-50 rounded-xl space-y-3">
+                <label className="flex items-center text-sm text-slate-700 cursor-pointer">
+                  <input type="checkbox" checked={encrypt} onChange={(e) => setEncrypt(e.target.checked)} className="mr-2 w-4 h-4" />
+                  Зашифрувати ключ паролем
+                </label>
+                {encrypt && (
+                  <>
+                    <input
+                      type="password"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                      placeholder={`Пароль (щонайменше ${MIN_PASSPHRASE_LENGTH} символів)`}
+                      className={inputClass}
+                    />
+                    <p className="text-xs text-slate-500">Пароль ніде не зберігається: після перезавантаження сторінки його треба ввести знову. Забутий пароль не відновити, лише ввести ключ заново.</p>
+                  </>
+                )}
+              </div>
+            )}
+            <p className="text-xs text-slate-500">Ключ зберігається лише в цьому браузері.</p>
+          </div>
+        )}
+
+        {usesBaseUrl && (
+          <div className="space-y-2">
+            <label className="block text-sm font-semibold text-slate-700">Адреса сервера</label>
+            <input
+              type="url"
+              value={draft.baseUrl || ''}
+              onChange={(e) => update({ baseUrl: e.target.value })}
+              placeholder={draft.kind === 'proxy' ? '/api' : 'http://localhost:11434/v1'}
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        {usesKey && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="block text-sm font-semibold text-slate-700">Модель для тексту</label>
+              <input
+                list={isGemini ? 'gemini-text-models' : undefined}
+                value={draft.model || ''}
+                onChange={(e) => update({ model: e.target.value })}
+                placeholder={isGemini ? DEFAULT_GEMINI_MODEL : 'llama3.1'}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-semibold text-slate-700">Модель для озвучення</label>
+              <input
+                list={isGemini ? 'gemini-tts-models' : undefined}
+                value={draft.ttsModel || ''}
+                onChange={(e) => update({ ttsModel: e.target.value })}
+                placeholder={isGemini ? DEFAULT_GEMINI_TTS_MODEL : 'tts-1'}
+                className={inputClass}
+              />
+            </div>
+            <datalist id="gemini-text-models">
+              {GEMINI_TEXT_MODELS.map(id => <option key={id} value={id} />)}
+            </datalist>
+            <datalist id="gemini-tts-models">
+              {GEMINI_TTS_MODELS.map(id => <option key={id} value={id} />)}
+            </datalist>
+          </div>
+        )}
+
+        {status && (
+          <div
+            role="status"
+            className={`flex items-start p-4 rounded-xl text-sm ${status.tone === 'ok' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}
+          >
+            {status.tone === 'ok'
+              ? <CheckCircle2 className="w-5 h-5 mr-2 flex-shrink-0" />
+              : <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" />}
+            <div>
+              <p className="font-medium">{status.text}</p>
+              {status.details && <p className="mt-1 text-xs opacity-75 break-all">{status.details}</p>}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            onClick={handleTest}
+            disabled={busy !== null}
+            className="flex-1 flex items-center justify-center px-6 py-3 bg-white border border-slate-200 text-slate-700 rounded-xl font-semibold hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            {busy === 'test' ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <PlugZap className="w-5 h-5 mr-2" />}
+            Перевірити з'єднання
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={busy !== null}
+            className="flex-1 flex items-center justify-center px-6 py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 shadow-lg shadow-blue-200 transition-colors disabled:opacity-50"
+          >
+            {busy === 'save' ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Save className="w-5 h-5 mr-2" />}
+            Зберегти
+          </button>
+        </div>
+      </div>
+
+      <button
+        onClick={onOpenPromptLab}
+        className="mt-6 mx-auto flex items-center text-sm text-slate-500 hover:text-blue-600 transition-colors"
+      >
+        <FileCode2 className="w-4 h-4 mr-2" />
+        Шаблони промптів (для розробників)
+      </button>
+    </div>
+  );
+};
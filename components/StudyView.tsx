@@ -1,12 +1,19 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Subject } from '../types';
-import { TOPICS } from '../data/topics';
+import { Subject, Difficulty } from '../types';
+import { TOPICS, TopicRef } from '../data/topics';
 import { generateStudyNotes, generateSpeech } from '../services/geminiService';
+import { splitFigureBlocks } from '../services/figures';
+import { GeometryFigure } from './GeometryFigure';
+import { MathFormula } from './MathText';
+import { mathToSpeech } from '../services/mathMarkup';
+import { DifficultyPicker } from './DifficultyPicker';
+import { DEFAULT_DIFFICULTY } from '../services/difficulty';
 import { ChevronRight, ArrowLeft, Book, Loader2, ScrollText, GraduationCap, CheckCircle, Volume2, StopCircle, Settings, X, HelpCircle, Monitor, Smartphone, Pause, Play, Square } from 'lucide-react';
 
 interface StudyViewProps {
   onBack: () => void;
-  onStartQuiz: (subject: Subject, topic: string) => void;
+  onStartQuiz: (subject: Subject, topic: string, difficulty: Difficulty) => void;
+  initialTopic?: TopicRef; // Opens the notes for this topic right away
 }
 
 interface VoiceSettings {
@@ -23,11 +30,13 @@ const CLOUD_VOICES = [
   { name: 'Zephyr (Жіночий, м\'який)', id: 'Zephyr' },
 ];
 
-export const StudyView: React.FC<StudyViewProps> = ({ onBack, onStartQuiz }) => {
+export const StudyView: React.FC<StudyViewProps> = ({ onBack, onStartQuiz, initialTopic }) => {
   const [selectedSubject, setSelectedSubject] = useState<Subject | null>(null);
   const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
   const [notes, setNotes] = useState<string | null>(null);
+  const [notesVersion, setNotesVersion] = useState<string | null>(null); // Prompt template behind the notes
   const [loading, setLoading] = useState(false);
+  const [quizDifficulty, setQuizDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
 
   // Audio State
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -135,15 +144,19 @@ export const StudyView: React.FC<StudyViewProps> = ({ onBack, onStartQuiz }) =>
       if (!notes) return;
       stopSpeaking();
 
-      // Robust Markdown Cleaning for Speech
-      const cleanText = notes
+      // Drawings are not read aloud
+      const prose = splitFigureBlocks(notes)
+        .map(segment => 'text' in segment ? segment.text : '')
+        .join('\n');
+      // Robust Markdown Cleaning for Speech; formulas are read out in words ("дріб: 1 на 2")
+      const cleanText = mathToSpeech(prose)
         // Remove headers markers at start of lines (e.g. "### Title" -> "Title")
         .replace(/^#+\s*/gm, '') 
         // Remove bold/italic markers (**text** -> text)
         .replace(/[\*_]{1,3}(.*?)[\*_]{1,3}/g, '$1') 
         // Remove any remaining markdown symbols just in case
         .replace(/[*#_`]/g, '')
-        // Remove LaTeX delimiters
+        // Remove stray dollar signs
         .replace(/\$/g, '') 
         // Remove citations/links
         .replace(/\[.*?\]/g, '')
@@ -218,11 +231,13 @@ export const StudyView: React.FC<StudyViewProps> = ({ onBack, onStartQuiz }) =>
     setSelectedTopic(topic);
     setLoading(true);
     setNotes(null); // Clear previous
+    setNotesVersion(null);
     stopSpeaking(); // Stop any audio
     
     try {
       const content = await generateStudyNotes(subject, topic);
-      setNotes(content);
+      setNotes(content.text);
+      setNotesVersion(content.promptVersion);
     } catch (error) {
       console.error(error);
       setNotes("Вибачте, сталася помилка при генерації конспекту. Спробуйте пізніше.");
@@ -231,6 +246,10 @@ export const StudyView: React.FC<StudyViewProps> = ({ onBack, onStartQuiz }) =>
     }
   };
 
+  useEffect(() => {
+    if (initialTopic) handleTopicSelect(initialTopic.subject, initialTopic.topic);
+  }, [initialTopic]);
+
   const clearSelection = () => {
     stopSpeaking();
     setSelectedTopic(null);
@@ -261,8 +280,7 @@ export const StudyView: React.FC<StudyViewProps> = ({ onBack, onStartQuiz }) =>
                  return <strong key={i} className="text-slate-900">{part.slice(2, -2)}</strong>;
              }
              if (part.startsWith('$') && part.endsWith('$')) {
-                 // Render math-like text cleanly without dollar signs
-                 return <span key={i} className="font-mono text-blue-700 bg-blue-50 px-1 rounded mx-0.5">{part.slice(1, -1)}</span>;
+                 return <MathFormula key={i} source={part.slice(1, -1)} />;
              }
              return part;
         });
@@ -433,7 +451,16 @@ export const StudyView: React.FC<StudyViewProps> = ({ onBack, onStartQuiz }) =>
                 </div>
                 
                 <div className="prose prose-slate max-w-none mb-12">
-                    {notes && renderContent(notes)}
+                    {notes && splitFigureBlocks(notes).map((segment, idx) =>
+                        'figure' in segment ? (
+                            <div key={idx} className="my-6 p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                                <GeometryFigure figure={segment.figure} />
+                            </div>
+                        ) : (
+                            <React.Fragment key={idx}>{renderContent(segment.text)}</React.Fragment>
+                        )
+                    )}
+                    {notesVersion && <p className="mt-8 text-xs text-slate-400">Шаблон конспекту: {notesVersion}</p>}
                 </div>
 
                 <div className="p-8 bg-blue-50 rounded-2xl border border-blue-100">
@@ -441,9 +468,12 @@ export const StudyView: React.FC<StudyViewProps> = ({ onBack, onStartQuiz }) =>
                     <p className="text-slate-600 mb-6">
                         Перевірте, як добре ви засвоїли тему "{selectedTopic}". Пройдіть короткий тест із 10 питань.
                     </p>
+                    <div className="mb-6">
+                        <DifficultyPicker value={quizDifficulty} onChange={setQuizDifficulty} />
+                    </div>
                     <div className="flex flex-col sm:flex-row gap-4">
                         <button 
-                            onClick={() => onStartQuiz(selectedSubject, selectedTopic)}
+                            onClick={() => onStartQuiz(selectedSubject, selectedTopic, quizDifficulty)}
                             className="flex-1 flex items-center justify-center px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 shadow-lg shadow-blue-200 transition-all hover:-translate-y-0.5"
                         >
                             <CheckCircle className="w-5 h-5 mr-2" />
@@ -503,14 +533,14 @@ export const StudyView: React.FC<StudyViewProps> = ({ onBack, onStartQuiz }) =>
                                {group.category}
                            </h4>
                            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                               {group.topics.map((topic, tIdx) => (
+                               {group.topics.map(topic => (
                                    <button
-                                      key={tIdx}
-                                      onClick={() => handleTopicSelect(subject, topic)}
+                                      key={topic.code}
+                                      onClick={() => handleTopicSelect(subject, topic.name)}
                                       className="flex items-center justify-between p-3 rounded-lg hover:bg-blue-50 hover:text-blue-700 transition-colors text-left group border border-transparent hover:border-blue-100"
                                    >
                                       <span className="text-sm font-medium text-slate-700 group-hover:text-blue-700 truncate mr-2">
-                                          {topic}
+                                          {topic.name}
                                       </span>
                                       <ChevronRight className="w-4 h-4 text-slate-300 group-hover:text-blue-500 flex-shrink-0" />
                                    </button>
@@ -0,0 +1,124 @@
+import { Subject } from '../types';
+import type { AdmissionRules, SubjectWeights } from '../services/admission';
+
+// Subject coefficients, sectoral and regional coefficients and minimum
+// competitive scores of the 2026 admission campaign, see
+// services/admission.ts. Another campaign goes into a new file.
+
+// Electives most engineering and science specialties accept
+const SCIENCE_ELECTIVES = (physics: number, chemistry: number, biology: number, english: number): SubjectWeights['electives'] => ({
+  [Subject.PHYSICS]: physics,
+  [Subject.CHEMISTRY]: chemistry,
+  [Subject.BIOLOGY]: biology,
+  [Subject.ENGLISH]: english
+});
+
+export const ADMISSION_2026: AdmissionRules = {
+  version: 'admission-2026.1',
+  source: 'Умови вступу на навчання для здобуття вищої освіти в 2026 році',
+  specialties: [
+    {
+      code: '121',
+      name: 'Інженерія програмного забезпечення',
+      weights: { ukrainian: 0.3, math: 0.5, history: 0.2, electives: SCIENCE_ELECTIVES(0.4, 0.2, 0.2, 0.3) },
+      sectoral: 1.02,
+      minScore: 130
+    },
+    {
+      code: '122',
+      name: "Комп'ютерні науки",
+      weights: { ukrainian: 0.3, math: 0.5, history: 0.2, electives: SCIENCE_ELECTIVES(0.4, 0.2, 0.2, 0.3) },
+      sectoral: 1.02,
+      minScore: 130
+    },
+    {
+      code: '141',
+      name: 'Електроенергетика, електротехніка та електромеханіка',
+      weights: { ukrainian: 0.3, math: 0.5, history: 0.2, electives: SCIENCE_ELECTIVES(0.5, 0.3, 0.2, 0.3) },
+      sectoral: 1.02,
+      minScore: 125
+    },
+    {
+      code: '104',
+      name: 'Фізика та астрономія',
+      weights: { ukrainian: 0.3, math: 0.5, history: 0.2, electives: SCIENCE_ELECTIVES(0.5, 0.3, 0.2, 0.3) },
+      sectoral: 1.02,
+      minScore: 125
+    },
+    {
+      code: '091',
+      name: 'Біологія та біохімія',
+      weights: { ukrainian: 0.3, math: 0.4, history: 0.2, electives: SCIENCE_ELECTIVES(0.3, 0.4, 0.5, 0.3) },
+      sectoral: 1.02,
+      minScore: 125
+    },
+    {
+      code: '102',
+      name: 'Хімія',
+      weights: { ukrainian: 0.3, math: 0.4, history: 0.2, electives: SCIENCE_ELECTIVES(0.4, 0.5, 0.4, 0.3) },
+      sectoral: 1.02,
+      minScore: 125
+    },
+    {
+      code: '014.04',
+      name: 'Середня освіта (Математика)',
+      weights: { ukrainian: 0.35, math: 0.5, history: 0.2, electives: SCIENCE_ELECTIVES(0.4, 0.2, 0.2, 0.3) },
+      sectoral: 1.02,
+      minScore: 130
+    },
+    {
+      code: '222',
+      name: 'Медицина',
+      weights: { ukrainian: 0.3, math: 0.4, history: 0.2, electives: SCIENCE_ELECTIVES(0.4, 0.5, 0.5, 0.3) },
+      sectoral: 1,
+      minScore: 150
+    },
+    {
+      code: '081',
+      name: 'Право',
+      weights: { ukrainian: 0.3, math: 0.4, history: 0.3, electives: SCIENCE_ELECTIVES(0.2, 0.2, 0.2, 0.3) },
+      sectoral: 1,
+      minScore: 140
+    },
+    {
+      code: '293',
+      name: 'Міжнародне право',
+      weights: { ukrainian: 0.3, math: 0.3, history: 0.3, electives: SCIENCE_ELECTIVES(0.2, 0.2, 0.2, 0.5) },
+      sectoral: 1,
+      minScore: 150
+    },
+    {
+      code: '051',
+      name: 'Економіка',
+      weights: { ukrainian: 0.3, math: 0.5, history: 0.2, electives: SCIENCE_ELECTIVES(0.2, 0.2, 0.2, 0.4) },
+      sectoral: 1,
+      minScore: 130
+    },
+    {
+      code: '053',
+      name: 'Психологія',
+      weights: { ukrainian: 0.35, math: 0.4, history: 0.25, electives: SCIENCE_ELECTIVES(0.2, 0.2, 0.4, 0.3) },
+      sectoral: 1,
+      minScore: 130
+    },
+    {
+      code: '035',
+      name: 'Філологія',
+      weights: { ukrainian: 0.4, math: 0.3, history: 0.3, electives: SCIENCE_ELECTIVES(0.2, 0.2, 0.2, 0.5) },
+      sectoral: 1,
+      minScore: 130
+    },
+    {
+      code: '032',
+      name: 'Історія та археологія',
+      weights: { ukrainian: 0.35, math: 0.3, history: 0.5, electives: SCIENCE_ELECTIVES(0.2, 0.2, 0.2, 0.3) },
+      sectoral: 1,
+      minScore: 130
+    }
+  ],
+  regions: [
+    { id: 'kyiv', name: 'Київ', coefficient: 1 },
+    { id: 'large-cities', name: 'Дніпро, Львів, Одеса, Харків', coefficient: 1.02 },
+    { id: 'other', name: 'Інші міста', coefficient: 1.04 }
+  ]
+};
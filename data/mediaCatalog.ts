@@ -0,0 +1,31 @@
+// Images for history visual recognition tasks ("3. ЗАВДАННЯ НА ВІЗУАЛЬНЕ
+// ВПІЗНАННЯ" in topics.ts) and historical maps. Files live in
+// public/media/history/ and are bundled with the app; the generator may only
+// reference ids listed here, and none while the list is empty.
+
+export type MediaKind = 'architecture' | 'sculpture' | 'portrait' | 'icon' | 'artwork' | 'map' | 'artifact';
+
+export interface MediaAsset {
+  id: string;
+  kind: MediaKind;
+  title: string; // What the image shows, i.e. the answer of a recognition task
+  alt: string; // Neutral description that does not name the object
+  topic: string; // TOPICS entry the image belongs to
+  credit: string; // Source and licence of the file
+  file: string; // Name inside public/media/history/
+}
+
+const MEDIA_BASE = '/media/history/';
+
+// Only assets whose file is committed. Images still to be sourced are listed
+// in public/media/history/README.md.
+export const MEDIA_CATALOG: MediaAsset[] = [];
+
+export const mediaSrc = (asset: MediaAsset): string => `${MEDIA_BASE}${asset.file}`;
+
+export const findMediaAsset = (id: string): MediaAsset | undefined =>
+  MEDIA_CATALOG.find(asset => asset.id === id);
+
+// Assets for one visual recognition topic, or the whole catalogue
+export const listMediaAssets = (topic?: string): MediaAsset[] =>
+  topic ? MEDIA_CATALOG.filter(asset => asset.topic === topic) : MEDIA_CATALOG;
@@ -0,0 +1,13 @@
+import { Subject } from '../types';
+import type { ExamFormat } from '../services/exam';
+
+// Exam day of NMT 2026, see services/exam.ts. Task counts and types of each
+// subject block come from the conversion tables (data/nmtScale2026.ts).
+export const NMT_EXAM_2026: ExamFormat = {
+  version: 'nmt-2026',
+  breakMinutes: 20,
+  sessions: [
+    { title: 'Перша сесія', subjects: [Subject.UKRAINIAN, Subject.MATH], minutes: 120 },
+    { title: 'Друга сесія', subjects: [Subject.HISTORY, 'elective'], minutes: 120 }
+  ]
+};
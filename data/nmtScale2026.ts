@@ -0,0 +1,109 @@
+import { Subject } from '../types';
+import type { NmtScale } from '../services/nmtScale';
+
+// NMT 2026 conversion of test scores to the 100–200 rating, see
+// services/nmtScale.ts. `ratings[0]` belongs to `passRawScore`, the last
+// entry to the maximum test score. Tables of another exam year go into a new
+// file with its own version instead of replacing these numbers.
+
+export const NMT_SCALE_2026: NmtScale = {
+  version: 'nmt-2026.2',
+  source: 'УЦОЯО, таблиці переведення тестових балів НМТ 2026',
+  subjects: [
+    {
+      subject: Subject.UKRAINIAN,
+      tasks: [
+        { kind: 'single', count: 25, points: 1 },
+        { kind: 'matching', count: 5, points: 4 }
+      ],
+      passRawScore: 7,
+      ratings: [
+        100, 105, 111, 116, 120, 124, 127, 130, 132, 134, 136, 138, 140, 142, 143, 144, 145, 146, 148, 149,
+        150, 152, 154, 155, 157, 159, 162, 163, 165, 167, 170, 172, 175, 177, 180, 184, 188, 194, 200
+      ]
+    },
+    {
+      subject: Subject.MATH,
+      tasks: [
+        { kind: 'single', count: 15, points: 1 },
+        { kind: 'matching', count: 3, points: 3 },
+        { kind: 'open', count: 4, points: 2 }
+      ],
+      passRawScore: 5,
+      ratings: [
+        100, 108, 115, 123, 131, 134, 137, 140, 143, 145, 147, 148, 149, 150, 151, 152, 155, 159, 163, 167,
+        170, 173, 176, 180, 184, 189, 194, 200
+      ]
+    },
+    {
+      subject: Subject.HISTORY,
+      tasks: [
+        { kind: 'single', count: 20, points: 1 },
+        { kind: 'matching', count: 4, points: 4 },
+        { kind: 'sequence', count: 3, points: 3 },
+        { kind: 'multiple', count: 3, points: 3 }
+      ],
+      passRawScore: 8,
+      ratings: [
+        100, 105, 111, 116, 120, 124, 127, 130, 132, 134, 136, 138, 140, 141, 142, 143, 144, 145, 146, 147,
+        148, 149, 150, 151, 152, 154, 155, 156, 157, 159, 160, 162, 163, 165, 166, 168, 169, 170, 172, 174,
+        176, 178, 181, 184, 188, 194, 200
+      ]
+    },
+    {
+      subject: Subject.ENGLISH,
+      tasks: [
+        { kind: 'single', count: 32, points: 1 }
+      ],
+      passRawScore: 5,
+      // Not the published table yet: the Ukrainian curve (the other
+      // text-based paper) stretched linearly over English's pass score and
+      // maximum. Replace with the official numbers and drop `provisional`.
+      provisional: true,
+      ratings: [
+        100, 107, 115, 121, 126, 130, 133, 136, 139, 141, 143, 144, 146, 148, 150, 152, 155, 157, 160, 163,
+        165, 169, 172, 176, 179, 185, 192, 200
+      ]
+    },
+    {
+      subject: Subject.PHYSICS,
+      tasks: [
+        { kind: 'single', count: 20, points: 1 },
+        { kind: 'matching', count: 4, points: 4 },
+        { kind: 'open', count: 6, points: 2 }
+      ],
+      passRawScore: 7,
+      ratings: [
+        100, 105, 110, 114, 118, 122, 125, 128, 131, 133, 136, 138, 140, 141, 143, 144, 145, 146, 148, 149,
+        150, 151, 152, 153, 154, 155, 156, 157, 159, 160, 162, 164, 167, 169, 172, 175, 178, 182, 186, 190,
+        195, 200
+      ]
+    },
+    {
+      subject: Subject.BIOLOGY,
+      tasks: [
+        { kind: 'single', count: 24, points: 1 },
+        { kind: 'matching', count: 4, points: 4 },
+        { kind: 'multiple', count: 3, points: 2 }
+      ],
+      passRawScore: 9,
+      ratings: [
+        100, 106, 111, 116, 120, 124, 127, 130, 133, 136, 138, 140, 142, 143, 145, 146, 147, 148, 149, 151,
+        152, 153, 154, 155, 157, 158, 160, 162, 164, 167, 170, 173, 176, 180, 184, 189, 194, 200
+      ]
+    },
+    {
+      subject: Subject.CHEMISTRY,
+      tasks: [
+        { kind: 'single', count: 24, points: 1 },
+        { kind: 'matching', count: 4, points: 4 },
+        { kind: 'open', count: 3, points: 2 }
+      ],
+      passRawScore: 8,
+      ratings: [
+        100, 106, 111, 115, 119, 123, 127, 130, 133, 135, 137, 139, 141, 143, 144, 146, 147, 148, 149, 150,
+        151, 152, 153, 154, 156, 157, 159, 161, 163, 165, 167, 170, 173, 177, 181, 185, 189, 194, 200
+      ]
+    }
+  ]
+};
@@ -0,0 +1,121 @@
+import { Subject } from '../types';
+import type { PromptTemplate } from '../services/promptRegistry';
+
+// Prompt texts sent to the model, see services/promptRegistry.ts.
+// Never edit a version that has been shipped: questions in the local bank
+// carry it and their answer accuracy is compared per version. Add a new
+// version below the old one instead (with `trafficShare` to test it on a
+// part of the requests first).
+
+const QUIZ_V1 = `Створи {{count}} тестових питань у форматі НМТ (Національний мультипредметний тест) для предмета: "{{subject}}".
+{{topicContext}}
+{{focusContext}}
+Питання мають бути актуальними для програми підготовки 2026 року.
+Рівень складності: {{difficulty}}.
+
+Вимоги:
+1. Питання мають бути українською мовою.
+2. Завдання типу "single": 4 варіанти відповіді (options) і тільки одна правильна (correctIndex).
+3. {{matchingRule}}
+4. {{explanationRule}}
+5. {{openAnswerRule}}
+5. {{sequenceRule}}
+5. {{passageRule}}
+5. {{mediaRule}}
+5. {{figureRule}}
+5. {{topicCodeRule}}
+5. У полі difficulty оціни складність кожного завдання: basic (базове), standard (типове для НМТ) або advanced (складніше за НМТ).
+6. {{narrowTopicRule}}
+7. {{mathMarkupRule}}
+
+{{avoidContext}}
+
+Поверни відповідь виключно у форматі JSON без зайвого тексту.`;
+
+const NOTES_FOOTER = `ВАЖЛИВО:
+- Обов'язково виділяй жирним шрифтом (**приклад**) ключові поняття.
+- {{mathMarkupRule}}
+- Роби відступи між блоками для кращої читабельності.
+
+Стиль викладу: чіткий, навчальний, без зайвої "води".
+Мова: українська.`;
+
+const NOTES_V1 = `Створи детальний та структурований конспект для підготовки до НМТ 2026 з предмету "{{subject}}" на тему: "{{topic}}".
+
+Вимоги до структури (використовуй Markdown):
+1. **Вступ**: короткий опис суті теми.
+2. **Ключові дати та події** (для історії) або **Правила** (для мови).
+3. **Персоналії** (для історії/літератури) або **Приклади** (для інших).
+4. **Основний виклад матеріалу**: тезисно, головні події, причини та наслідки.
+5. **Лайфхаки для НМТ**: на що звернути особливу увагу в тестах.
+
+${NOTES_FOOTER}`;
+
+const MATH_NOTES_V1 = `Створи детальний та структурований конспект для підготовки до НМТ 2026 з предмету "{{subject}}" на тему: "{{topic}}".
+
+Вимоги до структури (використовуй Markdown):
+1. **Вступ**: короткий опис, що це за тема і де вона застосовується.
+2. **Основні формули та визначення**: випиши головні формули, теореми чи аксіоми.
+3. **Алгоритми розв'язання**: покрокові інструкції для типових задач цієї теми.
+4. **Типові помилки**: що учні часто плутають.
+5. **Лайфхаки для НМТ**: як швидко розв'язувати такі завдання.
+{{figureRule}}
+
+${NOTES_FOOTER}`;
+
+const CHAT_V1 = `Ти — досвідчений репетитор і помічник для підготовки до НМТ (Національний мультипредметний тест) 2026 року.
+Твоя мета — допомагати учням розбиратися в складних темах, пояснювати незрозуміле та структурувати знання.
+
+Правила:
+1. Відповідай ВИКЛЮЧНО на питання, що стосуються шкільної програми та предметів НМТ (Математика, Українська мова та література, Історія України, Англійська мова, Біологія, Хімія, Фізика, Географія).
+2. Якщо користувач ставить питання, яке не стосується навчання або НМТ, ввічливо відмов.
+
+Вимоги до відповідей:
+- Відповідь має бути повною, розгорнутою та зрозумілою.
+- Для ІСТОРІЇ: вказуй дати, причини, перебіг подій та їх наслідки.
+- Для МАТЕМАТИКИ/ФІЗИКИ/ХІМІЇ: якщо питання про задачу, розпиши розв'язання покроково.
+- {{mathMarkupRule}}
+- Використовуй Markdown для форматування (жирний шрифт для важливого, списки для переліків).
+- Стиль спілкування: доброзичливий, підтримуючий.`;
+
+// Geometry notes cannot show drawings as text, so they embed figure specs
+export const GEOMETRY_NOTES_FIGURE_RULE = `До 1–2 ключових фігур додай рисунок окремим блоком \`\`\`figure з JSON-описом {"points": [...], "elements": [...]}:
+points — точки {id, x, y, z?} (y вгору, z лише для просторових фігур), elements — {kind: "segment", from, to}, {kind: "polygon", points}, {kind: "circle", center, radius, horizontal?}, {kind: "angle", vertex, from, to, right?}, {kind: "label", at, text}; dashed: true для невидимих ліній.`;
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    version: 'quiz@1',
+    task: 'quiz',
+    variables: [
+      'count', 'subject', 'topicContext', 'focusContext', 'difficulty', 'matchingRule', 'explanationRule',
+      'openAnswerRule', 'sequenceRule', 'passageRule', 'mediaRule', 'figureRule', 'topicCodeRule',
+      'narrowTopicRule', 'mathMarkupRule', 'avoidContext'
+    ],
+    text: QUIZ_V1
+  },
+  {
+    version: 'explanation@1',
+    task: 'explanation',
+    variables: [],
+    text: 'Надай пояснення до правильної відповіді.'
+  },
+  {
+    version: 'notes@1',
+    task: 'notes',
+    variables: ['subject', 'topic', 'mathMarkupRule'],
+    text: NOTES_V1
+  },
+  {
+    version: 'notes-math@1',
+    task: 'notes',
+    subject: Subject.MATH,
+    variables: ['subject', 'topic', 'figureRule', 'mathMarkupRule'],
+    text: MATH_NOTES_V1
+  },
+  {
+    version: 'chat@1',
+    task: 'chat',
+    variables: ['mathMarkupRule'],
+    text: CHAT_V1
+  }
+];
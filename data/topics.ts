@@ -1,87 +1,98 @@
 import { Subject } from '../types';
 
+// `code` identifies the topic in stored questions, exported packs and
+// attempt history, so it never changes once shipped: a new topic gets the
+// next free number, a removed one leaves its code unused.
+export interface TopicEntry {
+  code: string;
+  name: string;
+}
+
 export interface TopicGroup {
   category: string;
-  topics: string[];
+  topics: TopicEntry[];
 }
 
+// History category whose tasks are answered from an image (see mediaCatalog.ts)
+export const VISUAL_RECOGNITION_CATEGORY = "3. ЗАВДАННЯ НА ВІЗУАЛЬНЕ ВПІЗНАННЯ";
+
 export const TOPICS: Record<string, TopicGroup[]> = {
   [Subject.HISTORY]: [
     {
       category: "1.1. Найдавніші часи – перша половина ХVІ ст.",
       topics: [
-        "Вступ до історії України",
-        "Стародавня історія України",
-        "Виникнення Київської держави",
-        "Розквіт Київської держави",
-        "Королівство Руське. Монгольська навала",
-        "Руські князівства другої половини XIV – першої половини XVI ст. Кримське ханство",
-        "Українська культура IX – першої половини XVI ст."
+        { code: "HISTORY.1.1", name: "Вступ до історії України" },
+        { code: "HISTORY.1.2", name: "Стародавня історія України" },
+        { code: "HISTORY.1.3", name: "Виникнення Київської держави" },
+        { code: "HISTORY.1.4", name: "Розквіт Київської держави" },
+        { code: "HISTORY.1.5", name: "Королівство Руське. Монгольська навала" },
+        { code: "HISTORY.1.6", name: "Руські князівства другої половини XIV – першої половини XVI ст. Кримське ханство" },
+        { code: "HISTORY.1.7", name: "Українська культура IX – першої половини XVI ст." }
       ]
     },
     {
       category: "1.2. Друга половина ХVІ ст. – перша половина XVIII ст.",
       topics: [
-        "Українські землі в Речі Посполитій другої половини ХVІ ст.",
-        "Українські землі у складі Речі Посполитої в першій половині ХVІІ ст.",
-        "Національно-визвольна війна українського народу середини ХVІІ ст.",
-        "Козацька Україна кінця 50-х – 80-х рр. ХVІІ ст.",
-        "Українські землі кінця ХVІІ – першої половини ХVІІІ ст.",
-        "Українські землі другої половини ХVІІІ ст."
+        { code: "HISTORY.2.1", name: "Українські землі в Речі Посполитій другої половини ХVІ ст." },
+        { code: "HISTORY.2.2", name: "Українські землі у складі Речі Посполитої в першій половині ХVІІ ст." },
+        { code: "HISTORY.2.3", name: "Національно-визвольна війна українського народу середини ХVІІ ст." },
+        { code: "HISTORY.2.4", name: "Козацька Україна кінця 50-х – 80-х рр. ХVІІ ст." },
+        { code: "HISTORY.2.5", name: "Українські землі кінця ХVІІ – першої половини ХVІІІ ст." },
+        { code: "HISTORY.2.6", name: "Українські землі другої половини ХVІІІ ст." }
       ]
     },
     {
       category: "1.3. Кінець XVIIІ ст. – XIX ст.",
       topics: [
-        "Українські землі в Російській імперії кінця ХVІІІ – першої половини ХІХ ст.",
-        "Українські землі в Австрійській імперії кінця ХVІІІ – першої половини ХІХ ст.",
-        "Культура України кінця ХVІІІ – першої половини ХІХ ст.",
-        "Українські землі в Російській імперії другої половини ХІХ ст.",
-        "Українські землі в Австро-Угорщині другої половини ХІХ ст.",
-        "Культура України другої половини ХІХ – початку ХХ ст.",
-        "Українські землі в Російській імперії 1900–1914 рр.",
-        "Українські землі в Австро-Угорщині 1900–1914 рр."
+        { code: "HISTORY.3.1", name: "Українські землі в Російській імперії кінця ХVІІІ – першої половини ХІХ ст." },
+        { code: "HISTORY.3.2", name: "Українські землі в Австрійській імперії кінця ХVІІІ – першої половини ХІХ ст." },
+        { code: "HISTORY.3.3", name: "Культура України кінця ХVІІІ – першої половини ХІХ ст." },
+        { code: "HISTORY.3.4", name: "Українські землі в Російській імперії другої половини ХІХ ст." },
+        { code: "HISTORY.3.5", name: "Українські землі в Австро-Угорщині другої половини ХІХ ст." },
+        { code: "HISTORY.3.6", name: "Культура України другої половини ХІХ – початку ХХ ст." },
+        { code: "HISTORY.3.7", name: "Українські землі в Російській імперії 1900–1914 рр." },
+        { code: "HISTORY.3.8", name: "Українські землі в Австро-Угорщині 1900–1914 рр." }
       ]
     },
     {
       category: "2.1. 1914 – 1945 р.",
       topics: [
-        "Україна в роки Першої світової війни",
-        "Початок Української революції",
-        "Період Гетьманату",
-        "Українська революція. Директорія УНР",
-        "Встановлення комуністичного режиму в Україні",
-        "Утвердження більшовицького режиму в Україні",
-        "Західноукраїнські землі в міжвоєнний період",
-        "Початок Другої світової війни (1939–1941)",
-        "Друга світова війна: Рух Опору (1941–1943)",
-        "Друга світова війна: воєнні дії на теренах України (1943–1945)"
+        { code: "HISTORY.4.1", name: "Україна в роки Першої світової війни" },
+        { code: "HISTORY.4.2", name: "Початок Української революції" },
+        { code: "HISTORY.4.3", name: "Період Гетьманату" },
+        { code: "HISTORY.4.4", name: "Українська революція. Директорія УНР" },
+        { code: "HISTORY.4.5", name: "Встановлення комуністичного режиму в Україні" },
+        { code: "HISTORY.4.6", name: "Утвердження більшовицького режиму в Україні" },
+        { code: "HISTORY.4.7", name: "Західноукраїнські землі в міжвоєнний період" },
+        { code: "HISTORY.4.8", name: "Початок Другої світової війни (1939–1941)" },
+        { code: "HISTORY.4.9", name: "Друга світова війна: Рух Опору (1941–1943)" },
+        { code: "HISTORY.4.10", name: "Друга світова війна: воєнні дії на теренах України (1943–1945)" }
       ]
     },
     {
       category: "2.2. 1945 р. – початок ХХІ ст.",
       topics: [
-        "Україна в перші повоєнні роки",
-        "Україна в умовах десталінізації",
-        "Україна в період загострення кризи радянської системи",
-        "Відновлення незалежності України",
-        "Становлення України як незалежної держави",
-        "Творення нової України"
+        { code: "HISTORY.5.1", name: "Україна в перші повоєнні роки" },
+        { code: "HISTORY.5.2", name: "Україна в умовах десталінізації" },
+        { code: "HISTORY.5.3", name: "Україна в період загострення кризи радянської системи" },
+        { code: "HISTORY.5.4", name: "Відновлення незалежності України" },
+        { code: "HISTORY.5.5", name: "Становлення України як незалежної держави" },
+        { code: "HISTORY.5.6", name: "Творення нової України" }
       ]
     },
     {
-      category: "3. ЗАВДАННЯ НА ВІЗУАЛЬНЕ ВПІЗНАННЯ",
+      category: VISUAL_RECOGNITION_CATEGORY,
       topics: [
-        "Діячі культури освіти і науки (Персоналії)",
-        "Громадсько-політичні та військові діячі (Персоналії)",
-        "Архітектура культових споруд в Україні",
-        "Архітектура фортифікаційних споруд в Україні",
-        "Світська архітектура. Містобудування",
-        "Скульптура. Пам’ятники",
-        "Ікони (Образотворче мистецтво)",
-        "Мініатюри. Гравюри. Портрети",
-        "Художні роботи (образотворче мистецтво)",
-        "Пам’ятки стародавньої історії України"
+        { code: "HISTORY.6.1", name: "Діячі культури освіти і науки (Персоналії)" },
+        { code: "HISTORY.6.2", name: "Громадсько-політичні та військові діячі (Персоналії)" },
+        { code: "HISTORY.6.3", name: "Архітектура культових споруд в Україні" },
+        { code: "HISTORY.6.4", name: "Архітектура фортифікаційних споруд в Україні" },
+        { code: "HISTORY.6.5", name: "Світська архітектура. Містобудування" },
+        { code: "HISTORY.6.6", name: "Скульптура. Пам’ятники" },
+        { code: "HISTORY.6.7", name: "Ікони (Образотворче мистецтво)" },
+        { code: "HISTORY.6.8", name: "Мініатюри. Гравюри. Портрети" },
+        { code: "HISTORY.6.9", name: "Художні роботи (образотворче мистецтво)" },
+        { code: "HISTORY.6.10", name: "Пам’ятки стародавньої історії України" }
       ]
     }
   ],
@@ -89,60 +100,60 @@ export const TOPICS: Record<string, TopicGroup[]> = {
     {
       category: "Алгебра: 1.1. Числа і вирази",
       topics: [
-        "Дійсні числа",
-        "Відношення та пропорції. Відсотки. Текстові задачі",
-        "Показникові, логарифмічні, тригонометричні вирази та їхні перетворення",
-        "Раціональні, ірраціональні, степеневі вирази та їх перетворення"
+        { code: "MATH.1.1", name: "Дійсні числа" },
+        { code: "MATH.1.2", name: "Відношення та пропорції. Відсотки. Текстові задачі" },
+        { code: "MATH.1.3", name: "Показникові, логарифмічні, тригонометричні вирази та їхні перетворення" },
+        { code: "MATH.1.4", name: "Раціональні, ірраціональні, степеневі вирази та їх перетворення" }
       ]
     },
     {
       category: "Алгебра: 1.2. Рівняння, нерівності та їхні системи",
       topics: [
-        "Лінійні, квадратні, раціональні рівняння та системи рівнянь",
-        "Ірраціональні, тригонометричні рівняння та системи рівнянь",
-        "Показникові, логарифмічні рівняння та системи рівнянь",
-        "Нерівності та системи нерівностей",
-        "Розв’язування задач за допомогою рівнянь і систем рівнянь"
+        { code: "MATH.2.1", name: "Лінійні, квадратні, раціональні рівняння та системи рівнянь" },
+        { code: "MATH.2.2", name: "Ірраціональні, тригонометричні рівняння та системи рівнянь" },
+        { code: "MATH.2.3", name: "Показникові, логарифмічні рівняння та системи рівнянь" },
+        { code: "MATH.2.4", name: "Нерівності та системи нерівностей" },
+        { code: "MATH.2.5", name: "Розв’язування задач за допомогою рівнянь і систем рівнянь" }
       ]
     },
     {
       category: "Алгебра: 1.7. Функції",
       topics: [
-        "Числові послідовності",
-        "Функціональна залежність",
-        "Лінійні та квадратичні функції",
-        "Степеневі, показникові, логарифмічні та тригонометричні функції",
-        "Похідна функції",
-        "Первісна та визначений інтеграл"
+        { code: "MATH.3.1", name: "Числові послідовності" },
+        { code: "MATH.3.2", name: "Функціональна залежність" },
+        { code: "MATH.3.3", name: "Лінійні та квадратичні функції" },
+        { code: "MATH.3.4", name: "Степеневі, показникові, логарифмічні та тригонометричні функції" },
+        { code: "MATH.3.5", name: "Похідна функції" },
+        { code: "MATH.3.6", name: "Первісна та визначений інтеграл" }
       ]
     },
     {
       category: "Алгебра: 1.10. Комбінаторика, теорія ймовірностей, статистика",
       topics: [
-        "Перестановки, комбінації, розміщення. Комбінаторні правила суми та добутку",
-        "Ймовірність випадкової події. Вибіркові характеристики"
+        { code: "MATH.4.1", name: "Перестановки, комбінації, розміщення. Комбінаторні правила суми та добутку" },
+        { code: "MATH.4.2", name: "Ймовірність випадкової події. Вибіркові характеристики" }
       ]
     },
     {
       category: "Геометрія: 2.1. Планіметрія",
       topics: [
-        "Елементарні геометричні фігури на площині. Геометричні величини",
-        "Трикутники",
-        "Прямокутні трикутники",
-        "Паралелограм. Ромб. Трапеція",
-        "Прямокутник. Квадрат",
-        "Коло та круг. Многокутники",
-        "Координати та вектори на площині. Геометричні переміщення"
+        { code: "MATH.5.1", name: "Елементарні геометричні фігури на площині. Геометричні величини" },
+        { code: "MATH.5.2", name: "Трикутники" },
+        { code: "MATH.5.3", name: "Прямокутні трикутники" },
+        { code: "MATH.5.4", name: "Паралелограм. Ромб. Трапеція" },
+        { code: "MATH.5.5", name: "Прямокутник. Квадрат" },
+        { code: "MATH.5.6", name: "Коло та круг. Многокутники" },
+        { code: "MATH.5.7", name: "Координати та вектори на площині. Геометричні переміщення" }
       ]
     },
     {
       category: "Геометрія: 2.2. Стереометрія",
       topics: [
-        "Прямі та площини у просторі",
-        "Призма",
-        "Піраміда",
-        "Тіла обертання",
-        "Координати та вектори у просторі"
+        { code: "MATH.6.1", name: "Прямі та площини у просторі" },
+        { code: "MATH.6.2", name: "Призма" },
+        { code: "MATH.6.3", name: "Піраміда" },
+        { code: "MATH.6.4", name: "Тіла обертання" },
+        { code: "MATH.6.5", name: "Координати та вектори у просторі" }
       ]
     }
   ],
@@ -150,24 +161,24 @@ export const TOPICS: Record<string, TopicGroup[]> = {
     {
       category: "Мовні розділи",
       topics: [
-        "Фонетика. Графіка. Орфоепія",
-        "Лексикологія. Фразеологія",
-        "Будова слова. Словотвір",
-        "Морфологія: Іменні частини мови",
-        "Морфологія: Дієслово та службові частини мови",
-        "Синтаксис: Словосполучення і просте речення",
-        "Синтаксис: Складне речення",
-        "Стилістика та розвиток мовлення"
+        { code: "UKRAINIAN.1.1", name: "Фонетика. Графіка. Орфоепія" },
+        { code: "UKRAINIAN.1.2", name: "Лексикологія. Фразеологія" },
+        { code: "UKRAINIAN.1.3", name: "Будова слова. Словотвір" },
+        { code: "UKRAINIAN.1.4", name: "Морфологія: Іменні частини мови" },
+        { code: "UKRAINIAN.1.5", name: "Морфологія: Дієслово та службові частини мови" },
+        { code: "UKRAINIAN.1.6", name: "Синтаксис: Словосполучення і просте речення" },
+        { code: "UKRAINIAN.1.7", name: "Синтаксис: Складне речення" },
+        { code: "UKRAINIAN.1.8", name: "Стилістика та розвиток мовлення" }
       ]
     },
     {
       category: "Література",
       topics: [
-        "Усна народна творчість",
-        "Давня література",
-        "Література кінця XVIII – початку XX ст.",
-        "Література XX ст.",
-        "Сучасний літературний процес"
+        { code: "UKRAINIAN.2.1", name: "Усна народна творчість" },
+        { code: "UKRAINIAN.2.2", name: "Давня література" },
+        { code: "UKRAINIAN.2.3", name: "Література кінця XVIII – початку XX ст." },
+        { code: "UKRAINIAN.2.4", name: "Література XX ст." },
+        { code: "UKRAINIAN.2.5", name: "Сучасний літературний процес" }
       ]
     }
   ],
@@ -175,18 +186,46 @@ export const TOPICS: Record<string, TopicGroup[]> = {
     {
       category: "Reading",
       topics: [
-        "Matching (headings/questions to paragraphs)",
-        "Multiple Choice (Reading Comprehension)",
-        "Fill in the gaps (Lexical)"
+        { code: "ENGLISH.1.1", name: "Matching (headings/questions to paragraphs)" },
+        { code: "ENGLISH.1.2", name: "Multiple Choice (Reading Comprehension)" },
+        { code: "ENGLISH.1.3", name: "Fill in the gaps (Lexical)" }
       ]
     },
     {
       category: "Use of English",
       topics: [
-        "Grammar: Tenses & Voice",
-        "Grammar: Verb patterns & Modals",
-        "Vocabulary: Synonyms & Collocations"
+        { code: "ENGLISH.2.1", name: "Grammar: Tenses & Voice" },
+        { code: "ENGLISH.2.2", name: "Grammar: Verb patterns & Modals" },
+        { code: "ENGLISH.2.3", name: "Vocabulary: Synonyms & Collocations" }
       ]
     }
   ]
-};
\ No newline at end of file
+};
+
+export interface TopicRef {
+  code: string;
+  subject: Subject;
+  category: string;
+  topic: string;
+}
+
+// Topic codes such as "HISTORY.2.3" are written out in TOPICS; they started
+// as the Subject enum key and the positions of the category and topic, but
+// do not follow the order of the lists any more once topics are added.
+export const listTopicRefs = (subject?: Subject): TopicRef[] =>
+  Object.values(Subject)
+    .filter(s => !subject || s === subject)
+    .flatMap(s => (TOPICS[s] || []).flatMap(group =>
+      group.topics.map(topic => ({
+        code: topic.code,
+        subject: s,
+        category: group.category,
+        topic: topic.name
+      }))
+    ));
+
+export const findTopicByCode = (code: string): TopicRef | undefined =>
+  listTopicRefs().find(ref => ref.code === code);
+
+export const findTopicRef = (subject: string, topic: string): TopicRef | undefined =>
+  listTopicRefs().find(ref => ref.subject === subject && ref.topic === topic);
@@ -0,0 +1,47 @@
+// Settings of the API server, read once at start-up from the environment
+// (and from .env.local, the same file Vite reads).
+
+export type ServerModelKind = 'gemini' | 'stub';
+
+export interface ServerConfig {
+  port: number;
+  model: ServerModelKind;
+  apiKey?: string;
+  textModel?: string; // Provider default if empty
+  ttsModel?: string; // Provider default if empty
+  requestsPerMinute: number; // Per client, across all endpoints
+  trustProxy: boolean; // Take the client address from X-Forwarded-For
+}
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_REQUESTS_PER_MINUTE = 30;
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const loadServerConfig = (): ServerConfig => {
+  try {
+    process.loadEnvFile('.env.local');
+  } catch {
+    // No file: everything comes from the real environment
+  }
+
+  const env = process.env;
+  const model: ServerModelKind = env.MODEL_PROVIDER === 'stub' ? 'stub' : 'gemini';
+  const apiKey = env.GEMINI_API_KEY || env.API_KEY;
+  if (model === 'gemini' && !apiKey) {
+    throw new Error("GEMINI_API_KEY is not set. Put it into .env.local or run with MODEL_PROVIDER=stub.");
+  }
+
+  return {
+    port: readNumber(env.PORT, DEFAULT_PORT),
+    model,
+    apiKey,
+    textModel: env.GEMINI_MODEL,
+    ttsModel: env.GEMINI_TTS_MODEL,
+    requestsPerMinute: readNumber(env.RATE_LIMIT_PER_MINUTE, DEFAULT_REQUESTS_PER_MINUTE),
+    trustProxy: env.TRUST_PROXY === '1'
+  };
+};
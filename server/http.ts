@@ -0,0 +1,68 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+
+// Error with the HTTP status to answer with; anything else becomes a 500
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// Reads a JSON body, refusing it as soon as it grows past `maxBytes`
+export const readJson = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const declared = Number(req.headers['content-length']);
+  if (declared > maxBytes) {
+    throw new HttpError(413, `Request body is larger than ${maxBytes} bytes`);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      throw new HttpError(413, `Request body is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+// Only the message (and for model errors their kind) goes to the client;
+// details stay in the server log
+export const sendError = (res: ServerResponse, status: number, message: string, kind?: string): void => {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  sendJson(res, status, kind ? { error: message, kind } : { error: message });
+};
+
+export const clientId = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// Aborts the model call when the browser goes away before the answer is sent
+export const abortOnDisconnect = (res: ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
@@ -0,0 +1,191 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { ChatBody, MAX_CHAT_TURNS, NotesBody, QuestionsBody, SpeechBody } from "../services/llm/types";
+import { classifyError } from "../services/generationErrors";
+import { PromptTask, PromptTemplate, listTemplateVersions } from "../services/promptRegistry";
+import { chatPrompt, notesPrompt } from "../services/geminiService";
+import { findTopicRef } from "../data/topics";
+import { Subject } from "../types";
+import { loadServerConfig } from "./config";
+import { createServerModel } from "./models";
+import { createRateLimiter } from "./rateLimiter";
+import { HttpError, abortOnDisconnect, clientId, readJson, sendError, sendJson } from "./http";
+
+// API server for the browser app: keeps the Gemini key out of the bundle.
+// Run with `npm run server` (MODEL_PROVIDER=stub for fixture answers).
+
+const config = loadServerConfig();
+const model = createServerModel(config);
+const rateLimit = createRateLimiter(config.requestsPerMinute, 60 * 1000);
+
+// Upper bounds for request fields; the app stays well below them
+const MAX_PROMPT_CHARS = 40000;
+const MAX_CHAT_MESSAGE_CHARS = 4000;
+const MAX_SPEECH_CHARS = 4000;
+const MAX_QUESTION_COUNT = 40;
+
+const requireString = (value: unknown, field: string, maxChars: number): string => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new HttpError(400, `"${field}" must be a non-empty string`);
+  }
+  if (value.length > maxChars) {
+    throw new HttpError(413, `"${field}" is longer than ${maxChars} characters`);
+  }
+  return value;
+};
+
+// Notes and chat prompts are rendered here from the template version the
+// browser picked, so the endpoints cannot be used to send the model anything else
+const requireTemplate = (value: unknown, task: PromptTask, subject?: string): PromptTemplate => {
+  const template = listTemplateVersions(task, subject).find(t => t.version === value);
+  if (!template) {
+    throw new HttpError(400, `"promptVersion" must be a ${task} template${subject ? ` for ${subject}` : ''}`);
+  }
+  return template;
+};
+
+const requireSubject = (value: unknown): Subject => {
+  if (!Object.values(Subject).includes(value as Subject)) {
+    throw new HttpError(400, `"subject" must be one of the app's subjects`);
+  }
+  return value as Subject;
+};
+
+const asObject = (body: unknown): Record<string, unknown> => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+};
+
+interface Route {
+  maxBytes: number;
+  handle: (body: Record<string, unknown>, res: ServerResponse, signal: AbortSignal) => Promise<void>;
+}
+
+const ROUTES: Record<string, Route> = {
+  '/api/questions': {
+    maxBytes: 256 * 1024, // The prompt lists topic codes and questions to avoid; the schema rides along
+    handle: async (body, res, signal) => {
+      const count = body.count;
+      if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_QUESTION_COUNT) {
+        throw new HttpError(400, `"count" must be an integer from 1 to ${MAX_QUESTION_COUNT}`);
+      }
+      if (!body.schema || typeof body.schema !== 'object') {
+        throw new HttpError(400, `"schema" must be an object`);
+      }
+      const request: QuestionsBody = {
+        prompt: requireString(body.prompt, 'prompt', MAX_PROMPT_CHARS),
+        schema: body.schema as QuestionsBody['schema'],
+        subject: requireString(body.subject, 'subject', 200),
+        count,
+        topic: typeof body.topic === 'string' ? body.topic : undefined
+      };
+      sendJson(res, 200, { text: await model.generateQuestions({ ...request, signal }) });
+    }
+  },
+
+  '/api/notes': {
+    maxBytes: 64 * 1024,
+    handle: async (body, res, signal) => {
+      const subject = requireSubject(body.subject);
+      const request: NotesBody = {
+        subject,
+        topic: requireString(body.topic, 'topic', 200),
+        promptVersion: requireString(body.promptVersion, 'promptVersion', 100)
+      };
+      if (!findTopicRef(subject, request.topic)) {
+        throw new HttpError(400, `"topic" must be a topic of ${subject}`);
+      }
+      const prompt = notesPrompt(subject, request.topic, requireTemplate(request.promptVersion, 'notes', subject));
+      sendJson(res, 200, { text: await model.generateNotes({ prompt, subject, topic: request.topic, signal }) });
+    }
+  },
+
+  '/api/chat': {
+    maxBytes: 512 * 1024,
+    handle: async (body, res, signal) => {
+      // Older clients send the whole conversation; only the latest turns are kept
+      const history = (Array.isArray(body.history) ? body.history : []).slice(-MAX_CHAT_TURNS * 2);
+      const request: ChatBody = {
+        promptVersion: requireString(body.promptVersion, 'promptVersion', 100),
+        history: history.map((turn, i) => {
+          const { role, text } = asObject(turn);
+          if (role !== 'user' && role !== 'model') {
+            throw new HttpError(400, `"history[${i}].role" must be "user" or "model"`);
+          }
+          return { role, text: typeof text === 'string' ? text : '' };
+        }),
+        message: requireString(body.message, 'message', MAX_CHAT_MESSAGE_CHARS)
+      };
+
+      // Errors before the first chunk still get a proper status; later ones cut the stream
+      const systemInstruction = chatPrompt(requireTemplate(request.promptVersion, 'chat'));
+      const chunks = model.streamChat({ systemInstruction, history: request.history, message: request.message }, signal)[Symbol.asyncIterator]();
+      let next = await chunks.next();
+      res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache' });
+      while (!next.done) {
+        res.write(next.value);
+        next = await chunks.next();
+      }
+      res.end();
+    }
+  },
+
+  '/api/speech': {
+    maxBytes: 32 * 1024,
+    handle: async (body, res, signal) => {
+      const request: SpeechBody = {
+        text: requireString(body.text, 'text', MAX_SPEECH_CHARS),
+        voiceName: requireString(body.voiceName, 'voiceName', 100)
+      };
+      sendJson(res, 200, { audio: await model.generateSpeech(request.text, request.voiceName, signal) });
+    }
+  }
+};
+
+// Model errors keep their meaning for the client's retry policy
+const STATUS_BY_KIND: Record<string, number> = {
+  'rate-limit': 429,
+  'auth': 502, // Our key is the problem, not the client's request
+  'network': 502,
+  'aborted': 499
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  const path = (req.url || '').split('?')[0];
+  const route = ROUTES[path];
+  if (!route) {
+    throw new HttpError(404, "Not found");
+  }
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    throw new HttpError(405, "Only POST is supported");
+  }
+
+  const limit = rateLimit(clientId(req, config.trustProxy));
+  if (!limit.allowed) {
+    res.setHeader('Retry-After', String(limit.retryAfterSeconds));
+    throw new HttpError(429, "Too many requests, try again later");
+  }
+
+  const body = asObject(await readJson(req, route.maxBytes));
+  await route.handle(body, res, abortOnDisconnect(res));
+};
+
+const server = createServer((req, res) => {
+  handleRequest(req, res).catch(error => {
+    if (error instanceof HttpError) {
+      sendError(res, error.status, error.message);
+      return;
+    }
+    const classified = classifyError(error);
+    if (classified.kind !== 'aborted') {
+      console.error(`${req.method} ${req.url} failed:`, error);
+    }
+    sendError(res, STATUS_BY_KIND[classified.kind] ?? 500, "Model request failed", classified.kind);
+  });
+});
+
+server.listen(config.port, () => {
+  console.log(`API server listening on http://localhost:${config.port} (model: ${config.model})`);
+});
@@ -0,0 +1,68 @@
+import { GoogleGenAI } from "@google/genai";
+import { ChatTurn, NotesRequest, QuestionRequest } from "../services/llm/types";
+import { RenderedPrompt } from "../services/promptRegistry";
+import { createGeminiProvider, DEFAULT_MODEL } from "../services/llm/geminiProvider";
+import { createFixtureProvider } from "../services/llm/fixtureProvider";
+import { ServerConfig } from "./config";
+
+export interface ChatRequest {
+  systemInstruction: RenderedPrompt;
+  history: ChatTurn[];
+  message: string;
+}
+
+// What the endpoints need from a model. Questions, notes and speech reuse
+// the browser providers; only chat streams, which they do not.
+export interface ServerModel {
+  generateQuestions(request: QuestionRequest): Promise<string>;
+  generateNotes(request: NotesRequest): Promise<string>;
+  streamChat(request: ChatRequest, signal?: AbortSignal): AsyncIterable<string>;
+  generateSpeech(text: string, voiceName: string, signal?: AbortSignal): Promise<string>;
+}
+
+const createGeminiModel = (config: ServerConfig): ServerModel => {
+  const provider = createGeminiProvider({ kind: 'gemini', apiKey: config.apiKey, model: config.textModel, ttsModel: config.ttsModel });
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+  return {
+    generateQuestions: provider.generateQuestions,
+    generateNotes: provider.generateNotes,
+    generateSpeech: provider.generateSpeech,
+
+    streamChat: async function* ({ systemInstruction, history, message }, signal) {
+      const chat = ai.chats.create({
+        model: config.textModel || DEFAULT_MODEL,
+        config: { systemInstruction: systemInstruction.text },
+        history: history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }))
+      });
+      const stream = await chat.sendMessageStream({ message, config: { abortSignal: signal } });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    }
+  };
+};
+
+// Fixture answers for development without a key; chat replies arrive word
+// by word so the streaming path gets exercised too
+const createStubModel = (): ServerModel => {
+  const provider = createFixtureProvider();
+
+  return {
+    generateQuestions: provider.generateQuestions,
+    generateNotes: provider.generateNotes,
+    generateSpeech: provider.generateSpeech,
+
+    streamChat: async function* ({ systemInstruction, message }, signal) {
+      const { text } = await provider.createChat(systemInstruction).sendMessage({ message });
+      for (const word of text.split(/(?<= )/)) {
+        if (signal?.aborted) return;
+        await new Promise(resolve => setTimeout(resolve, 20));
+        yield word;
+      }
+    }
+  };
+};
+
+export const createServerModel = (config: ServerConfig): ServerModel =>
+  config.model === 'stub' ? createStubModel() : createGeminiModel(config);
@@ -0,0 +1,36 @@
+// Fixed-window request counter per client. Model calls are slow and paid
+// for, so a simple window is enough to stop one client using up the quota.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+export type RateLimiter = (clientId: string) => RateLimitResult;
+
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return (clientId) => {
+    const now = Date.now();
+
+    // Forget clients whose window has passed so the map does not grow forever
+    if (windows.size > 1000) {
+      for (const [id, window] of windows) {
+        if (now - window.start >= windowMs) windows.delete(id);
+      }
+    }
+
+    let window = windows.get(clientId);
+    if (!window || now - window.start >= windowMs) {
+      window = { start: now, count: 0 };
+      windows.set(clientId, window);
+    }
+
+    if (window.count >= limit) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((window.start + windowMs - now) / 1000) };
+    }
+    window.count++;
+    return { allowed: true, retryAfterSeconds: 0 };
+  };
+};
@@ -0,0 +1,91 @@
+import { Subject } from "../types";
+import { ADMISSION_2026 } from "../data/admission2026";
+
+// Coefficients of the three base subjects and of every subject the
+// specialty accepts as the fourth one
+export interface SubjectWeights {
+  ukrainian: number;
+  math: number;
+  history: number;
+  electives: Partial<Record<Subject, number>>;
+}
+
+export interface Specialty {
+  code: string;
+  name: string;
+  weights: SubjectWeights;
+  sectoral: number; // Галузевий коефіцієнт, 1 for specialties without one
+  minScore: number; // Lowest competitive score accepted for admission
+}
+
+export interface Region {
+  id: string;
+  name: string;
+  coefficient: number; // Регіональний коефіцієнт of universities there
+}
+
+// Admission rules of one campaign, see data/admission<year>.ts
+export interface AdmissionRules {
+  version: string;
+  source: string;
+  specialties: Specialty[];
+  regions: Region[];
+}
+
+// Rating per subject; null when the passing score was not reached
+export type SubjectRatings = Partial<Record<string, number | null>>;
+
+export interface AdmissionResult {
+  score: number | null; // Null when a required subject is missing or failed
+  elective?: string; // Fourth subject that gave the highest score
+  missing: string[]; // Subjects (or "any elective") without a rating yet
+  failed: string[]; // Subjects below the passing score
+  qualifies: boolean;
+}
+
+export const CURRENT_ADMISSION_RULES: AdmissionRules = ADMISSION_2026;
+
+// Placeholder in `missing` when no accepted fourth subject has a rating
+export const ANY_ELECTIVE = 'Предмет на вибір';
+
+const MAX_SCORE = 200;
+
+// КБ = (К1·П1 + К2·П2 + К3·П3 + К4·П4) / (К1 + К2 + К3 + (К4max + К4) / 2) × РК × ГК,
+// capped at 200. The fourth subject is whichever accepted one scores best;
+// (К4max + К4) / 2 keeps low-weight electives from inflating the result.
+export const competitiveScore = (specialty: Specialty, ratings: SubjectRatings, region: Region): AdmissionResult => {
+  const { weights } = specialty;
+  const base: [string, number][] = [
+    [Subject.UKRAINIAN, weights.ukrainian],
+    [Subject.MATH, weights.math],
+    [Subject.HISTORY, weights.history]
+  ];
+  const missing = base.filter(([subject]) => ratings[subject] === undefined).map(([subject]) => subject);
+  const failed = base.filter(([subject]) => ratings[subject] === null).map(([subject]) => subject);
+
+  const electives = Object.entries(weights.electives) as [string, number][];
+  const passedElectives = electives.filter(([subject]) => typeof ratings[subject] === 'number');
+  if (passedElectives.length === 0) {
+    const failedElectives = electives.filter(([subject]) => ratings[subject] === null).map(([subject]) => subject);
+    if (failedElectives.length > 0) failed.push(...failedElectives);
+    else missing.push(ANY_ELECTIVE);
+  }
+
+  if (missing.length > 0 || failed.length > 0) {
+    return { score: null, missing, failed, qualifies: false };
+  }
+
+  const maxElectiveWeight = Math.max(...electives.map(([, weight]) => weight));
+  const baseSum = base.reduce((sum, [subject, weight]) => sum + weight * (ratings[subject] as number), 0);
+  const baseWeight = base.reduce((sum, [, weight]) => sum + weight, 0);
+
+  let best: { score: number; elective: string } | undefined;
+  for (const [subject, weight] of passedElectives) {
+    const score = (baseSum + weight * (ratings[subject] as number)) / (baseWeight + (maxElectiveWeight + weight) / 2);
+    if (!best || score > best.score) best = { score, elective: subject };
+  }
+
+  const score = Math.min(MAX_SCORE, best!.score * region.coefficient * specialty.sectoral);
+  const rounded = Math.round(score * 1000) / 1000; // Published with three decimals
+  return { score: rounded, elective: best!.elective, missing, failed, qualifies: rounded >= specialty.minScore };
+};
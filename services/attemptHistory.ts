@@ -0,0 +1,104 @@
+import { QuizSession } from "../types";
+import { TopicRef, findTopicByCode } from "../data/topics";
+import { openDatabase, requestToPromise, transactionDone, ATTEMPTS_STORE } from "./db";
+import { scaleSessionScores } from "./nmtScale";
+import { scoreQuestion } from "./scoring";
+
+// A finished test exactly as the results screen showed it, so it can be
+// opened again later
+export interface AttemptRecord {
+  id?: number;
+  finishedAt: number;
+  session: QuizSession;
+}
+
+export const recordAttempt = async (session: QuizSession): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ATTEMPTS_STORE, 'readwrite');
+  tx.objectStore(ATTEMPTS_STORE).add({ finishedAt: session.endTime ?? Date.now(), session });
+  await transactionDone(tx);
+};
+
+// Oldest first
+export const loadAttempts = async (): Promise<AttemptRecord[]> => {
+  const db = await openDatabase();
+  return requestToPromise<AttemptRecord[]>(
+    db.transaction(ATTEMPTS_STORE).objectStore(ATTEMPTS_STORE).index('finishedAt').getAll()
+  );
+};
+
+// One chart row per attempt with the rating of every subject it had.
+// Subjects below the threshold have no rating and are left out of the row.
+export interface RatingRow {
+  finishedAt: number;
+  ratings: Record<string, number>;
+  // Subjects whose test was shorter or longer than the real paper, so their
+  // rating was scaled from the points earned (see ScaledScore.estimated)
+  estimated: string[];
+}
+
+export const ratingTimeline = (attempts: AttemptRecord[]): RatingRow[] =>
+  attempts
+    .map(attempt => {
+      const scores = scaleSessionScores(attempt.session.questions, attempt.session.userAnswers)
+        .filter(score => score.rating !== null);
+      return {
+        finishedAt: attempt.finishedAt,
+        ratings: Object.fromEntries(scores.map(score => [score.subject, score.rating as number])),
+        estimated: scores.filter(score => score.estimated).map(score => score.subject)
+      };
+    })
+    .filter(row => Object.keys(row.ratings).length > 0);
+
+export interface TopicAccuracy {
+  ref: TopicRef;
+  points: number;
+  maxPoints: number;
+}
+
+// Points per topic over all attempts, weakest first
+export const topicAccuracy = (attempts: AttemptRecord[]): TopicAccuracy[] => {
+  const byTopic: Record<string, TopicAccuracy> = {};
+  attempts.forEach(({ session }) => {
+    session.questions.forEach((q, idx) => {
+      const ref = q.topicCode ? findTopicByCode(q.topicCode) : undefined;
+      if (!ref) return;
+      const result = scoreQuestion(q, session.userAnswers[idx]);
+      if (!byTopic[ref.code]) byTopic[ref.code] = { ref, points: 0, maxPoints: 0 };
+      byTopic[ref.code].points += result.points;
+      byTopic[ref.code].maxPoints += result.maxPoints;
+    });
+  });
+  return Object.values(byTopic)
+    .filter(topic => topic.maxPoints > 0)
+    .sort((a, b) => a.points / a.maxPoints - b.points / b.maxPoints);
+};
+
+export interface DayActivity {
+  day: number; // Local midnight
+  minutes: number;
+}
+
+const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Minutes from start to finish of the tests of each of the last `days`
+// days, oldest first, days without tests included. An exam counts its breaks.
+export const timePerDay = (attempts: AttemptRecord[], days: number, now = Date.now()): DayActivity[] => {
+  const today = startOfDay(now);
+  const result: DayActivity[] = Array.from({ length: days }, (_, i) => {
+    const date = new Date(today);
+    date.setDate(date.getDate() - (days - 1 - i));
+    return { day: date.getTime(), minutes: 0 };
+  });
+
+  attempts.forEach(({ session, finishedAt }) => {
+    const entry = result.find(d => d.day === startOfDay(finishedAt));
+    if (!entry) return;
+    entry.minutes += Math.max(0, (session.endTime ?? finishedAt) - session.startTime) / 60000;
+  });
+  return result.map(d => ({ ...d, minutes: Math.round(d.minutes) }));
+};
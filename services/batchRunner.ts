@@ -0,0 +1,189 @@
+import { Question } from "../types";
+import { GenerationError, throwIfAborted } from "./generationErrors";
+import { withRetry } from "./retry";
+
+export interface BatchSpec {
+  id: string;
+  label: string; // Shown on the loading screen, e.g. the subject name
+  run: (signal?: AbortSignal) => Promise<Question[]>;
+}
+
+export type BatchStatus = 'pending' | 'loading' | 'retrying' | 'done' | 'failed';
+
+export interface BatchProgress {
+  id: string;
+  label: string;
+  status: BatchStatus;
+  attempt: number; // 0 for the first try
+  error?: GenerationError;
+}
+
+export type ProgressListener = (progress: BatchProgress[]) => void;
+
+export type QuestionsListener = (questions: Question[]) => void;
+
+// A multi-batch generation job. `finalize` turns the per-batch results
+// (in batch order) into the final test: re-indexing, deduplication, etc.
+export interface GenerationPlan {
+  batches: BatchSpec[];
+  finalize: (batchResults: Question[][], signal?: AbortSignal) => Promise<Question[]>;
+  // Streaming only (see streamPlan): turns a finished batch into questions to
+  // append after the ones the student already has
+  appendBatch?: (existing: Question[], batch: Question[]) => Question[];
+  // Streaming only: runs once every batch has settled and returns extra
+  // questions to append, e.g. replacements for duplicates
+  complete?: (existing: Question[], signal?: AbortSignal) => Promise<Question[]>;
+}
+
+// Thrown when some batches failed after all retries. Carries what did
+// succeed so the UI can either start with it or retry only the failures.
+export class PartialGenerationError extends Error {
+  readonly plan: GenerationPlan;
+  readonly completed: Record<string, Question[]>;
+  readonly failed: BatchProgress[];
+
+  constructor(plan: GenerationPlan, completed: Record<string, Question[]>, failed: BatchProgress[]) {
+    super(`${failed.length} of ${plan.batches.length} batches failed`);
+    this.name = 'PartialGenerationError';
+    this.plan = plan;
+    this.completed = completed;
+    this.failed = failed;
+  }
+
+  get completedCount(): number {
+    return Object.values(this.completed).reduce((sum, questions) => sum + questions.length, 0);
+  }
+}
+
+// Runs every batch that is not already in `completed`, each with its own retries.
+export const runPlan = async (
+  plan: GenerationPlan,
+  onProgress?: ProgressListener,
+  completed: Record<string, Question[]> = {},
+  signal?: AbortSignal
+): Promise<Question[]> => {
+  const progress: BatchProgress[] = plan.batches.map(batch => ({
+    id: batch.id,
+    label: batch.label,
+    status: completed[batch.id] ? 'done' : 'pending',
+    attempt: 0
+  }));
+  const update = (id: string, patch: Partial<BatchProgress>) => {
+    const index = progress.findIndex(p => p.id === id);
+    progress[index] = { ...progress[index], ...patch };
+    onProgress?.([...progress]);
+  };
+  onProgress?.([...progress]);
+
+  const results = { ...completed };
+  await Promise.all(plan.batches.filter(batch => !completed[batch.id]).map(async batch => {
+    update(batch.id, { status: 'loading' });
+    try {
+      results[batch.id] = await withRetry(
+        () => batch.run(signal),
+        (attempt, error) => update(batch.id, { status: 'retrying', attempt, error }),
+        signal
+      );
+      update(batch.id, { status: 'done', error: undefined });
+    } catch (error) {
+      update(batch.id, { status: 'failed', error: error as GenerationError });
+    }
+  }));
+
+  // Cancelled batches are not failures worth retrying
+  throwIfAborted(signal);
+  const failed = progress.filter(p => p.status === 'failed');
+  if (failed.length > 0) {
+    throw new PartialGenerationError(plan, results, failed);
+  }
+  return plan.finalize(plan.batches.map(batch => results[batch.id]), signal);
+};
+
+export const retryFailedBatches = (partial: PartialGenerationError, onProgress?: ProgressListener, signal?: AbortSignal): Promise<Question[]> =>
+  runPlan(partial.plan, onProgress, partial.completed, signal);
+
+// Builds the test from the batches that succeeded, skipping the failed ones
+export const acceptPartialResult = (partial: PartialGenerationError, signal?: AbortSignal): Promise<Question[]> =>
+  partial.plan.finalize(
+    partial.plan.batches.filter(batch => partial.completed[batch.id]).map(batch => partial.completed[batch.id]),
+    signal
+  );
+
+export interface QuestionStream {
+  first: Promise<Question[]>; // The first batch that produced questions
+  done: Promise<Question[]>; // Everything, once all batches have settled
+}
+
+// Like runPlan, but hands out questions as batches finish so the quiz can
+// start with the first one. Questions are only ever appended, in the order
+// batches finish, because the student may already be answering the earlier
+// ones. Batches that fail after their retries leave the test shorter; only
+// when every batch fails does `first` reject with a PartialGenerationError.
+// After a cancel nothing more is appended and both promises reject.
+export const streamPlan = (
+  plan: GenerationPlan,
+  onQuestions: QuestionsListener,
+  onProgress?: ProgressListener,
+  signal?: AbortSignal
+): QuestionStream => {
+  let questions: Question[] = [];
+  let resolveFirst: (questions: Question[]) => void = () => {};
+  let rejectFirst: (error: unknown) => void = () => {};
+  const first = new Promise<Question[]>((resolve, reject) => {
+    resolveFirst = resolve;
+    rejectFirst = reject;
+  });
+
+  const append = (batch: Question[]) => {
+    if (batch.length === 0 || signal?.aborted) return;
+    const added = plan.appendBatch ? plan.appendBatch(questions, batch) : batch;
+    if (added.length === 0) return;
+    questions = [...questions, ...added].map((q, index) => ({ ...q, id: index + 1 }));
+    onQuestions(questions);
+    resolveFirst(questions);
+  };
+
+  const progress: BatchProgress[] = plan.batches.map(batch => ({ id: batch.id, label: batch.label, status: 'pending', attempt: 0 }));
+  const update = (id: string, patch: Partial<BatchProgress>) => {
+    const index = progress.findIndex(p => p.id === id);
+    progress[index] = { ...progress[index], ...patch };
+    onProgress?.([...progress]);
+  };
+  onProgress?.([...progress]);
+
+  const completed: Record<string, Question[]> = {};
+  const done = Promise.all(plan.batches.map(async batch => {
+    update(batch.id, { status: 'loading' });
+    try {
+      completed[batch.id] = await withRetry(
+        () => batch.run(signal),
+        (attempt, error) => update(batch.id, { status: 'retrying', attempt, error }),
+        signal
+      );
+      update(batch.id, { status: 'done', error: undefined });
+      append(completed[batch.id]);
+    } catch (error) {
+      update(batch.id, { status: 'failed', error: error as GenerationError });
+    }
+  })).then(async () => {
+    throwIfAborted(signal);
+    if (questions.length === 0) {
+      throw new PartialGenerationError(plan, completed, progress.filter(p => p.status === 'failed'));
+    }
+    if (plan.complete) {
+      try {
+        append(await plan.complete(questions, signal));
+      } catch (error) {
+        // The test is usable without the extras
+        console.error("Failed to complete streamed test:", error);
+      }
+    }
+    throwIfAborted(signal);
+    return questions;
+  });
+  // `first` carries the error to the caller (it is already settled if any
+  // batch succeeded); this also keeps `done` from being reported as unhandled
+  done.catch(rejectFirst);
+
+  return { first, done };
+};
@@ -0,0 +1,59 @@
+// Thin promise wrapper over IndexedDB shared by all local stores.
+// Bump DB_VERSION and extend `upgrade` when adding a store or index.
+
+const DB_NAME = 'nmt-prep';
+const DB_VERSION = 3;
+
+export const QUESTIONS_STORE = 'questions';
+export const SIMULATION_SCORES_STORE = 'simulationScores';
+export const ATTEMPTS_STORE = 'attempts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    const questions = db.createObjectStore(QUESTIONS_STORE, { keyPath: 'key' });
+    questions.createIndex('subject', 'subject');
+    questions.createIndex('subject_topic', ['subject', 'topic']);
+    questions.createIndex('hash', 'hash');
+  }
+  if (oldVersion < 2) {
+    const scores = db.createObjectStore(SIMULATION_SCORES_STORE, { keyPath: 'id', autoIncrement: true });
+    scores.createIndex('subject', 'subject');
+  }
+  if (oldVersion < 3) {
+    const attempts = db.createObjectStore(ATTEMPTS_STORE, { keyPath: 'id', autoIncrement: true });
+    attempts.createIndex('finishedAt', 'finishedAt');
+  }
+}
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private mode)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
@@ -0,0 +1,56 @@
+import { Difficulty } from "../types";
+
+export const DIFFICULTIES: Difficulty[] = ['basic', 'standard', 'advanced'];
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'standard';
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  basic: 'Базовий',
+  standard: 'Рівень НМТ',
+  advanced: 'Поглиблений'
+};
+
+// How each level is described to the model
+export const DIFFICULTY_PROMPTS: Record<Difficulty, string> = {
+  basic: 'базовий — завдання на знання основних фактів, означень і формул, розв\'язуються в одну-дві дії',
+  standard: 'відповідає реальному ЗНО/НМТ (середній та високий)',
+  advanced: 'поглиблений — складніші за типові завдання НМТ: кілька кроків розв\'язання, поєднання кількох тем, правдоподібні дистрактори'
+};
+
+export const isDifficulty = (value: unknown): value is Difficulty =>
+  DIFFICULTIES.includes(value as Difficulty);
+
+export interface AnswerStats {
+  answered: number;
+  correct: number;
+}
+
+// Share of students expected to answer an item of each level correctly
+const EXPECTED_SUCCESS: Record<Difficulty, number> = { basic: 0.8, standard: 0.6, advanced: 0.35 };
+
+// The generated tag counts as this many answers, so a couple of lucky
+// guesses do not move an item to another level
+const PRIOR_WEIGHT = 4;
+
+// Success rate at or above which an item counts as basic / standard
+const BASIC_THRESHOLD = 0.7;
+const STANDARD_THRESHOLD = 0.45;
+
+// Smoothed success rate: the tag's expectation, pulled towards real answers
+export const observedSuccessRate = (tagged: Difficulty | undefined, stats: AnswerStats): number =>
+  (stats.correct + EXPECTED_SUCCESS[tagged ?? DEFAULT_DIFFICULTY] * PRIOR_WEIGHT) / (stats.answered + PRIOR_WEIGHT);
+
+export const calibrateDifficulty = (tagged: Difficulty | undefined, stats: AnswerStats): Difficulty => {
+  const rate = observedSuccessRate(tagged, stats);
+  if (rate >= BASIC_THRESHOLD) return 'basic';
+  if (rate >= STANDARD_THRESHOLD) return 'standard';
+  return 'advanced';
+};
+
+// Share of each level in a test of the requested level. The real paper
+// mixes easy and hard items, so the NMT level is a balanced blend.
+export const DIFFICULTY_MIX: Record<Difficulty, Record<Difficulty, number>> = {
+  basic: { basic: 0.75, standard: 0.25, advanced: 0 },
+  standard: { basic: 0.25, standard: 0.5, advanced: 0.25 },
+  advanced: { basic: 0, standard: 0.25, advanced: 0.75 }
+};
@@ -0,0 +1,149 @@
+import { Answer, Difficulty, ExamPart, ExamSession, Question, QuestionType, QuizConfig, QuizSession, Subject } from "../types";
+import { NMT_EXAM_2026 } from "../data/nmtExam2026";
+import { ScoredTaskKind, findSubjectScale } from "./nmtScale";
+import { emptyAnswer } from "./scoring";
+import type { BankBlock } from "./questionBank";
+
+// A subject of the exam, or the slot for the one the student picks
+export type ExamSubjectSlot = Subject | 'elective';
+
+// One timed sitting of exam day
+export interface ExamSitting {
+  title: string;
+  subjects: ExamSubjectSlot[];
+  minutes: number;
+}
+
+// Exam day of one year, see data/nmtExam<year>.ts
+export interface ExamFormat {
+  version: string;
+  breakMinutes: number; // Between two sittings
+  sessions: ExamSitting[];
+}
+
+export interface ExamTaskGroup {
+  type: QuestionType;
+  count: number;
+  points?: number; // Set on the items of a stand-in group, see GENERATED_TYPE
+}
+
+// Tasks of one subject in the order of the paper
+export interface ExamBlock {
+  subject: Subject;
+  tasks: ExamTaskGroup[];
+}
+
+export const CURRENT_EXAM_FORMAT: ExamFormat = NMT_EXAM_2026;
+
+// The app cannot generate "оберіть три з семи" yet; single-choice tasks stand
+// in, each worth the points of the real task so the paper keeps its maximum
+const GENERATED_TYPE: Record<ScoredTaskKind, QuestionType> = {
+  single: 'single',
+  matching: 'matching',
+  open: 'open',
+  sequence: 'sequence',
+  multiple: 'single'
+};
+
+const fixedSubjects = (format: ExamFormat): ExamSubjectSlot[] =>
+  format.sessions.flatMap(sitting => sitting.subjects).filter(slot => slot !== 'elective');
+
+// Every subject that is not already on the paper
+export const examElectives = (format: ExamFormat = CURRENT_EXAM_FORMAT): Subject[] =>
+  Object.values(Subject).filter(subject => !fixedSubjects(format).includes(subject));
+
+const sittingSubjects = (sitting: ExamSitting, elective: Subject): Subject[] =>
+  sitting.subjects.map(slot => slot === 'elective' ? elective : slot);
+
+export const examBlock = (subject: Subject): ExamBlock => {
+  const scale = findSubjectScale(subject);
+  if (!scale) throw new Error(`No task structure for ${subject}`);
+
+  const tasks: ExamTaskGroup[] = scale.tasks.map(task => {
+    const type = GENERATED_TYPE[task.kind];
+    return type === task.kind ? { type, count: task.count } : { type, count: task.count, points: task.points };
+  });
+  return { subject, tasks };
+};
+
+export const examBlocks = (elective: Subject, format: ExamFormat = CURRENT_EXAM_FORMAT): ExamBlock[] =>
+  format.sessions.flatMap(sitting => sittingSubjects(sitting, elective)).map(examBlock);
+
+export const blockQuestionCount = (block: ExamBlock): number =>
+  block.tasks.reduce((sum, group) => sum + group.count, 0);
+
+// An offline exam takes every task group from the bank separately, so it has
+// the layout and points of a generated one (see examPlan in geminiService)
+export const examBankBlocks = (blocks: ExamBlock[], difficulty?: Difficulty): BankBlock[] =>
+  blocks.flatMap(block => block.tasks.map(group => ({
+    subject: block.subject,
+    count: group.count,
+    difficulty,
+    type: group.type,
+    points: group.points
+  })));
+
+// Orders the questions by sitting and subject and splits them into parts.
+// A sitting left without questions (its blocks failed to generate) is skipped.
+export const buildExamSession = (
+  title: string,
+  config: QuizConfig,
+  questions: Question[],
+  format: ExamFormat = CURRENT_EXAM_FORMAT
+): ExamSession => {
+  if (config.source.kind !== 'exam') throw new Error(`Not an exam config: ${config.source.kind}`);
+  const elective = config.source.elective;
+  const ordered: Question[] = [];
+  const parts: ExamPart[] = [];
+  format.sessions.forEach(sitting => {
+    const subjects: string[] = sittingSubjects(sitting, elective);
+    const partQuestions = subjects.flatMap(subject => questions.filter(q => q.subject === subject));
+    if (partQuestions.length === 0) return;
+    parts.push({
+      title: sitting.title,
+      subjects,
+      start: ordered.length,
+      end: ordered.length + partQuestions.length,
+      timeLimit: sitting.minutes * 60
+    });
+    ordered.push(...partQuestions);
+  });
+
+  const examQuestions = ordered.map((q, index) => ({ ...q, id: index + 1 }));
+  return {
+    config: { ...config, timeLimit: parts.reduce((sum, part) => sum + part.timeLimit, 0) },
+    subject: title,
+    questions: examQuestions,
+    userAnswers: examQuestions.map(emptyAnswer),
+    startTime: Date.now(),
+    exam: { parts, partIndex: 0, breakSeconds: format.breakMinutes * 60 }
+  };
+};
+
+export const isExamSession = (session: QuizSession): session is ExamSession => session.exam !== undefined;
+
+// What the quiz runner shows during the current part: only its questions,
+// with its own clock
+export const currentExamPart = (session: ExamSession): ExamSession => {
+  const part = session.exam.parts[session.exam.partIndex];
+  return {
+    ...session,
+    config: { ...session.config, timeLimit: part.timeLimit },
+    questions: session.questions.slice(part.start, part.end),
+    userAnswers: session.userAnswers.slice(part.start, part.end)
+  };
+};
+
+// Stores the answers of the part just finished and moves to the next one
+export const completeExamPart = (session: ExamSession, answers: Answer[], questionTimes: number[]): ExamSession => {
+  const part = session.exam.parts[session.exam.partIndex];
+  const inPart = (idx: number) => idx >= part.start && idx < part.end;
+  const userAnswers = session.userAnswers.map((answer, idx) =>
+    inPart(idx) ? answers[idx - part.start] ?? answer : answer);
+  const times = session.questions.map((_, idx) =>
+    inPart(idx) ? questionTimes[idx - part.start] ?? 0 : session.questionTimes?.[idx] ?? 0);
+  return { ...session, userAnswers, questionTimes: times, exam: { ...session.exam, partIndex: session.exam.partIndex + 1 } };
+};
+
+export const isExamFinished = (session: ExamSession): boolean =>
+  session.exam.partIndex >= session.exam.parts.length;
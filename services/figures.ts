@@ -0,0 +1,174 @@
+import { FigureElement, FigurePoint, FigureSpec } from "../types";
+
+// Keeps a runaway model response from producing an unreadable drawing
+const MAX_POINTS = 40;
+const MAX_ELEMENTS = 80;
+
+// Cabinet oblique projection: depth is drawn at 45° and halved
+const DEPTH_SCALE = 0.5;
+const DEPTH_ANGLE = Math.PI / 4;
+// A horizontal circle of radius r becomes an ellipse with this height ratio
+export const ELLIPSE_RATIO = DEPTH_SCALE * Math.sin(DEPTH_ANGLE);
+
+// Room around the drawing for point labels, in pixels
+const PADDING = 28;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+function parsePoint(raw: any): FigurePoint | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const id = typeof raw.id === 'number' ? String(raw.id) : raw.id;
+  if (typeof id !== 'string' || !id.trim() || !isFiniteNumber(raw.x) || !isFiniteNumber(raw.y)) return undefined;
+  if (raw.z !== undefined && raw.z !== null && !isFiniteNumber(raw.z)) return undefined;
+
+  const point: FigurePoint = { id: id.trim(), x: raw.x, y: raw.y };
+  if (isFiniteNumber(raw.z) && raw.z !== 0) point.z = raw.z;
+  if (typeof raw.label === 'string') point.label = raw.label.trim();
+  return point;
+}
+
+function parseElement(raw: any, has: (id: unknown) => boolean): { element?: FigureElement; reason?: string } {
+  if (!raw || typeof raw !== 'object') return { reason: 'element is not an object' };
+  const dashed = raw.dashed === true || undefined;
+
+  switch (raw.kind) {
+    case 'segment':
+      if (!has(raw.from) || !has(raw.to)) return { reason: `segment ${raw.from}-${raw.to} uses an unknown point` };
+      return { element: { kind: 'segment', from: raw.from, to: raw.to, dashed, label: optionalString(raw.label) } };
+    case 'polygon':
+      if (!Array.isArray(raw.points) || raw.points.length < 3 || !raw.points.every(has)) {
+        return { reason: 'polygon needs at least 3 known points' };
+      }
+      return { element: { kind: 'polygon', points: raw.points, dashed, shaded: raw.shaded === true || undefined } };
+    case 'circle':
+      if (!has(raw.center) || !isFiniteNumber(raw.radius) || raw.radius <= 0) {
+        return { reason: 'circle needs a known center and a positive radius' };
+      }
+      return { element: { kind: 'circle', center: raw.center, radius: raw.radius, horizontal: raw.horizontal === true || undefined, dashed } };
+    case 'angle':
+      if (!has(raw.vertex) || !has(raw.from) || !has(raw.to)) return { reason: 'angle uses an unknown point' };
+      return { element: { kind: 'angle', vertex: raw.vertex, from: raw.from, to: raw.to, label: optionalString(raw.label), right: raw.right === true || undefined } };
+    case 'label':
+      if (!has(raw.at) || typeof raw.text !== 'string' || !raw.text.trim()) return { reason: 'label needs a known point and text' };
+      return { element: { kind: 'label', at: raw.at, text: raw.text.trim() } };
+    default:
+      return { reason: `unknown element kind: ${raw.kind}` };
+  }
+}
+
+// Checks a figure from the model or a pack. A question that says "на рисунку"
+// is unanswerable with a broken drawing, so any problem rejects the figure.
+export const parseFigure = (raw: unknown): { figure?: FigureSpec; reason?: string } => {
+  if (!raw || typeof raw !== 'object') return { reason: 'figure is not an object' };
+  const { points: rawPoints, elements: rawElements } = raw as any;
+  if (!Array.isArray(rawPoints) || rawPoints.length === 0) return { reason: 'figure has no points' };
+  if (!Array.isArray(rawElements)) return { reason: 'figure elements are not an array' };
+  if (rawPoints.length > MAX_POINTS || rawElements.length > MAX_ELEMENTS) return { reason: 'figure is too large' };
+
+  const points: FigurePoint[] = [];
+  for (const rawPoint of rawPoints) {
+    const point = parsePoint(rawPoint);
+    if (!point) return { reason: `invalid point: ${JSON.stringify(rawPoint)}` };
+    if (points.some(p => p.id === point.id)) return { reason: `duplicate point: ${point.id}` };
+    points.push(point);
+  }
+
+  const ids = new Set(points.map(p => p.id));
+  const has = (id: unknown) => typeof id === 'string' && ids.has(id);
+  const elements: FigureElement[] = [];
+  for (const rawElement of rawElements) {
+    const { element, reason } = parseElement(rawElement, has);
+    if (!element) return { reason };
+    elements.push(element);
+  }
+
+  return { figure: { points, elements } };
+};
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface FigureLayout {
+  width: number;
+  height: number;
+  scale: number; // Pixels per figure unit
+  center: ScreenPoint; // Middle of all points, labels are pushed away from it
+  position: (id: string) => ScreenPoint;
+}
+
+const project = (p: FigurePoint): ScreenPoint => {
+  const z = p.z ?? 0;
+  return {
+    x: p.x + z * DEPTH_SCALE * Math.cos(DEPTH_ANGLE),
+    y: p.y + z * DEPTH_SCALE * Math.sin(DEPTH_ANGLE)
+  };
+};
+
+// Fits the projected figure into a `maxSize` square, keeping proportions.
+// Screen y grows downwards, figure y upwards.
+export const layoutFigure = (figure: FigureSpec, maxSize: number): FigureLayout => {
+  const projected = new Map(figure.points.map(p => [p.id, project(p)]));
+  const xs: number[] = [];
+  const ys: number[] = [];
+  projected.forEach(p => { xs.push(p.x); ys.push(p.y); });
+  figure.elements.forEach(el => {
+    if (el.kind !== 'circle') return;
+    const c = projected.get(el.center)!;
+    const ry = el.horizontal ? el.radius * ELLIPSE_RATIO : el.radius;
+    xs.push(c.x - el.radius, c.x + el.radius);
+    ys.push(c.y - ry, c.y + ry);
+  });
+
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  const span = Math.max(maxX - minX, maxY - minY) || 1;
+  const scale = (maxSize - 2 * PADDING) / span;
+
+  const toScreen = (p: ScreenPoint): ScreenPoint => ({
+    x: PADDING + (p.x - minX) * scale,
+    y: PADDING + (maxY - p.y) * scale
+  });
+  const screen = new Map(Array.from(projected, ([id, p]) => [id, toScreen(p)]));
+  const all = Array.from(screen.values());
+
+  return {
+    width: (maxX - minX) * scale + 2 * PADDING,
+    height: (maxY - minY) * scale + 2 * PADDING,
+    scale,
+    center: {
+      x: all.reduce((sum, p) => sum + p.x, 0) / all.length,
+      y: all.reduce((sum, p) => sum + p.y, 0) / all.length
+    },
+    position: (id: string) => screen.get(id)!
+  };
+};
+
+export type NotesSegment = { text: string } | { figure: FigureSpec };
+
+// Study notes embed drawings as ```figure fenced blocks with the JSON spec.
+// Blocks that fail to parse are dropped rather than shown as raw JSON.
+export const splitFigureBlocks = (notes: string): NotesSegment[] => {
+  const segments: NotesSegment[] = [];
+  const pattern = /```figure\s*\n([\s\S]*?)```/g;
+  let last = 0;
+  for (const match of notes.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push({ text: notes.slice(last, index) });
+    try {
+      const { figure } = parseFigure(JSON.parse(match[1]));
+      if (figure) segments.push({ figure });
+    } catch (e) {
+      console.warn("Skipping malformed figure in notes", e);
+    }
+    last = index + match[0].length;
+  }
+  if (last < notes.length) segments.push({ text: notes.slice(last) });
+  return segments;
+};
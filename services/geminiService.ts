@@ -1,10 +1,20 @@
-import { GoogleGenAI, Type, Chat, Modality } from "@google/genai";
-import { Subject, Question } from "../types";
-
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const modelId = "gemini-2.5-flash";
+import { Type, Schema } from "@google/genai";
+import { Subject, Question, QuestionType, Difficulty, StudyNotes, GenerationTally } from "../types";
+import { getProvider, ChatSession } from "./llm";
+import { validateQuestions, DroppedQuestion } from "./questionValidator";
+import { dedupeQuestions } from "./questionDedup";
+import { TOPICS, VISUAL_RECOGNITION_CATEGORY, findTopicByCode, findTopicRef, listTopicRefs } from "../data/topics";
+import { listMediaAssets } from "../data/mediaCatalog";
+import { GenerationError, isAbortError, throwIfAborted } from "./generationErrors";
+import { withRetry } from "./retry";
+import { GenerationPlan, ProgressListener, QuestionStream, QuestionsListener, runPlan, streamPlan } from "./batchRunner";
+import { saveQuestions } from "./questionBank";
+import { groupByPassage } from "./passages";
+import { DEFAULT_DIFFICULTY, DIFFICULTIES, DIFFICULTY_PROMPTS } from "./difficulty";
+import { PromptTemplate, PromptVariables, RenderedPrompt, renderPrompt, renderTemplate, selectTemplate } from "./promptRegistry";
+import { GEOMETRY_NOTES_FIGURE_RULE } from "../data/promptTemplates";
+import { ExamBlock } from "./exam";
+import { matchingRowCount } from "./nmtScale";
 
 // Helper to clean JSON response from Markdown code blocks
 function cleanAndParseJSON(text: string): any {
@@ -14,73 +24,269 @@ function cleanAndParseJSON(text: string): any {
     return JSON.parse(cleaned);
   } catch (e) {
     console.error("JSON Parse Error. Raw text:", text);
-    throw new Error("Failed to parse API response");
+    throw new GenerationError('parse', "Failed to parse API response", e);
   }
 }
 
-async function fetchQuestionsInternal(subject: string, count: number, topic?: string): Promise<Question[]> {
+// Declarative drawing for geometry tasks, see FigureSpec in types.ts
+const FIGURE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  description: "Тільки для геометричних задач: рисунок до умови",
+  properties: {
+    points: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: "Назва точки, наприклад A або B1" },
+          x: { type: Type.NUMBER },
+          y: { type: Type.NUMBER, description: "Вісь y напрямлена вгору" },
+          z: { type: Type.NUMBER, description: "Тільки для просторових фігур: глибина" },
+          label: { type: Type.STRING, description: "Підпис, якщо відрізняється від id; порожній рядок — без підпису" }
+        },
+        required: ["id", "x", "y"]
+      }
+    },
+    elements: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ["segment", "polygon", "circle", "angle", "label"] },
+          from: { type: Type.STRING, description: "segment, angle: id точки" },
+          to: { type: Type.STRING, description: "segment, angle: id точки" },
+          points: { type: Type.ARRAY, items: { type: Type.STRING }, description: "polygon: id вершин по порядку" },
+          center: { type: Type.STRING, description: "circle: id центра" },
+          radius: { type: Type.NUMBER, description: "circle: радіус у тих самих одиницях, що й координати" },
+          horizontal: { type: Type.BOOLEAN, description: "circle: основа циліндра чи конуса (малюється еліпсом)" },
+          vertex: { type: Type.STRING, description: "angle: вершина кута" },
+          right: { type: Type.BOOLEAN, description: "angle: прямий кут" },
+          at: { type: Type.STRING, description: "label: id точки, біля якої підпис" },
+          text: { type: Type.STRING, description: "label: текст підпису" },
+          label: { type: Type.STRING, description: "segment, angle: підпис довжини чи величини" },
+          dashed: { type: Type.BOOLEAN, description: "Невидимі ребра та допоміжні лінії" },
+          shaded: { type: Type.BOOLEAN, description: "polygon: зафарбувати" }
+        },
+        required: ["kind"]
+      }
+    }
+  },
+  required: ["points", "elements"]
+};
+
+const QUESTIONS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.INTEGER },
+      type: { type: Type.STRING, enum: ["single", "matching", "open", "sequence"], description: "Тип завдання" },
+      text: { type: Type.STRING, description: "Текст запитання; формули у $...$" },
+      options: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "single: масив з 4 варіантів відповідей; matching: 5 варіантів А–Д; open, sequence: порожній масив"
+      },
+      correctIndex: { type: Type.INTEGER, description: "Тільки для single: індекс правильної відповіді (0-3)" },
+      prompts: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "Тільки для matching: пронумеровані умови (1, 2, 3...), скільки — див. інструкцію"
+      },
+      correctMatches: {
+        type: Type.ARRAY,
+        items: { type: Type.INTEGER },
+        description: "Тільки для matching: індекс варіанта (0-4) для кожної умови, без повторів"
+      },
+      correctAnswer: { type: Type.NUMBER, description: "Тільки для open: правильна числова відповідь" },
+      tolerance: { type: Type.NUMBER, description: "Тільки для open: допустима похибка (0 для точної відповіді)" },
+      unit: { type: Type.STRING, description: "Тільки для open: одиниця вимірювання, якщо потрібна" },
+      items: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "Тільки для sequence: 4 події у довільному (не хронологічному) порядку"
+      },
+      correctOrder: {
+        type: Type.ARRAY,
+        items: { type: Type.INTEGER },
+        description: "Тільки для sequence: індекси подій (0-3) від найдавнішої до найпізнішої"
+      },
+      passage: {
+        type: Type.OBJECT,
+        description: "Лише в ПЕРШОМУ завданні групи: спільний текст, до якого належать кілька завдань",
+        properties: {
+          id: { type: Type.STRING, description: "Короткий ідентифікатор тексту, наприклад p1" },
+          title: { type: Type.STRING },
+          text: { type: Type.STRING, description: "Повний текст; пропуски позначай [[1]], [[2]], ..." },
+          source: { type: Type.STRING, description: "Автор і твір для уривків з літератури" }
+        },
+        required: ["id", "text"]
+      },
+      passageId: { type: Type.STRING, description: "Для інших завдань групи: id спільного тексту" },
+      mediaId: { type: Type.STRING, description: "Тільки для завдань із зображенням: id зображення з наданого списку" },
+      figure: FIGURE_SCHEMA,
+      gap: { type: Type.INTEGER, description: "Тільки для завдань на заповнення пропусків: номер пропуску в тексті" },
+      topicCode: { type: Type.STRING, description: "Код теми з наданого списку, яку перевіряє завдання" },
+      difficulty: { type: Type.STRING, enum: DIFFICULTIES, description: "Складність саме цього завдання: basic, standard або advanced" },
+      explanation: { type: Type.STRING, description: "Пояснення чому ця відповідь правильна; формули у $...$" }
+    },
+    required: ["id", "type", "text", "explanation"]
+  }
+};
+
+// Subjects whose real NMT papers contain "встановіть відповідність" tasks
+const MATCHING_SUBJECTS: string[] = [Subject.UKRAINIAN, Subject.HISTORY, Subject.MATH];
+
+// Math categories whose tasks come with a drawing ("Геометрія: 2.1. Планіметрія", ...)
+const GEOMETRY_CATEGORY_PREFIX = "Геометрія";
+
+const isGeometryTopic = (topic: string): boolean =>
+  (TOPICS[Subject.MATH] || []).some(group => group.category.startsWith(GEOMETRY_CATEGORY_PREFIX) && group.topics.some(t => t.name === topic));
+
+// The LaTeX subset components/MathText can draw; keep in sync with services/mathMarkup
+const MATH_MARKUP_RULE = `Формули записуй у знаках долара: $...$. Дозволено лише: \\frac{a}{b}, \\sqrt{x}, \\sqrt[n]{x}, x^{2}, a_{n}, \\log_{a}{b}, \\lg, \\ln, \\sin, \\cos, \\tg, \\ctg, \\vec{a}, \\overline{AB}, системи \\begin{cases} ... \\\\ ... \\end{cases}, \\text{...}, \\mathbb{R} та символи \\cdot, \\pm, \\le, \\ge, \\ne, \\approx, \\infty, \\pi, \\alpha, \\beta, \\circ, \\angle, \\triangle, \\parallel, \\perp, \\in, \\cup, \\cap. Інших команд LaTeX і $$...$$ не використовуй. Звичайні числа й слова пиши без долара.`;
+
+// Subjects whose papers group several tasks around one text
+const PASSAGE_SUBJECTS: string[] = [Subject.ENGLISH, Subject.UKRAINIAN];
+
+// How many extra requests we make to replace questions dropped by validation
+const MAX_TOP_UP_ATTEMPTS = 2;
+
+// How many extra requests a subject simulation makes to replace duplicates
+const MAX_DEDUP_TOP_UP_ATTEMPTS = 3;
+
+// Optional steering for a single request, used to spread batches apart
+export interface GenerationHints {
+  focus?: string; // Sub-area of the subject or topic to concentrate on
+  avoid?: string[]; // Texts of questions that already exist in the test
+  difficulty?: Difficulty; // Level of the whole test, DEFAULT_DIFFICULTY if omitted
+  questionType?: QuestionType; // Every item must have this type (exam blocks); other items are dropped
+  tally?: GenerationTally; // Counts dropped and repaired items for the results screen
+}
+
+// Everything the quiz template needs except the explanation rule, which has its own template
+function quizPromptVariables(subject: string, count: number, topic?: string, hints: GenerationHints = {}): PromptVariables {
   const topicContext = topic 
     ? `Питання мають стосуватися ВИКЛЮЧНО теми: "${topic}".` 
     : '';
 
-  const prompt = `
-    Створи ${count} тестових питань у форматі НМТ (Національний мультипредметний тест) для предмета: "${subject}".
-    ${topicContext}
-    Питання мають бути актуальними для програми підготовки 2026 року.
-    Рівень складності: відповідає реальному ЗНО/НМТ (середній та високий).
-    
-    Вимоги:
-    1. Питання мають бути українською мовою.
-    2. 4 варіанти відповіді (або формат відповідності, поданий як варіанти А, Б, В, Г).
-    3. Тільки одна правильна відповідь.
-    4. Надай пояснення до правильної відповіді.
-    5. Для математики включи завдання на обчислення (подані як тести).
-    ${topic ? `6. Оскільки тема вузька ("${topic}"), намагайся зробити питання різноманітними, охоплюючи різні аспекти цієї теми.` : ''}
-    7. ВАЖЛИВО: Не використовуй LaTeX форматування (знаки $). Пиши формули звичайним текстом (наприклад, x^2, 1/2, корінь з 5, pi).
-    
-    Поверни відповідь виключно у форматі JSON без зайвого тексту.
-  `;
+  const focusContext = hints.focus
+    ? `Зосередься на розділі: "${hints.focus}".`
+    : '';
+
+  // Exam blocks ask for exactly one task type per request, in place of the usual mix
+  const questionType = hints.questionType;
+
+  // Math matching tasks have 3 rows, the other subjects 4
+  const matchingRows = matchingRowCount(subject);
+  const matchingShape = `${matchingRows} пронумеровані умови (prompts) і 5 варіантів (options, А–Д), ${matchingRows === 4 ? 'один з яких зайвий' : `${5 - matchingRows} з яких зайві`}`;
+  const matchingRule = questionType === 'matching'
+    ? `Усі завдання мають бути на встановлення відповідності (type "matching"): ${matchingShape}; correctMatches — індекс варіанта для кожної умови.`
+    : questionType
+      ? `Усі завдання мають тип "${questionType}".`
+      : MATCHING_SUBJECTS.includes(subject)
+        ? `Приблизно кожне шосте завдання має бути на встановлення відповідності (type "matching"), як у реальному НМТ: ${matchingShape}; correctMatches — індекс варіанта для кожної умови. Не подавай відповідність як звичайний тест з 4 варіантами.`
+        : 'Усі завдання мають тип "single".';
+
+  // The real math paper ends with 4 open-answer tasks out of 22
+  const openAnswerRule = questionType === 'open'
+    ? `Усі завдання мають бути з короткою відкритою відповіддю (type "open"): учень сам записує число. correctAnswer — ціле число або десятковий дріб (не більше двох знаків після коми), options — порожній масив.`
+    : subject === Subject.MATH && !questionType
+      ? `Приблизно кожне п'яте завдання має бути з короткою відкритою відповіддю (type "open"): учень сам записує число. correctAnswer — ціле число або десятковий дріб (не більше двох знаків після коми), options — порожній масив. Решта завдань з математики — на обчислення у форматі тестів.`
+      : '';
+
+  // History papers include 3 chronological-sequence tasks out of 30
+  const sequenceRule = questionType === 'sequence'
+    ? `Усі завдання мають бути на встановлення хронологічної послідовності (type "sequence"): 4 події або явища (items) у перемішаному порядку, correctOrder — індекси подій від найдавнішої до найпізнішої. У поясненні вкажи дати кожної події.`
+    : subject === Subject.HISTORY && !questionType
+      ? `Приблизно кожне восьме завдання має бути на встановлення хронологічної послідовності (type "sequence"): 4 події або явища (items) у перемішаному порядку, correctOrder — індекси подій від найдавнішої до найпізнішої. У поясненні вкажи дати кожної події.`
+      : '';
+
+  // Reading and gap-fill tasks share one text instead of repeating it in every question
+  const passageRule = PASSAGE_SUBJECTS.includes(subject) && count >= 3 && (!questionType || questionType === 'single')
+    ? subject === Subject.ENGLISH
+      ? `Об'єднай 3–4 завдання в групу навколо одного англійського тексту (120–200 слів): повний текст подай один раз у полі passage першого завдання групи, інші завдання групи посилаються на нього через passageId. Це може бути читання (Reading, питання на розуміння) або Use of English: тоді в тексті пропуски позначені [[1]], [[2]], ..., кожне завдання має gap з номером пропуску і 4 варіанти слова для нього. Текст і варіанти англійською, пояснення українською. НЕ повторюй текст у полі text.`
+      : `Об'єднай 3–4 завдання в групу навколо одного уривка художнього твору з програми НМТ (до 150 слів): уривок подай один раз у полі passage першого завдання групи (source — автор і назва твору), інші завдання групи посилаються на нього через passageId. НЕ повторюй уривок у полі text.`
+    : '';
+
+  // Visual recognition tasks may only use images bundled with the app
+  const visualTopics = (TOPICS[Subject.HISTORY].find(group => group.category === VISUAL_RECOGNITION_CATEGORY)?.topics || []).map(t => t.name);
+  const isVisualFocus = (topic !== undefined && visualTopics.includes(topic)) || hints.focus === VISUAL_RECOGNITION_CATEGORY;
+  const mediaAssets = subject === Subject.HISTORY ? listMediaAssets(topic) : [];
+  const mediaRule = mediaAssets.length > 0
+    ? `${isVisualFocus ? 'Більшість завдань' : '1–2 завдання'} мають бути на візуальне впізнання: вкажи mediaId одного з зображень нижче, а в тексті питання НЕ називай, що на ньому зображено (наприклад: «Яку пам'ятку архітектури зображено на фото?»). Правильна відповідь — саме зображений об'єкт. Кожне зображення використовуй не більше одного разу, інших mediaId не вигадуй.\nДоступні зображення:\n${mediaAssets.map(asset => `- ${asset.id}: ${asset.title}`).join('\n')}`
+    : '';
+
+  // Planimetry and stereometry tasks come with a drawing, like on the real paper
+  const isGeometry = subject === Subject.MATH && (!topic || isGeometryTopic(topic));
+  const figureRule = isGeometry
+    ? `Для задач з геометрії, яким потрібен рисунок, додай поле figure: points — точки з координатами (x праворуч, y вгору, z углиб лише для просторових фігур; пропорції мають відповідати умові), elements — відрізки (segment), многокутники (polygon), кола (circle; horizontal: true для основ циліндра і конуса), позначки кутів (angle; right: true для прямого) і підписи (label). Невидимі ребра просторових фігур і допоміжні лінії позначай dashed: true. Не підписуй на рисунку шукану величину.`
+    : '';
+
+  // Tying every question to a programme topic makes per-topic results possible.
+  // A narrow request already knows its topic; a batch focused on one category
+  // only needs that category's topics.
+  const subjectTopics = topic ? [] : listTopicRefs(subject as Subject);
+  const focusTopics = subjectTopics.filter(ref => ref.category === hints.focus);
+  const topicRefs = focusTopics.length > 0 ? focusTopics : subjectTopics;
+  const topicCodeRule = topicRefs.length > 0
+    ? `Для кожного завдання вкажи topicCode — код теми програми, яку воно перевіряє. Інших кодів не вигадуй:\n${topicRefs.map(ref => `- ${ref.code}: ${ref.topic}`).join('\n')}`
+    : '';
+
+  const avoidContext = hints.avoid && hints.avoid.length > 0
+    ? `НЕ повторюй і не перефразовуй ці питання, вони вже є в тесті:\n${hints.avoid.map(t => `- ${t.slice(0, 120)}`).join('\n')}`
+    : '';
+
+  return {
+    count,
+    subject,
+    topicContext,
+    focusContext,
+    difficulty: DIFFICULTY_PROMPTS[hints.difficulty ?? DEFAULT_DIFFICULTY],
+    matchingRule,
+    openAnswerRule,
+    sequenceRule,
+    passageRule,
+    mediaRule,
+    figureRule,
+    topicCodeRule,
+    narrowTopicRule: topic ? `Оскільки тема вузька ("${topic}"), намагайся зробити питання різноманітними, охоплюючи різні аспекти цієї теми.` : '',
+    mathMarkupRule: MATH_MARKUP_RULE,
+    avoidContext
+  };
+}
+
+// Picks the quiz and explanation template versions for one request
+function renderQuizPrompt(subject: string, count: number, topic?: string, hints: GenerationHints = {}): RenderedPrompt {
+  const explanation = renderPrompt('explanation', subject, {});
+  const quiz = renderPrompt('quiz', subject, { ...quizPromptVariables(subject, count, topic, hints), explanationRule: explanation.text });
+  return { text: quiz.text, version: `${quiz.version}+${explanation.version}` };
+}
+
+// Raw items from the model, with the prompt version that asked for them
+async function requestQuestions(subject: string, count: number, topic?: string, hints: GenerationHints = {}, signal?: AbortSignal): Promise<{ rawQuestions: unknown[]; promptVersion: string }> {
+  const prompt = renderQuizPrompt(subject, count, topic, hints);
 
   try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.INTEGER },
-              text: { type: Type.STRING, description: "Текст запитання (без LaTeX, звичайний текст)" },
-              options: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING },
-                description: "Масив з 4 варіантів відповідей"
-              },
-              correctIndex: { type: Type.INTEGER, description: "Індекс правильної відповіді (0-3)" },
-              explanation: { type: Type.STRING, description: "Пояснення чому ця відповідь правильна (без LaTeX)" }
-            },
-            required: ["id", "text", "options", "correctIndex", "explanation"]
-          }
-        }
-      }
+    const responseText = await getProvider().generateQuestions({
+      prompt: prompt.text,
+      schema: QUESTIONS_SCHEMA,
+      subject,
+      count,
+      topic,
+      signal
     });
+    throwIfAborted(signal);
 
-    if (response.text) {
-        // Use robust cleaner
-        const rawQuestions = cleanAndParseJSON(response.text) as Question[];
-        
-        // Ensure it's an array
-        if (!Array.isArray(rawQuestions)) {
-            throw new Error("API response is not an array");
-        }
-
-        // Tag questions with subject
-        return rawQuestions.map(q => ({ ...q, subject }));
+    // Use robust cleaner
+    const rawQuestions = cleanAndParseJSON(responseText);
+    
+    // Ensure it's an array
+    if (!Array.isArray(rawQuestions)) {
+        throw new GenerationError('parse', "API response is not an array");
     }
-    throw new Error("No data returned from Gemini");
+
+    return { rawQuestions, promptVersion: prompt.version };
 
   } catch (error) {
     console.error(`Error generating questions for ${subject}:`, error);
@@ -88,13 +294,74 @@ async function fetchQuestionsInternal(subject: string, count: number, topic?: st
   }
 }
 
-export const generateNMTQuestions = async (subject: Subject): Promise<Question[]> => {
-  return fetchQuestionsInternal(subject, 5);
+async function fetchQuestionsInternal(subject: string, count: number, topic?: string, hints: GenerationHints = {}, signal?: AbortSignal): Promise<Question[]> {
+  const questions: Question[] = [];
+  const dropped: DroppedQuestion[] = [];
+
+  // First request asks for everything, top-ups ask only for what validation dropped
+  for (let attempt = 0; attempt <= MAX_TOP_UP_ATTEMPTS && questions.length < count; attempt++) {
+    const missing = count - questions.length;
+    let rawQuestions: unknown[];
+    let promptVersion: string;
+    try {
+      ({ rawQuestions, promptVersion } = await requestQuestions(subject, missing, topic, hints, signal));
+    } catch (error) {
+      // A failed top-up must not cost the questions already collected
+      if (questions.length === 0 || isAbortError(error)) throw error;
+      console.warn(`Top-up request failed for ${subject}, keeping ${questions.length} question(s):`, error);
+      break;
+    }
+    const report = validateQuestions(rawQuestions, subject);
+    // Items of another type are asked for again like invalid ones
+    const valid = hints.questionType ? report.valid.filter(q => q.type === hints.questionType) : report.valid;
+    if (valid.length < report.valid.length) {
+      console.warn(`Dropped ${report.valid.length - valid.length} question(s) that are not of type ${hints.questionType} for ${subject}`);
+    }
+
+    questions.push(...valid.slice(0, missing).map(q => ({ ...q, promptVersion })));
+    dropped.push(...report.dropped);
+    if (report.repairedCount > 0) {
+      console.warn(`Repaired ${report.repairedCount} question(s) for ${subject}`);
+    }
+    if (hints.tally) {
+      hints.tally.dropped += report.dropped.length + report.valid.length - valid.length;
+      hints.tally.repaired += report.repairedCount;
+    }
+  }
+
+  if (dropped.length > 0) {
+    console.warn(`Dropped ${dropped.length} invalid question(s) for ${subject}:`, dropped);
+  }
+  if (questions.length === 0) {
+    throw new GenerationError('parse', `No valid questions generated for ${subject}`);
+  }
+  if (questions.length < count) {
+    console.warn(`Only ${questions.length} of ${count} valid questions generated for ${subject}`);
+    if (hints.tally) hints.tally.missing += count - questions.length;
+  }
+
+  // Tag questions with subject; items the model did not rate get the requested level.
+  // A code from another subject is as useless as none.
+  const topicRef = topic ? findTopicRef(subject, topic) : undefined;
+  const tagged = questions.map(q => ({
+    ...q,
+    subject,
+    difficulty: q.difficulty ?? hints.difficulty ?? DEFAULT_DIFFICULTY,
+    topicCode: topicRef?.code ?? (q.topicCode && findTopicByCode(q.topicCode)?.subject === subject ? q.topicCode : undefined)
+  }));
+
+  // Keep every generated question for offline practice; never block the quiz on it
+  saveQuestions(tagged, topic).catch(error => console.error("Failed to save questions to the bank:", error));
+
+  return tagged;
+}
+
+export const generateNMTQuestions = async (subject: Subject, difficulty?: Difficulty, signal?: AbortSignal, count = 5, tally?: GenerationTally): Promise<Question[]> => {
+  return withRetry(() => fetchQuestionsInternal(subject, count, undefined, { difficulty, tally }, signal), undefined, signal);
 };
 
-export const generateNMTSimulation = async (): Promise<Question[]> => {
-  // Real NMT simulation: 4 blocks. We will generate 8 questions for each core subject.
-  // Subjects: Ukrainian, History, English, Math.
+// Real NMT simulation: 4 blocks of 8 questions, one per core subject
+function nmtSimulationPlan(difficulty?: Difficulty, tally?: GenerationTally): GenerationPlan {
   const subjectsToFetch = [
     { name: Subject.UKRAINIAN, count: 8 },
     { name: Subject.HISTORY, count: 8 },
@@ -102,56 +369,217 @@ export const generateNMTSimulation = async (): Promise<Question[]> => {
     { name: Subject.MATH, count: 8 }
   ];
 
+  return {
+    // Each subject is a separate batch so one failure does not cost the others
+    batches: subjectsToFetch.map(item => ({
+      id: item.name,
+      label: item.name,
+      run: (signal) => fetchQuestionsInternal(item.name, item.count, undefined, { difficulty, tally }, signal)
+    })),
+    finalize: async (results) => {
+      // Flatten and re-index
+      return groupByPassage(results.flat()).map((q, index) => ({
+        ...q,
+        id: index + 1 // Re-index for the combined test
+      }));
+    },
+    appendBatch: (_existing, batch) => groupByPassage(batch)
+  };
+}
+
+export const generateNMTSimulation = async (onProgress?: ProgressListener, difficulty?: Difficulty, signal?: AbortSignal): Promise<Question[]> => {
   try {
-    // Execute all requests in parallel
-    const results = await Promise.all(
-      subjectsToFetch.map(item => fetchQuestionsInternal(item.name, item.count))
-    );
+    return await runPlan(nmtSimulationPlan(difficulty), onProgress, {}, signal);
+  } catch (error) {
+    console.error("Error generating simulation:", error);
+    throw error;
+  }
+};
 
-    // Flatten and re-index
-    const allQuestions = results.flat();
-    
-    return allQuestions.map((q, index) => ({
-      ...q,
-      id: index + 1 // Re-index for the combined test
-    }));
+// Starts the quiz with the first finished subject, see streamPlan
+export const streamNMTSimulation = (onQuestions: QuestionsListener, onProgress?: ProgressListener, difficulty?: Difficulty, signal?: AbortSignal, tally?: GenerationTally): QuestionStream =>
+  streamPlan(nmtSimulationPlan(difficulty, tally), onQuestions, onProgress, signal);
+
+// Largest request of an exam block; longer blocks are split
+const EXAM_BATCH_SIZE = 10;
+
+// Exam day: every subject block in the order of the paper, one batch per
+// task type (split into EXAM_BATCH_SIZE chunks), so the type mix is exact
+function examPlan(blocks: ExamBlock[], difficulty?: Difficulty, random: () => number = Math.random, tally?: GenerationTally): GenerationPlan {
+  const groups = blocks.flatMap(block => block.tasks.map(group => ({ ...group, subject: block.subject })));
+  type Group = typeof groups[number];
+  const inGroup = (group: Group) => (q: Question) =>
+    q.subject === group.subject && q.type === group.type && (q.type === 'single' ? q.points : undefined) === group.points;
+  // Stand-ins for tasks the app cannot generate carry the real task's points
+  const stamp = (group: Group, questions: Question[]): Question[] =>
+    group.points === undefined ? questions : questions.map(q => q.type === 'single' ? { ...q, points: group.points } : q);
 
+  // Batches that returned questions, so a test started from partial results
+  // only tops up the blocks it actually has
+  const delivered = new Set<string>();
+
+  const batches = blocks.flatMap(block => {
+    const chunks = groups.filter(group => group.subject === block.subject).flatMap(group => Array.from(
+      { length: Math.ceil(group.count / EXAM_BATCH_SIZE) },
+      (_, i) => ({ group, count: Math.min(EXAM_BATCH_SIZE, group.count - i * EXAM_BATCH_SIZE) })
+    ));
+    const focuses = pickBatchFocuses(block.subject, chunks.length, random);
+    return chunks.map((chunk, i) => {
+      const id = `${block.subject}-${i + 1}`;
+      return {
+        ...chunk,
+        id,
+        label: chunks.length > 1 ? `${block.subject} ${i + 1}/${chunks.length}` : block.subject,
+        run: async (signal?: AbortSignal) => {
+          const questions = await fetchQuestionsInternal(block.subject, chunk.count, undefined, { focus: focuses[i], difficulty, questionType: chunk.group.type, tally }, signal);
+          delivered.add(id);
+          return stamp(chunk.group, questions);
+        }
+      };
+    });
+  });
+
+  // Asks for replacements of duplicates and short batches, group by group
+  const topUp = async (questions: Question[], signal?: AbortSignal): Promise<Question[]> => {
+    let allQuestions = questions;
+    for (const group of groups) {
+      const target = batches
+        .filter(batch => batch.group === group && delivered.has(batch.id))
+        .reduce((sum, batch) => sum + batch.count, 0);
+      try {
+        for (let attempt = 0; attempt < MAX_DEDUP_TOP_UP_ATTEMPTS; attempt++) {
+          const missing = target - allQuestions.filter(inGroup(group)).length;
+          if (missing <= 0) break;
+          const extra = await withRetry(() => fetchQuestionsInternal(group.subject, missing, undefined, {
+            difficulty,
+            questionType: group.type,
+            avoid: allQuestions.filter(q => q.subject === group.subject).map(q => q.text),
+            tally
+          }, signal), undefined, signal);
+          allQuestions = [...allQuestions, ...dedupeQuestions(allQuestions, stamp(group, extra))];
+        }
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        // Not worth failing the whole exam over a few replacements
+        console.error(`Failed to replace duplicate ${group.type} questions for ${group.subject}:`, error);
+      }
+    }
+    return allQuestions;
+  };
+
+  return {
+    batches,
+    // Replacements join their own group, so every subject's questions stay
+    // together in the order of the paper
+    finalize: async (results, signal) => {
+      const allQuestions = await topUp(dedupeQuestions([], results.flat()), signal);
+      return groupByPassage(groups.flatMap(group => allQuestions.filter(inGroup(group)))).map((q, index) => ({
+        ...q,
+        id: index + 1
+      }));
+    }
+  };
+}
+
+export const generateExam = async (blocks: ExamBlock[], onProgress?: ProgressListener, difficulty?: Difficulty, signal?: AbortSignal, random?: () => number, tally?: GenerationTally): Promise<Question[]> => {
+  try {
+    return await runPlan(examPlan(blocks, difficulty, random, tally), onProgress, {}, signal);
   } catch (error) {
-    console.error("Error generating simulation:", error);
+    console.error("Error generating exam:", error);
     throw error;
   }
 };
 
-export const generateSubjectSimulation = async (subject: Subject, topic?: string): Promise<Question[]> => {
+// Picks a different TOPICS category for each batch, starting at a random
+// offset so that repeated simulations do not always begin with the same one.
+function pickBatchFocuses(subject: Subject, totalBatches: number, random: () => number = Math.random): (string | undefined)[] {
+  const categories = (TOPICS[subject] || []).map(group => group.category);
+  if (categories.length === 0) {
+    return new Array(totalBatches).fill(undefined);
+  }
+  const offset = Math.floor(random() * categories.length);
+  return Array.from({ length: totalBatches }, (_, i) => categories[(offset + i) % categories.length]);
+}
+
+function subjectSimulationPlan(subject: Subject, topic?: string, difficulty?: Difficulty, random: () => number = Math.random, tally?: GenerationTally): GenerationPlan {
   // For a full subject simulation (32 questions), we split into batches to avoid timeout/token limits
   // 4 batches of 8 questions = 32 questions
   const batchSize = 8;
   const totalBatches = 4;
-  const promises = [];
+  const totalQuestions = batchSize * totalBatches;
 
-  for (let i = 0; i < totalBatches; i++) {
-    promises.push(fetchQuestionsInternal(subject, batchSize, topic));
-  }
+  // With a specific topic the categories are too broad to help, so batches
+  // are told which part of the test they are instead.
+  const focuses = topic
+    ? Array.from({ length: totalBatches }, (_, i) => `частина ${i + 1} з ${totalBatches} теми "${topic}", інші частини охоплюють інші аспекти`)
+    : pickBatchFocuses(subject, totalBatches, random);
 
-  try {
-    const results = await Promise.all(promises);
-    const allQuestions = results.flat();
+  // Asks for replacements of duplicates, showing the model what already exists
+  const topUp = async (questions: Question[], target: number, signal?: AbortSignal): Promise<Question[]> => {
+    let allQuestions = questions;
+    try {
+      for (let attempt = 0; attempt < MAX_DEDUP_TOP_UP_ATTEMPTS && allQuestions.length < target; attempt++) {
+        const missing = target - allQuestions.length;
+        const focus = focuses[attempt % focuses.length];
+        const extra = await withRetry(() => fetchQuestionsInternal(subject, missing, topic, {
+          focus,
+          difficulty,
+          avoid: allQuestions.map(q => q.text),
+          tally
+        }, signal), undefined, signal);
+        allQuestions = [...allQuestions, ...dedupeQuestions(allQuestions, extra)];
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      // Not worth failing the whole simulation over a few replacements
+      console.error("Failed to replace duplicate questions:", error);
+    }
 
-    return allQuestions.map((q, index) => ({
-      ...q,
-      id: index + 1,
-      subject: subject
-    }));
+    if (allQuestions.length < target) {
+      console.warn(`Subject simulation for ${subject} has only ${allQuestions.length} distinct questions`);
+    }
+    return allQuestions;
+  };
+
+  return {
+    batches: focuses.map((focus, i) => ({
+      id: `batch-${i + 1}`,
+      label: `Блок ${i + 1}`,
+      run: (signal) => fetchQuestionsInternal(subject, batchSize, topic, { focus, difficulty, tally }, signal)
+    })),
+    finalize: async (results, signal) => {
+      // When the user starts with partial results, the target shrinks to the
+      // batches that actually succeeded.
+      const target = Math.min(totalQuestions, results.length * batchSize);
+      const allQuestions = await topUp(dedupeQuestions([], results.flat()), target, signal);
+
+      return groupByPassage(allQuestions.slice(0, target)).map((q, index) => ({
+        ...q,
+        id: index + 1,
+        subject: subject
+      }));
+    },
+    appendBatch: (existing, batch) => groupByPassage(dedupeQuestions(existing, batch)),
+    // A streamed test keeps its full length: the top-up also covers failed blocks
+    complete: async (existing, signal) => groupByPassage((await topUp(existing, totalQuestions, signal)).slice(existing.length, totalQuestions))
+  };
+}
+
+export const generateSubjectSimulation = async (subject: Subject, topic?: string, onProgress?: ProgressListener, difficulty?: Difficulty, signal?: AbortSignal): Promise<Question[]> => {
+  try {
+    return await runPlan(subjectSimulationPlan(subject, topic, difficulty), onProgress, {}, signal);
   } catch (error) {
     console.error(`Error generating subject simulation for ${subject} (Topic: ${topic}):`, error);
     throw error;
   }
 };
 
-export const generateTopicQuiz = async (subject: Subject, topic: string): Promise<Question[]> => {
-  // 10 questions for a specific topic check
+export const streamSubjectSimulation = (subject: Subject, topic: string | undefined, onQuestions: QuestionsListener, onProgress?: ProgressListener, difficulty?: Difficulty, signal?: AbortSignal, random?: () => number, tally?: GenerationTally): QuestionStream =>
+  streamPlan(subjectSimulationPlan(subject, topic, difficulty, random, tally), onQuestions, onProgress, signal);
+
+export const generateTopicQuiz = async (subject: Subject, topic: string, difficulty?: Difficulty, signal?: AbortSignal, count = 10, tally?: GenerationTally): Promise<Question[]> => {
   try {
-    const questions = await fetchQuestionsInternal(subject, 10, topic);
+    const questions = await withRetry(() => fetchQuestionsInternal(subject, count, topic, { difficulty, tally }, signal), undefined, signal);
     return questions.map((q, index) => ({
       ...q,
       id: index + 1
@@ -162,111 +590,66 @@ export const generateTopicQuiz = async (subject: Subject, topic: string): Promis
   }
 };
 
-export const generateStudyNotes = async (subject: string, topic: string): Promise<string> => {
-    // Dynamic prompt structure based on subject
-    const isMath = subject === Subject.MATH || subject.includes('Математика') || subject.includes('Алгебра') || subject.includes('Геометрія');
-    
-    let structureRequirements = "";
-    if (isMath) {
-        structureRequirements = `
-          1. **Вступ**: короткий опис, що це за тема і де вона застосовується.
-          2. **Основні формули та визначення**: випиши головні формули, теореми чи аксіоми.
-          3. **Алгоритми розв'язання**: покрокові інструкції для типових задач цієї теми.
-          4. **Типові помилки**: що учні часто плутають.
-          5. **Лайфхаки для НМТ**: як швидко розв'язувати такі завдання.
-        `;
-    } else {
-        structureRequirements = `
-          1. **Вступ**: короткий опис суті теми.
-          2. **Ключові дати та події** (для історії) або **Правила** (для мови).
-          3. **Персоналії** (для історії/літератури) або **Приклади** (для інших).
-          4. **Основний виклад матеріалу**: тезисно, головні події, причини та наслідки.
-          5. **Лайфхаки для НМТ**: на що звернути особливу увагу в тестах.
-        `;
-    }
+const notesPromptVariables = (subject: string, topic: string): PromptVariables => ({
+  subject,
+  topic,
+  figureRule: subject === Subject.MATH && isGeometryTopic(topic) ? GEOMETRY_NOTES_FIGURE_RULE : '',
+  mathMarkupRule: MATH_MARKUP_RULE
+});
 
-    const prompt = `
-      Створи детальний та структурований конспект для підготовки до НМТ 2026 з предмету "${subject}" на тему: "${topic}".
-      
-      Вимоги до структури (використовуй Markdown):
-      ${structureRequirements}
-
-      ВАЖЛИВО: 
-      - Обов'язково виділяй жирним шрифтом (**приклад**) ключові поняття.
-      - НЕ ВИКОРИСТОВУЙ LaTeX (знаки $). Пиши формули звичайним текстом або Unicode (наприклад: α, β, x^2, √25, 360°, pi).
-      - Роби відступи між блоками для кращої читабельності.
-      
-      Стиль викладу: чіткий, навчальний, без зайвої "води".
-      Мова: українська.
-    `;
-  
-    try {
-      const response = await ai.models.generateContent({
-        model: modelId,
-        contents: prompt,
-      });
-  
-      return response.text || "Не вдалося згенерувати конспект. Спробуйте ще раз.";
-    } catch (error) {
-      console.error("Error generating notes:", error);
-      throw error;
-    }
-  };
+const chatPromptVariables = (): PromptVariables => ({ mathMarkupRule: MATH_MARKUP_RULE });
 
-export const createNMTChat = (): Chat => {
-  return ai.chats.create({
-    model: modelId,
-    config: {
-      systemInstruction: `
-        Ти — досвідчений репетитор і помічник для підготовки до НМТ (Національний мультипредметний тест) 2026 року.
-        Твоя мета — допомагати учням розбиратися в складних темах, пояснювати незрозуміле та структурувати знання.
-
-        Правила:
-        1. Відповідай ВИКЛЮЧНО на питання, що стосуються шкільної програми та предметів НМТ (Математика, Українська мова та література, Історія України, Англійська мова, Біологія, Хімія, Фізика, Географія).
-        2. Якщо користувач ставить питання, яке не стосується навчання або НМТ, ввічливо відмов.
-        
-        Вимоги до відповідей:
-        - Відповідь має бути повною, розгорнутою та зрозумілою.
-        - Для ІСТОРІЇ: вказуй дати, причини, перебіг подій та їх наслідки.
-        - Для МАТЕМАТИКИ/ФІЗИКИ/ХІМІЇ: якщо питання про задачу, розпиши розв'язання покроково.
-        - СУВОРА ЗАБОРОНА НА LATEX: НЕ використовуй знаки долара ($) для формул. Пиши формули так, щоб вони легко читались текстом (наприклад: "x у квадраті", "x^2", "корінь з 3", "sqrt(3)", "1/2"). Використовуй Unicode символи (°, π, ∆, α).
-        - Використовуй Markdown для форматування (жирний шрифт для важливого, списки для переліків).
-        - Стиль спілкування: доброзичливий, підтримуючий.
-      `
-    }
-  });
+// Subjects with their own notes template (math) get a different structure.
+// The API server renders the version the browser picked the same way.
+export const notesPrompt = (subject: string, topic: string, template: PromptTemplate = selectTemplate('notes', subject)): RenderedPrompt =>
+  renderTemplate(template, notesPromptVariables(subject, topic));
+
+export const chatPrompt = (template: PromptTemplate = selectTemplate('chat')): RenderedPrompt =>
+  renderTemplate(template, chatPromptVariables());
+
+export const generateStudyNotes = async (subject: string, topic: string, signal?: AbortSignal): Promise<StudyNotes> => {
+  const prompt = notesPrompt(subject, topic);
+
+  try {
+    const text = await getProvider().generateNotes({ prompt, subject, topic, signal });
+    throwIfAborted(signal);
+
+    return { text: text || "Не вдалося згенерувати конспект. Спробуйте ще раз.", promptVersion: prompt.version };
+  } catch (error) {
+    console.error("Error generating notes:", error);
+    throw error;
+  }
+};
+
+export const createNMTChat = (): ChatSession =>
+  getProvider().createChat(chatPrompt());
+
+// Renders a template version with the variables a real request would get,
+// for the prompt preview page
+export const previewPrompt = (template: PromptTemplate, subject: Subject, topic?: string, count = 8): string => {
+  switch (template.task) {
+    case 'quiz':
+      return renderTemplate(template, {
+        ...quizPromptVariables(subject, count, topic),
+        explanationRule: renderPrompt('explanation', subject, {}).text
+      }).text;
+    case 'notes':
+      return renderTemplate(template, notesPromptVariables(subject, topic || "Тема")).text;
+    case 'chat':
+      return renderTemplate(template, chatPromptVariables()).text;
+    default:
+      return renderTemplate(template, {}).text;
+  }
 };
 
-export const generateSpeech = async (text: string, voiceName: string): Promise<string> => {
+export const generateSpeech = async (text: string, voiceName: string, signal?: AbortSignal): Promise<string> => {
   // Truncate text to a larger safe limit for study notes (Gemini usually supports ~4000 chars context for TTS)
   const safeText = text.slice(0, 4000); 
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: {
-        parts: [{ text: safeText }]
-      },
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: {
-              voiceName: voiceName
-            }
-          }
-        }
-      }
-    });
-
-    // The API returns raw PCM data in base64 format inside the inlineData
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    
-    if (!base64Audio) {
-      throw new Error("No audio data returned");
-    }
-
-    return base64Audio;
+    const audio = await getProvider().generateSpeech(safeText, voiceName, signal);
+    throwIfAborted(signal);
+    return audio;
   } catch (error) {
     console.error("Speech generation error:", error);
     throw error;
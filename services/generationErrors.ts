@@ -0,0 +1,62 @@
+// 'server-config': the app's API server has no working model key, which
+// only its operator can fix
+export type GenerationErrorKind = 'rate-limit' | 'auth' | 'missing-key' | 'server-config' | 'network' | 'parse' | 'aborted' | 'unknown';
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly cause?: unknown;
+
+  constructor(kind: GenerationErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+}
+
+// Maps whatever a provider threw (SDK ApiError, fetch TypeError, our own
+// errors) onto the few categories the retry policy and the UI care about.
+export const classifyError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  if ((error as any)?.name === 'AbortError') {
+    return new GenerationError('aborted', "Generation cancelled", error);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+
+  if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota|rate.?limit/i.test(message)) {
+    return new GenerationError('rate-limit', message, error);
+  }
+  if (status === 401 || status === 403 || /\b40[13]\b|API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new GenerationError('auth', message, error);
+  }
+  if (error instanceof TypeError || /failed to fetch|network|ECONNREFUSED|timeout/i.test(message)) {
+    return new GenerationError('network', message, error);
+  }
+  return new GenerationError('unknown', message, error);
+};
+
+// The user cancelled. Providers that cannot abort a running request are
+// checked between steps so their late answers are dropped.
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new GenerationError('aborted', "Generation cancelled");
+  }
+};
+
+export const isAbortError = (error: unknown): boolean => classifyError(error).kind === 'aborted';
+
+// User-facing explanation for each error kind
+export const describeError = (error: unknown): string => {
+  switch (classifyError(error).kind) {
+    case 'rate-limit': return "Перевищено ліміт запитів до моделі. Зачекайте хвилину і спробуйте ще раз.";
+    case 'auth': return "Ключ API недійсний або не має доступу до моделі.";
+    case 'missing-key': return "Ключ API не задано або його захищено паролем. Введіть чи розблокуйте ключ у налаштуваннях.";
+    case 'server-config': return "Сервер застосунку не може звернутися до моделі: його ключ API недійсний або не заданий. Повідомте адміністратора або оберіть іншого постачальника в налаштуваннях.";
+    case 'network': return "Немає з'єднання з сервером моделі. Перевірте інтернет.";
+    case 'parse': return "Модель повернула некоректні дані. Спробуйте ще раз.";
+    case 'aborted': return "Генерацію скасовано.";
+    default: return "Не вдалося завантажити питання. Перевірте з'єднання або API ключ.";
+  }
+};
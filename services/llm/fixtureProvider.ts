@@ -0,0 +1,231 @@
+import { LLMProvider } from "./types";
+import { Subject } from "../../types";
+import { MEDIA_CATALOG } from "../../data/mediaCatalog";
+import { matchingRowCount } from "../nmtScale";
+
+// Deterministic offline provider: same input always produces the same output.
+// Useful for UI work and demos without network access or an API key.
+
+const LETTERS = ['А', 'Б', 'В', 'Г'];
+
+// Small seeded PRNG (mulberry32) so fixtures vary with the prompt but stay reproducible
+function createRandom(seedText: string): () => number {
+  let seed = 0;
+  for (let i = 0; i < seedText.length; i++) seed = (seed * 31 + seedText.charCodeAt(i)) | 0;
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Puts the correct option (first in `options`) at a random position
+function placeCorrect(options: string[], random: () => number): { options: string[]; correctIndex: number } {
+  const correctIndex = Math.floor(random() * options.length);
+  const rest = options.slice(1);
+  return { options: [...rest.slice(0, correctIndex), options[0], ...rest.slice(correctIndex)], correctIndex };
+}
+
+// First three fixtures of text-based subjects share a passage, the way the
+// model is asked to return it: full text once, then references by passageId
+function passageFixtures(subject: string, random: () => number): object[] {
+  if (subject === Subject.ENGLISH) {
+    const hour = 6 + Math.floor(random() * 3);
+    const distance = 2 + Math.floor(random() * 5);
+    return [
+      {
+        text: 'Choose the correct word for gap 1.',
+        passage: {
+          id: 'p1',
+          title: 'Morning',
+          text: `Tom wakes up at ${hour} o'clock every day. He [[1]] breakfast with his sister, and then they [[2]] to school together. The school is ${distance} kilometres from their house.`
+        },
+        gap: 1,
+        ...placeCorrect(['has', 'have', 'having', 'to have'], random),
+        explanation: 'He — третя особа однини, тому has.'
+      },
+      {
+        text: 'Choose the correct word for gap 2.',
+        passageId: 'p1',
+        gap: 2,
+        ...placeCorrect(['walk', 'walks', 'walking', 'walked'], random),
+        explanation: 'They — множина, Present Simple без закінчення -s.'
+      },
+      {
+        text: "How far is the school from Tom's house?",
+        passageId: 'p1',
+        ...placeCorrect([distance, distance + 1, distance + 2, distance + 3].map(d => `${d} km`), random),
+        explanation: `У тексті сказано: ${distance} kilometres.`
+      }
+    ];
+  }
+  return [
+    {
+      text: 'Який час доби зображено в уривку?',
+      passage: {
+        id: 'p1',
+        text: 'Садок вишневий коло хати,\nХрущі над вишнями гудуть,\nПлугатарі з плугами йдуть,\nСпівають ідучи дівчата,\nА матері вечерять ждуть.',
+        source: 'Тарас Шевченко, «Садок вишневий коло хати»'
+      },
+      ...placeCorrect(['вечір', 'ранок', 'полудень', 'ніч'], random),
+      explanation: 'Плугатарі повертаються з поля, а матері чекають на вечерю.'
+    },
+    {
+      text: 'Хто йде з плугами?',
+      passageId: 'p1',
+      ...placeCorrect(['плугатарі', 'дівчата', 'матері', 'хрущі'], random),
+      explanation: 'Третій рядок: «Плугатарі з плугами йдуть».'
+    },
+    {
+      text: 'Хто чекає на вечерю?',
+      passageId: 'p1',
+      ...placeCorrect(['матері', 'дівчата', 'плугатарі', 'діти'], random),
+      explanation: 'Останній рядок: «А матері вечерять ждуть».'
+    }
+  ];
+}
+
+export const createFixtureProvider = (): LLMProvider => ({
+  kind: 'fixture',
+
+  generateQuestions: async ({ prompt, subject, count, topic }) => {
+    const random = createRandom(prompt);
+    const grouped = (subject === Subject.ENGLISH || subject === Subject.UKRAINIAN) && count >= 3
+      ? passageFixtures(subject, random).map((q, i) => ({ id: i + 1, type: 'single', ...q }))
+      : [];
+    const questions = grouped.concat(Array.from({ length: count - grouped.length }, (_, n) => {
+      const i = n + grouped.length;
+      // Every fifth fixture is a matching task so the grid UI gets exercised
+      if (i % 5 === 4) {
+        const shift = Math.floor(random() * 10);
+        // 5 options, the ones after the rows are left over
+        const values = [1, 2, 3, 4, 5].map(n => n + shift);
+        const rows = matchingRowCount(subject);
+        return {
+          id: i + 1,
+          type: 'matching',
+          text: `${subject}${topic ? ` (${topic})` : ''}: установіть відповідність між виразом і його значенням.`,
+          prompts: values.slice(0, rows).map(v => `${v} × 2`),
+          options: values.map(v => String(v * 2)),
+          correctMatches: values.slice(0, rows).map((_, row) => row),
+          explanation: 'Кожен вираз дорівнює подвоєному числу.'
+        };
+      }
+      const a = 1 + Math.floor(random() * 90);
+      const b = 1 + Math.floor(random() * 90);
+      if (subject === Subject.HISTORY && i % 5 === 2) {
+        const start = 1600 + Math.floor(random() * 300);
+        const years = [start, start + 10, start + 20, start + 30];
+        return {
+          id: i + 1,
+          type: 'sequence',
+          text: `${subject}${topic ? ` (${topic})` : ''}: розташуйте роки в хронологічній послідовності.`,
+          items: [years[2], years[0], years[3], years[1]].map(y => `${y} р.`),
+          correctOrder: [1, 3, 0, 2],
+          explanation: `Послідовність: ${years.join(', ')}.`
+        };
+      }
+      // Distractors come from the same kind of image (portraits, fortresses...)
+      const candidates = MEDIA_CATALOG.filter(asset => MEDIA_CATALOG.filter(other => other.kind === asset.kind).length >= LETTERS.length);
+      if (subject === Subject.HISTORY && i % 5 === 3 && candidates.length > 0) {
+        const asset = candidates[Math.floor(random() * candidates.length)];
+        const distractors = MEDIA_CATALOG.filter(other => other.kind === asset.kind && other !== asset).slice(0, LETTERS.length - 1);
+        return {
+          id: i + 1,
+          type: 'single',
+          text: `${subject}${topic ? ` (${topic})` : ''}: що зображено на ілюстрації?`,
+          mediaId: asset.id,
+          ...placeCorrect([asset.title, ...distractors.map(other => other.title)], random),
+          explanation: `На ілюстрації — ${asset.title}.`
+        };
+      }
+      if (subject === Subject.MATH && i % 5 === 3) {
+        const k = 1 + Math.floor(random() * 4);
+        return {
+          id: i + 1,
+          type: 'single',
+          text: `${subject}${topic ? ` (${topic})` : ''}: у прямокутному трикутнику ABC (∠C = 90°) AC = ${3 * k}, BC = ${4 * k}. Знайдіть AB.`,
+          ...placeCorrect([5 * k, 7 * k, 6 * k, 4 * k].map(String), random),
+          figure: {
+            points: [{ id: 'C', x: 0, y: 0 }, { id: 'A', x: 0, y: 3 }, { id: 'B', x: 4, y: 0 }],
+            elements: [
+              { kind: 'polygon', points: ['A', 'B', 'C'] },
+              { kind: 'angle', vertex: 'C', from: 'A', to: 'B', right: true },
+              { kind: 'segment', from: 'A', to: 'C', label: String(3 * k) },
+              { kind: 'segment', from: 'B', to: 'C', label: String(4 * k) }
+            ]
+          },
+          explanation: `За теоремою Піфагора $AB = \\sqrt{${3 * k}^{2} + ${4 * k}^{2}} = ${5 * k}$.`
+        };
+      }
+      if (subject === Subject.MATH && i % 5 === 2) {
+        return {
+          id: i + 1,
+          type: 'open',
+          text: `${subject}${topic ? ` (${topic})` : ''}: обчисліть $\\frac{${a}}{4}$.`,
+          correctAnswer: a / 4,
+          tolerance: 0,
+          explanation: `$\\frac{${a}}{4} = ${String(a / 4).replace('.', ',')}$.`
+        };
+      }
+      const correctIndex = Math.floor(random() * LETTERS.length);
+      const options = LETTERS.map((_, idx) => String(a + b + (idx - correctIndex) * 3));
+      return {
+        id: i + 1,
+        type: 'single',
+        text: `${subject}${topic ? ` (${topic})` : ''}: скільки буде ${a} + ${b}?`,
+        options,
+        correctIndex,
+        explanation: `${a} + ${b} = ${a + b}, тому правильна відповідь ${LETTERS[correctIndex]}.`
+      };
+    }));
+    return JSON.stringify(questions);
+  },
+
+  generateNotes: async ({ prompt, topic }) => {
+    // Geometry notes are asked for drawings; include a cube to exercise the renderer
+    const figure = prompt.text.includes('```figure') ? [
+      '```figure',
+      JSON.stringify({
+        points: [
+          { id: 'A', x: 0, y: 0 }, { id: 'B', x: 2, y: 0 }, { id: 'C', x: 2, y: 0, z: 2 }, { id: 'D', x: 0, y: 0, z: 2 },
+          { id: 'A1', x: 0, y: 2 }, { id: 'B1', x: 2, y: 2 }, { id: 'C1', x: 2, y: 2, z: 2 }, { id: 'D1', x: 0, y: 2, z: 2 }
+        ],
+        elements: [
+          { kind: 'polygon', points: ['A', 'B', 'B1', 'A1'] },
+          { kind: 'polygon', points: ['A1', 'B1', 'C1', 'D1'] },
+          { kind: 'segment', from: 'B', to: 'C' },
+          { kind: 'segment', from: 'C', to: 'C1' },
+          { kind: 'segment', from: 'A', to: 'D', dashed: true },
+          { kind: 'segment', from: 'D', to: 'C', dashed: true },
+          { kind: 'segment', from: 'D', to: 'D1', dashed: true }
+        ]
+      }),
+      '```',
+      ''
+    ] : [];
+    return [
+      `## ${topic}`,
+      '',
+      '**Вступ**: це демонстраційний конспект, згенерований без підключення до моделі.',
+      '',
+      ...figure,
+      '- Перший ключовий пункт теми',
+      '- Другий ключовий пункт теми',
+      '',
+      '**Лайфхаки для НМТ**: оберіть іншого постачальника моделі, щоб отримати справжній конспект.'
+    ].join('\n');
+  },
+
+  createChat: () => ({
+    sendMessage: async ({ message }) => ({
+      text: `Демонстраційний режим. Ви запитали: **${message.trim()}**\n\n- Оберіть іншого постачальника моделі, щоб отримати повну відповідь.`
+    })
+  }),
+
+  generateSpeech: async () => {
+    // No audio fixtures; callers fall back to the system voice
+    throw new Error("Speech is not available in the fixture provider");
+  }
+});
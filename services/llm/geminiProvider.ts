@@ -0,0 +1,90 @@
+import { Chat, GoogleGenAI, Modality } from "@google/genai";
+import { LLMProvider, ProviderSettings } from "./types";
+import { GenerationError } from "../generationErrors";
+
+export const DEFAULT_MODEL = "gemini-2.5-flash";
+export const DEFAULT_TTS_MODEL = "gemini-2.5-flash-preview-tts";
+
+export const createGeminiProvider = (settings: ProviderSettings): LLMProvider => {
+  // Built on first use, so a provider without a key can exist until it is called
+  let client: GoogleGenAI | null = null;
+  const getClient = (): GoogleGenAI => {
+    if (!settings.apiKey) {
+      throw new GenerationError('missing-key', "Gemini API key is not set");
+    }
+    client ??= new GoogleGenAI({ apiKey: settings.apiKey });
+    return client;
+  };
+  const model = settings.model || DEFAULT_MODEL;
+  const ttsModel = settings.ttsModel || DEFAULT_TTS_MODEL;
+
+  return {
+    kind: 'gemini',
+
+    generateQuestions: async ({ prompt, schema, signal }) => {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          abortSignal: signal
+        }
+      });
+      if (!response.text) {
+        throw new Error("No data returned from Gemini");
+      }
+      return response.text;
+    },
+
+    generateNotes: async ({ prompt, signal }) => {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: prompt.text,
+        config: { abortSignal: signal }
+      });
+      return response.text || "";
+    },
+
+    createChat: (systemInstruction) => {
+      let chat: Chat | null = null;
+      return {
+        sendMessage: async ({ message, signal }) => {
+          chat ??= getClient().chats.create({
+            model,
+            config: { systemInstruction: systemInstruction.text }
+          });
+          const response = await chat.sendMessage({ message, config: { abortSignal: signal } });
+          return { text: response.text || "" };
+        }
+      };
+    },
+
+    generateSpeech: async (text, voiceName, signal) => {
+      const response = await getClient().models.generateContent({
+        model: ttsModel,
+        contents: {
+          parts: [{ text }]
+        },
+        config: {
+          abortSignal: signal,
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: {
+                voiceName: voiceName
+              }
+            }
+          }
+        }
+      });
+
+      // The API returns raw PCM data in base64 format inside the inlineData
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!base64Audio) {
+        throw new Error("No audio data returned");
+      }
+      return base64Audio;
+    }
+  };
+};
@@ -0,0 +1,96 @@
+import { LLMProvider, ProviderSettings } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createFixtureProvider } from "./fixtureProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { decryptSecret, encryptSecret } from "../secretBox";
+import type { RenderedPrompt } from "../promptRegistry";
+
+export type { LLMProvider, ProviderSettings, ProviderKind, ChatSession, ChatReply, ChatTurn, QuestionRequest, NotesRequest } from "./types";
+export { DEFAULT_MODEL as DEFAULT_GEMINI_MODEL, DEFAULT_TTS_MODEL as DEFAULT_GEMINI_TTS_MODEL } from "./geminiProvider";
+
+const SETTINGS_KEY = 'nmt_provider_settings';
+
+const DEFAULT_SETTINGS: ProviderSettings = { kind: 'proxy' };
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) {
+      return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+    }
+  } catch (e) {
+    console.error("Failed to read provider settings", e);
+  }
+  return DEFAULT_SETTINGS;
+};
+
+// A passphrase-protected key, once unlocked, is kept in memory only
+// until the page is reloaded
+let unlockedApiKey: string | undefined;
+
+export const saveProviderSettings = (settings: ProviderSettings): void => {
+  if (!settings.encryptedApiKey) unlockedApiKey = undefined;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Stores `apiKey` encrypted with the passphrase instead of in plain text
+export const saveProviderSettingsEncrypted = async (settings: ProviderSettings, passphrase: string): Promise<void> => {
+  const { apiKey, ...rest } = settings;
+  if (!apiKey) throw new Error("No API key to encrypt");
+  saveProviderSettings({ ...rest, encryptedApiKey: await encryptSecret(apiKey, passphrase) });
+  unlockedApiKey = apiKey;
+};
+
+export const isApiKeyLocked = (settings: ProviderSettings = loadProviderSettings()): boolean =>
+  !settings.apiKey && !!settings.encryptedApiKey && !unlockedApiKey;
+
+// Throws WrongPassphraseError if the passphrase does not fit
+export const unlockApiKey = async (passphrase: string): Promise<void> => {
+  const { encryptedApiKey } = loadProviderSettings();
+  if (encryptedApiKey) {
+    unlockedApiKey = await decryptSecret(encryptedApiKey, passphrase);
+  }
+};
+
+const withUnlockedKey = (settings: ProviderSettings): ProviderSettings =>
+  settings.apiKey || !settings.encryptedApiKey ? settings : { ...settings, apiKey: unlockedApiKey };
+
+const createProvider = (settings: ProviderSettings): LLMProvider => {
+  switch (settings.kind) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(settings);
+    case 'fixture':
+      return createFixtureProvider();
+    case 'gemini':
+      return createGeminiProvider(settings);
+    case 'proxy':
+    default:
+      return createProxyProvider(settings);
+  }
+};
+
+// Providers are cached per settings snapshot so that a settings change
+// takes effect on the next call without reloading the page.
+let cachedKey: string | null = null;
+let cachedProvider: LLMProvider | null = null;
+
+export const getProvider = (): LLMProvider => {
+  const settings = withUnlockedKey(loadProviderSettings());
+  const key = JSON.stringify(settings);
+  if (cachedProvider && cachedKey === key) {
+    return cachedProvider;
+  }
+  cachedProvider = createProvider(settings);
+  cachedKey = key;
+  return cachedProvider;
+};
+
+// One short chat message with settings that may not be saved yet
+export const testProviderConnection = async (settings: ProviderSettings, systemInstruction: RenderedPrompt, signal?: AbortSignal): Promise<void> => {
+  const reply = await createProvider(withUnlockedKey(settings)).createChat(systemInstruction)
+    .sendMessage({ message: "Відповідай одним словом: готово.", signal });
+  if (!reply.text.trim()) {
+    throw new Error("The model returned an empty reply");
+  }
+};
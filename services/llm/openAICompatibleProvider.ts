@@ -0,0 +1,118 @@
+import { Schema } from "@google/genai";
+import { LLMProvider, ProviderSettings } from "./types";
+
+// Sensible defaults for a llama.cpp / Ollama server running on this machine
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+const DEFAULT_MODEL = "llama3.1";
+const DEFAULT_TTS_MODEL = "tts-1";
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Gemini schemas use upper-case type names ("OBJECT"); JSON Schema wants lower-case.
+function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return result;
+}
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return window.btoa(binary);
+}
+
+export const createOpenAICompatibleProvider = (settings: ProviderSettings): LLMProvider => {
+  const baseUrl = (settings.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = settings.model || DEFAULT_MODEL;
+  const ttsModel = settings.ttsModel || DEFAULT_TTS_MODEL;
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) headers['Authorization'] = `Bearer ${settings.apiKey}`;
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) {
+      throw new Error(`Local model request failed: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+
+  const complete = async (messages: OpenAIMessage[], signal?: AbortSignal, extra: Record<string, unknown> = {}): Promise<string> => {
+    const response = await post('/chat/completions', { model, messages, ...extra }, signal);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || "";
+  };
+
+  return {
+    kind: 'openai-compatible',
+
+    generateQuestions: async ({ prompt, schema, signal }) => {
+      const text = await complete([{ role: 'user', content: prompt }], signal, {
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'questions',
+            // Wrapped in an object because many servers reject a top-level array
+            schema: { type: 'object', properties: { questions: toJsonSchema(schema) }, required: ['questions'] }
+          }
+        }
+      });
+      if (!text) {
+        throw new Error("No data returned from local model");
+      }
+      // Unwrap to the same array shape the Gemini provider returns
+      try {
+        const parsed = JSON.parse(text);
+        if (parsed && Array.isArray(parsed.questions)) {
+          return JSON.stringify(parsed.questions);
+        }
+      } catch (e) {
+        // Leave malformed text to the caller's parser
+      }
+      return text;
+    },
+
+    generateNotes: ({ prompt, signal }) => complete([{ role: 'user', content: prompt.text }], signal),
+
+    createChat: (systemInstruction) => {
+      const history: OpenAIMessage[] = [{ role: 'system', content: systemInstruction.text }];
+      return {
+        sendMessage: async ({ message, signal }) => {
+          const text = await complete([...history, { role: 'user', content: message }], signal);
+          // Only commit the turn to history once the server has answered
+          history.push({ role: 'user', content: message }, { role: 'assistant', content: text });
+          return { text };
+        }
+      };
+    },
+
+    generateSpeech: async (text, voiceName, signal) => {
+      // "pcm" is raw 16-bit 24kHz mono, the same format the players expect from Gemini
+      const response = await post('/audio/speech', {
+        model: ttsModel,
+        input: text,
+        voice: voiceName,
+        response_format: 'pcm'
+      }, signal);
+      return arrayBufferToBase64(await response.arrayBuffer());
+    }
+  };
+};
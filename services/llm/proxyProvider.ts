@@ -0,0 +1,82 @@
+import { GenerationError } from "../generationErrors";
+import { ChatBody, ChatTurn, LLMProvider, MAX_CHAT_TURNS, NotesBody, ProviderSettings, QuestionsBody, SpeechBody } from "./types";
+
+// Served by server/index.ts; the Vite dev server forwards /api to it
+const DEFAULT_BASE_URL = "/api";
+
+// Talks to the app's own API server, which holds the Gemini key.
+// Nothing secret lives in the browser bundle.
+export const createProxyProvider = (settings: ProviderSettings): LLMProvider => {
+  const baseUrl = (settings.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const post = async (path: string, body: QuestionsBody | NotesBody | ChatBody | SpeechBody, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      // The server's own key failed: retrying will not help and the user cannot fix it
+      if (data?.kind === 'auth') {
+        throw new GenerationError('server-config', `API server cannot reach the model: ${data.error}`);
+      }
+      // `status` lets classifyError tell rate limits and key problems apart
+      throw Object.assign(
+        new Error(`API server request failed: ${response.status} ${data?.error || response.statusText}`),
+        { status: response.status }
+      );
+    }
+    return response;
+  };
+
+  const postForJson = async (path: string, body: QuestionsBody | NotesBody | SpeechBody, signal?: AbortSignal) =>
+    (await post(path, body, signal)).json();
+
+  return {
+    kind: 'proxy',
+
+    generateQuestions: async ({ signal, ...request }) => {
+      const { text } = await postForJson('/questions', request, signal);
+      if (!text) {
+        throw new Error("No data returned from the API server");
+      }
+      return text;
+    },
+
+    // The server renders the prompts itself; only their versions are sent
+    generateNotes: async ({ prompt, subject, topic, signal }) =>
+      (await postForJson('/notes', { subject, topic, promptVersion: prompt.version }, signal)).text || "",
+
+    createChat: (systemInstruction) => {
+      // The server is stateless, so the recent conversation travels with every message
+      let history: ChatTurn[] = [];
+      return {
+        sendMessage: async ({ message, signal, onText }) => {
+          const response = await post('/chat', { promptVersion: systemInstruction.version, history, message }, signal);
+          let text = "";
+          if (response.body) {
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            for (;;) {
+              const { done, value } = await reader.read();
+              if (done) break;
+              text += value;
+              onText?.(text);
+            }
+          }
+          history = [...history, { role: 'user' as const, text: message }, { role: 'model' as const, text }].slice(-MAX_CHAT_TURNS * 2);
+          return { text };
+        }
+      };
+    },
+
+    generateSpeech: async (text, voiceName, signal) => {
+      const { audio } = await postForJson('/speech', { text, voiceName }, signal);
+      if (!audio) {
+        throw new Error("No audio data returned");
+      }
+      return audio;
+    }
+  };
+};
@@ -0,0 +1,89 @@
+import { Schema } from "@google/genai";
+import { EncryptedSecret } from "../secretBox";
+import type { RenderedPrompt } from "../promptRegistry";
+
+export type ProviderKind = 'proxy' | 'gemini' | 'openai-compatible' | 'fixture';
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  model?: string; // Text model id, provider default if empty
+  ttsModel?: string; // Speech model id, provider default if empty
+  baseUrl?: string; // OpenAI-compatible server, or the app's API server for the proxy
+  apiKey?: string; // Direct Gemini and OpenAI-compatible providers; the proxy keeps its key on the server
+  encryptedApiKey?: EncryptedSecret; // Stored instead of apiKey when protected by a passphrase
+}
+
+// Everything a provider needs to answer a question-generation request.
+// The prompt is already rendered; subject/count/topic are passed along so
+// that non-LLM providers (fixtures) can build answers without parsing it.
+export interface QuestionRequest {
+  prompt: string;
+  schema: Schema;
+  subject: string;
+  count: number;
+  topic?: string;
+  signal?: AbortSignal;
+}
+
+// Study notes for one programme topic. The prompt is already rendered; the
+// proxy sends only its version, subject and topic, and the server renders
+// the template again, so no prompt text travels from the browser.
+export interface NotesRequest {
+  prompt: RenderedPrompt;
+  subject: string;
+  topic: string;
+  signal?: AbortSignal;
+}
+
+export interface ChatReply {
+  text: string;
+}
+
+// Minimal chat surface used by ChatView (mirrors the Gemini Chat API).
+// Providers that stream call `onText` with the reply received so far.
+export interface ChatSession {
+  sendMessage(params: { message: string; signal?: AbortSignal; onText?: (text: string) => void }): Promise<ChatReply>;
+}
+
+// Exchanges of a chat the proxy sends along with a message; older ones are
+// dropped, the server keeps at most this many
+export const MAX_CHAT_TURNS = 40;
+
+// One earlier message of a chat, as the proxy sends it to the server
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// Bodies of the API server endpoints (server/index.ts). Answers are
+// { text } for questions and notes, { audio } for speech and a plain-text
+// stream for chat; errors are { error } with a matching HTTP status, plus
+// `kind` (a GenerationErrorKind) when the model request itself failed.
+export type QuestionsBody = Omit<QuestionRequest, 'signal'>;
+
+export interface NotesBody {
+  subject: string;
+  topic: string; // One of the topics in data/topics.ts
+  promptVersion: string; // A notes template for the subject
+}
+
+export interface ChatBody {
+  promptVersion: string; // A chat template, rendered by the server as the system instruction
+  history: ChatTurn[];
+  message: string;
+}
+
+export interface SpeechBody {
+  text: string;
+  voiceName: string;
+}
+
+export interface LLMProvider {
+  readonly kind: ProviderKind;
+  // Returns the raw JSON text with an array of questions
+  generateQuestions(request: QuestionRequest): Promise<string>;
+  generateNotes(request: NotesRequest): Promise<string>;
+  createChat(systemInstruction: RenderedPrompt): ChatSession;
+  // Returns base64 encoded 16-bit PCM audio at 24kHz
+  generateSpeech(text: string, voiceName: string, signal?: AbortSignal): Promise<string>;
+}
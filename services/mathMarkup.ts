@@ -0,0 +1,329 @@
+// Constrained math markup used in generated content: a small LaTeX subset
+// inside $...$ delimiters. Anything outside the subset is a syntax error, so
+// callers can fall back to plain text instead of showing broken markup.
+//
+// Supported: \frac{a}{b}, \sqrt{x}, \sqrt[n]{x}, x^{2}, a_{n}, \log_{a}{b},
+// \lg, \ln, trigonometric functions, \vec{a}, \overline{AB},
+// \begin{cases} ... \\ ... \end{cases}, \text{...}, \mathbb{R} and the
+// symbols in SYMBOLS below.
+
+export type MathNode =
+  | { type: 'symbol'; value: string; italic: boolean } // Letters are italic, digits and operators upright
+  | { type: 'fn'; name: string } // log, sin, ... drawn upright
+  | { type: 'text'; value: string }
+  | { type: 'group'; body: MathNode[] }
+  | { type: 'frac'; num: MathNode[]; den: MathNode[] }
+  | { type: 'sqrt'; index?: MathNode[]; body: MathNode[] }
+  | { type: 'scripts'; base: MathNode; sup?: MathNode[]; sub?: MathNode[] }
+  | { type: 'accent'; accent: 'vec' | 'overline'; body: MathNode[] }
+  | { type: 'cases'; rows: MathNode[][] };
+
+export class MathSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MathSyntaxError';
+  }
+}
+
+const SYMBOLS: Record<string, string> = {
+  cdot: '·', times: '×', div: '÷', pm: '±', mp: '∓',
+  le: '≤', leq: '≤', ge: '≥', geq: '≥', ne: '≠', neq: '≠', approx: '≈',
+  infty: '∞', circ: '°', degree: '°', angle: '∠', triangle: '△', parallel: '∥', perp: '⊥',
+  in: '∈', notin: '∉', cup: '∪', cap: '∩', emptyset: '∅', varnothing: '∅',
+  to: '→', Rightarrow: '⇒', Leftrightarrow: '⇔', cdots: '⋯', ldots: '…', dots: '…',
+  pi: 'π', alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', Delta: 'Δ', varphi: 'φ', phi: 'φ',
+  omega: 'ω', lambda: 'λ', mu: 'μ', rho: 'ρ', sigma: 'σ', theta: 'θ',
+  '{': '{', '}': '}', '%': '%', ',': ' ', ';': ' ', quad: ' ', '!': ''
+};
+
+const FUNCTIONS = ['log', 'lg', 'ln', 'sin', 'cos', 'tg', 'ctg', 'tan', 'cot', 'arcsin', 'arccos', 'arctg', 'arcctg'];
+
+const BLACKBOARD: Record<string, string> = { R: 'ℝ', N: 'ℕ', Z: 'ℤ', Q: 'ℚ' };
+
+// \left( and \right) only size the brackets in LaTeX; we draw them as is
+const IGNORED = ['left', 'right', 'displaystyle'];
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly src: string) {}
+
+  parse(): MathNode[] {
+    const nodes = this.sequence(() => false);
+    if (this.pos < this.src.length) throw new MathSyntaxError(`Unexpected "${this.src[this.pos]}"`);
+    return nodes;
+  }
+
+  private peek(): string | undefined {
+    return this.src[this.pos];
+  }
+
+  private sequence(stop: () => boolean): MathNode[] {
+    const nodes: MathNode[] = [];
+    while (this.pos < this.src.length && !stop()) {
+      const ch = this.peek()!;
+      if (ch === '}') break;
+      if (ch === '^' || ch === '_') {
+        // Scripts attach to the previous node, or to nothing ("^{2}")
+        const base = nodes.pop() ?? { type: 'group', body: [] };
+        nodes.push(this.scripts(base));
+        continue;
+      }
+      const node = this.atom();
+      if (node) nodes.push(node);
+    }
+    return nodes;
+  }
+
+  private scripts(base: MathNode): MathNode {
+    const node: { type: 'scripts'; base: MathNode; sup?: MathNode[]; sub?: MathNode[] } =
+      base.type === 'scripts' ? { ...base } : { type: 'scripts', base };
+    while (this.peek() === '^' || this.peek() === '_') {
+      const kind = this.src[this.pos++];
+      const arg = this.argument();
+      if (kind === '^') node.sup = arg;
+      else node.sub = arg;
+    }
+    return node;
+  }
+
+  // A braced group or a single token
+  private argument(): MathNode[] {
+    this.skipSpaces();
+    if (this.peek() === '{') return this.group();
+    const node = this.atom();
+    if (!node) throw new MathSyntaxError('Missing argument');
+    return [node];
+  }
+
+  private group(): MathNode[] {
+    this.pos++; // {
+    const body = this.sequence(() => false);
+    if (this.peek() !== '}') throw new MathSyntaxError('Unclosed "{"');
+    this.pos++;
+    return body;
+  }
+
+  private skipSpaces() {
+    while (this.peek() === ' ') this.pos++;
+  }
+
+  private atom(): MathNode | null {
+    const ch = this.peek()!;
+    if (ch === ' ') {
+      this.pos++;
+      return null;
+    }
+    if (ch === '{') return { type: 'group', body: this.group() };
+    if (ch === '\\') return this.command();
+    if (ch === '&') {
+      // Column separator in cases; we only align by rows
+      this.pos++;
+      return { type: 'symbol', value: ' ', italic: false };
+    }
+    this.pos++;
+    return { type: 'symbol', value: ch === '-' ? '−' : ch, italic: /[a-zA-Z]/.test(ch) };
+  }
+
+  private readName(): string {
+    const start = this.pos;
+    if (/[a-zA-Z]/.test(this.peek() ?? '')) {
+      while (/[a-zA-Z]/.test(this.peek() ?? '')) this.pos++;
+    } else {
+      this.pos++; // Single-character command like \{ or \,
+    }
+    return this.src.slice(start, this.pos);
+  }
+
+  private command(): MathNode | null {
+    this.pos++; // backslash
+    const name = this.readName();
+
+    if (name === '\\') throw new MathSyntaxError('Line break outside of cases');
+    if (IGNORED.includes(name)) return null;
+    if (name in SYMBOLS) return { type: 'symbol', value: SYMBOLS[name], italic: false };
+    if (FUNCTIONS.includes(name)) return { type: 'fn', name };
+
+    switch (name) {
+      case 'frac':
+      case 'dfrac':
+      case 'tfrac':
+        return { type: 'frac', num: this.argument(), den: this.argument() };
+      case 'sqrt': {
+        let index: MathNode[] | undefined;
+        if (this.peek() === '[') {
+          this.pos++;
+          index = this.sequence(() => this.peek() === ']');
+          if (this.peek() !== ']') throw new MathSyntaxError('Unclosed "["');
+          this.pos++;
+        }
+        return { type: 'sqrt', index, body: this.argument() };
+      }
+      case 'vec':
+      case 'overrightarrow':
+        return { type: 'accent', accent: 'vec', body: this.argument() };
+      case 'overline':
+        return { type: 'accent', accent: 'overline', body: this.argument() };
+      case 'text':
+      case 'mathrm': {
+        this.skipSpaces();
+        if (this.peek() !== '{') throw new MathSyntaxError(`\\${name} needs braces`);
+        const end = this.src.indexOf('}', this.pos);
+        if (end === -1) throw new MathSyntaxError('Unclosed "{"');
+        const value = this.src.slice(this.pos + 1, end);
+        this.pos = end + 1;
+        return { type: 'text', value };
+      }
+      case 'mathbb': {
+        const arg = this.argument();
+        const letter = arg.length === 1 && arg[0].type === 'symbol' ? BLACKBOARD[arg[0].value] : undefined;
+        if (!letter) throw new MathSyntaxError('Unsupported \\mathbb');
+        return { type: 'symbol', value: letter, italic: false };
+      }
+      case 'begin':
+        return this.cases();
+      default:
+        throw new MathSyntaxError(`Unsupported command \\${name}`);
+    }
+  }
+
+  private cases(): MathNode {
+    if (!this.src.startsWith('{cases}', this.pos)) throw new MathSyntaxError('Only the cases environment is supported');
+    this.pos += '{cases}'.length;
+
+    const rows: MathNode[][] = [];
+    for (;;) {
+      rows.push(this.sequence(() => this.src.startsWith('\\\\', this.pos) || this.src.startsWith('\\end', this.pos)));
+      if (this.src.startsWith('\\\\', this.pos)) {
+        this.pos += 2;
+        continue;
+      }
+      if (this.src.startsWith('\\end{cases}', this.pos)) {
+        this.pos += '\\end{cases}'.length;
+        return { type: 'cases', rows: rows.filter(row => row.length > 0) };
+      }
+      throw new MathSyntaxError('Unclosed cases');
+    }
+  }
+}
+
+export const parseMath = (src: string): MathNode[] => new Parser(src).parse();
+
+export const isValidMath = (src: string): boolean => {
+  try {
+    parseMath(src);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+export type MathSegment = { text: string } | { math: string };
+
+// "$$x$$" is accepted too and treated the same as "$x$"
+const MATH_PATTERN = /\$\$?([^$]+?)\$\$?/g;
+
+export const splitMath = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MATH_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push({ text: text.slice(last, index) });
+    segments.push({ math: match[1] });
+    last = index + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+};
+
+const SUPERSCRIPTS: Record<string, string> = { '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹', '−': '⁻', '°': '°' };
+
+// Brackets only where a bare "/" or "√" would be ambiguous
+const wrap = (value: string): string => value.length > 1 ? `(${value})` : value;
+
+const toSuperscript = (value: string): string => value.split('').every(ch => ch in SUPERSCRIPTS)
+  ? value.split('').map(ch => SUPERSCRIPTS[ch]).join('')
+  : `^${wrap(value)}`;
+
+// Compact one-line form: "x² + √2", "(a+1)/b". Used for aria labels
+// and wherever rich rendering is not possible.
+export const nodesToPlainText = (nodes: MathNode[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'symbol': return node.value;
+    case 'fn': return node.name;
+    case 'text': return node.value;
+    case 'group': return nodesToPlainText(node.body);
+    case 'frac': return `${wrap(nodesToPlainText(node.num))}/${wrap(nodesToPlainText(node.den))}`;
+    case 'sqrt': return `${node.index ? toSuperscript(nodesToPlainText(node.index)) : ''}√${wrap(nodesToPlainText(node.body))}`;
+    case 'accent': return node.accent === 'vec' ? `→${nodesToPlainText(node.body)}` : nodesToPlainText(node.body);
+    case 'cases': return `{ ${node.rows.map(nodesToPlainText).join('; ')} }`;
+    case 'scripts': {
+      const sup = node.sup ? nodesToPlainText(node.sup) : '';
+      // "log_2 8": the space keeps the base apart from the argument
+      const sub = node.sub ? `_${nodesToPlainText(node.sub)}${node.base.type === 'fn' ? ' ' : ''}` : '';
+      return `${nodesToPlainText([node.base])}${sub}${sup ? toSuperscript(sup) : ''}`;
+    }
+  }
+}).join('');
+
+const SPOKEN_SYMBOLS: Record<string, string> = {
+  '+': ' плюс ', '−': ' мінус ', '=': ' дорівнює ', '·': ' помножити на ', '×': ' помножити на ',
+  '÷': ' поділити на ', '/': ' поділити на ', '<': ' менше ', '>': ' більше ', '≤': ' менше або дорівнює ',
+  '≥': ' більше або дорівнює ', '≠': ' не дорівнює ', '≈': ' приблизно дорівнює ', '±': ' плюс-мінус ',
+  'π': ' пі ', '∞': ' нескінченність ', '°': ' градусів ', '∠': ' кут ', '△': ' трикутник ', '∥': ' паралельна ',
+  '⊥': ' перпендикулярна ', '∈': ' належить ', '∪': ' об’єднання ', '∩': ' перетин ', '→': ' прямує до ',
+  'α': ' альфа ', 'β': ' бета ', 'γ': ' гамма ', 'δ': ' дельта ', 'Δ': ' дельта ', 'φ': ' фі ', 'ω': ' омега ',
+  'λ': ' лямбда ', 'μ': ' мю ', 'ρ': ' ро ', 'σ': ' сигма ', 'θ': ' тета ', 'ℝ': ' множина дійсних чисел '
+};
+
+const SPOKEN_FUNCTIONS: Record<string, string> = {
+  log: 'логарифм', lg: 'десятковий логарифм', ln: 'натуральний логарифм',
+  sin: 'синус', cos: 'косинус', tg: 'тангенс', tan: 'тангенс', ctg: 'котангенс', cot: 'котангенс',
+  arcsin: 'арксинус', arccos: 'арккосинус', arctg: 'арктангенс', arcctg: 'арккотангенс'
+};
+
+// Words for text-to-speech: "x у квадраті плюс корінь з 2"
+export const nodesToSpeech = (nodes: MathNode[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'symbol': return SPOKEN_SYMBOLS[node.value] ?? node.value;
+    case 'fn': return ` ${SPOKEN_FUNCTIONS[node.name] ?? node.name} `;
+    case 'text': return ` ${node.value} `;
+    case 'group': return nodesToSpeech(node.body);
+    case 'frac': return ` дріб: ${nodesToSpeech(node.num)} на ${nodesToSpeech(node.den)}, `;
+    case 'sqrt': return node.index
+      ? ` корінь степеня ${nodesToSpeech(node.index)} з ${nodesToSpeech(node.body)}, `
+      : ` корінь з ${nodesToSpeech(node.body)}, `;
+    case 'accent': return node.accent === 'vec' ? ` вектор ${nodesToSpeech(node.body)} ` : ` ${nodesToSpeech(node.body)} `;
+    case 'cases': return ` система: ${node.rows.map(nodesToSpeech).join('; ')}. `;
+    case 'scripts': {
+      const base = nodesToSpeech([node.base]);
+      const sup = node.sup ? nodesToPlainText(node.sup) : '';
+      const sub = node.sub ? nodesToSpeech(node.sub) : '';
+      // log_2 8 reads as "логарифм за основою 2 від 8"
+      const subPart = sub ? (node.base.type === 'fn' ? ` за основою ${sub} від ` : ` ${sub} `) : '';
+      const supPart = !sup ? ''
+        : sup === '2' ? ' у квадраті '
+        : sup === '3' ? ' у кубі '
+        : sup === '°' ? ' градусів '
+        : ` у степені ${nodesToSpeech(node.sup!)} `;
+      return `${base}${subPart}${supPart}`;
+    }
+  }
+}).join('');
+
+// Replaces every $...$ in a text: valid markup by `convert`, invalid markup
+// by its source without delimiters
+const replaceMath = (text: string, convert: (nodes: MathNode[]) => string): string =>
+  splitMath(text).map(segment => {
+    if ('text' in segment) return segment.text;
+    try {
+      return convert(parseMath(segment.math));
+    } catch (e) {
+      return segment.math;
+    }
+  }).join('');
+
+export const mathToPlainText = (text: string): string => replaceMath(text, nodesToPlainText);
+
+export const mathToSpeech = (text: string): string =>
+  replaceMath(text, nodes => nodesToSpeech(nodes).replace(/\s+/g, ' ').trim());
@@ -0,0 +1,95 @@
+import { Answer, Question, QuestionType } from "../types";
+import { scoreQuestion } from "./scoring";
+import { NMT_SCALE_2026 } from "../data/nmtScale2026";
+
+// Task kinds of the real paper. 'multiple' ("оберіть три з семи") is not
+// generated by the app; exams stand in single-choice items worth its points.
+export type ScoredTaskKind = QuestionType | 'multiple';
+
+export interface TaskPoints {
+  kind: ScoredTaskKind;
+  count: number; // Tasks of this kind on the paper
+  points: number; // Maximum for one task
+}
+
+export interface SubjectScale {
+  subject: string;
+  tasks: TaskPoints[];
+  passRawScore: number; // Lowest test score that gets a rating (100)
+  // Rating for each test score from passRawScore up to the maximum
+  ratings: number[];
+  provisional?: boolean; // Ratings are not the official table, every result is an estimate
+}
+
+// Conversion tables of one exam year, see data/nmtScale<year>.ts
+export interface NmtScale {
+  version: string;
+  source: string;
+  subjects: SubjectScale[];
+}
+
+export interface ScaledScore {
+  subject: string;
+  rawScore: number; // On the official paper's scale
+  maxRawScore: number;
+  // The test had a different maximum than the real paper, so rawScore was
+  // scaled from the points actually earned, or the subject's table is provisional
+  estimated: boolean;
+  rating: number | null; // 100–200, null below the passing score
+  passed: boolean;
+  scaleVersion: string;
+}
+
+export const CURRENT_NMT_SCALE: NmtScale = NMT_SCALE_2026;
+
+export const maxRawScore = (subjectScale: SubjectScale): number =>
+  subjectScale.tasks.reduce((sum, task) => sum + task.count * task.points, 0);
+
+export const findSubjectScale = (subject: string, scale: NmtScale = CURRENT_NMT_SCALE): SubjectScale | undefined =>
+  scale.subjects.find(s => s.subject === subject);
+
+// Every matching row is worth a point, so a subject's matching task has as
+// many rows as it has points on the paper
+const DEFAULT_MATCHING_ROWS = 4;
+
+export const matchingRowCount = (subject: string, scale: NmtScale = CURRENT_NMT_SCALE): number =>
+  findSubjectScale(subject, scale)?.tasks.find(task => task.kind === 'matching')?.points ?? DEFAULT_MATCHING_ROWS;
+
+export const ratingForRawScore = (subjectScale: SubjectScale, rawScore: number): number | null => {
+  if (rawScore < subjectScale.passRawScore) return null;
+  const ratings = subjectScale.ratings;
+  return ratings[Math.min(rawScore - subjectScale.passRawScore, ratings.length - 1)];
+};
+
+// Converts earned points to the official test score and rating. Tests
+// shorter or longer than the real paper are scaled to its maximum first.
+// Undefined for subjects without a conversion table.
+export const scaleScore = (
+  subject: string,
+  points: number,
+  maxPoints: number,
+  scale: NmtScale = CURRENT_NMT_SCALE
+): ScaledScore | undefined => {
+  const subjectScale = findSubjectScale(subject, scale);
+  if (!subjectScale || maxPoints <= 0) return undefined;
+
+  const max = maxRawScore(subjectScale);
+  const rescaled = maxPoints !== max;
+  const rawScore = rescaled ? Math.round((points / maxPoints) * max) : points;
+  const estimated = rescaled || subjectScale.provisional === true;
+  const rating = ratingForRawScore(subjectScale, rawScore);
+  return { subject, rawScore, maxRawScore: max, estimated, rating, passed: rating !== null, scaleVersion: scale.version };
+};
+
+// Ratings of a finished test, one per subject that has a table. Questions
+// without a subject (imported packs) are left out.
+export const scaleSessionScores = (questions: Question[], answers: Answer[], scale: NmtScale = CURRENT_NMT_SCALE): ScaledScore[] => {
+  const bySubject = new Map<string, { points: number; maxPoints: number }>();
+  questions.forEach((q, idx) => {
+    if (!q.subject) return;
+    const { points, maxPoints } = scoreQuestion(q, answers[idx]);
+    const total = bySubject.get(q.subject) ?? { points: 0, maxPoints: 0 };
+    bySubject.set(q.subject, { points: total.points + points, maxPoints: total.maxPoints + maxPoints });
+  });
+  return [...bySubject].flatMap(([subject, total]) => scaleScore(subject, total.points, total.maxPoints, scale) ?? []);
+};
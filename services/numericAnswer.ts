@@ -0,0 +1,40 @@
+// Parsing of typed numeric answers: "2,5", "2.5", "-3", "3/4", "-1 1/2".
+
+const DECIMAL = /^[-−]?\d+(?:[.,]\d+)?$/;
+const FRACTION = /^([-−]?\d+)\s*\/\s*(\d+)$/;
+const MIXED = /^([-−]?)(\d+)\s+(\d+)\s*\/\s*(\d+)$/;
+
+export const parseNumericAnswer = (input: string): number | null => {
+  const value = input.trim().replace(/\s+/g, ' ');
+  if (!value) return null;
+
+  if (DECIMAL.test(value)) {
+    return parseFloat(value.replace('−', '-').replace(',', '.'));
+  }
+
+  const fraction = value.match(FRACTION);
+  if (fraction) {
+    const denominator = parseInt(fraction[2], 10);
+    return denominator === 0 ? null : parseInt(fraction[1].replace('−', '-'), 10) / denominator;
+  }
+
+  const mixed = value.match(MIXED);
+  if (mixed) {
+    const denominator = parseInt(mixed[4], 10);
+    if (denominator === 0) return null;
+    const magnitude = parseInt(mixed[2], 10) + parseInt(mixed[3], 10) / denominator;
+    return mixed[1] ? -magnitude : magnitude;
+  }
+
+  return null;
+};
+
+// Floating point noise (0.1 + 0.2) must not turn a right answer into a wrong one
+const EPSILON = 1e-9;
+
+export const numbersMatch = (actual: number, expected: number, tolerance = 0): boolean =>
+  Math.abs(actual - expected) <= tolerance + EPSILON;
+
+// Ukrainian notation with a decimal comma, at most 4 decimal places
+export const formatNumber = (value: number): string =>
+  String(Math.round(value * 10000) / 10000).replace('.', ',');
@@ -0,0 +1,57 @@
+import { Passage, Question } from "../types";
+import { hashString } from "./hash";
+
+// Blanks in gap-fill passages: "[[1]]", "[[2]]", ...
+const GAP_PATTERN = /\[\[(\d+)\]\]/g;
+
+export type PassageSegment = { text: string } | { gap: number };
+
+export const passageId = (text: string): string => `passage-${hashString(text.trim())}`;
+
+export const passageGaps = (passage: Passage): number[] =>
+  Array.from(passage.text.matchAll(GAP_PATTERN), match => Number(match[1]));
+
+// Splits the passage into plain text and gap markers for rendering
+export const splitPassage = (text: string): PassageSegment[] => {
+  const segments: PassageSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(GAP_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push({ text: text.slice(last, index) });
+    segments.push({ gap: Number(match[1]) });
+    last = index + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+};
+
+// Moves questions of the same passage next to the first one of the group,
+// keeping everything else in order. Gap-fill items are sorted by gap.
+export const groupByPassage = (questions: Question[]): Question[] => {
+  const result: Question[] = [];
+  const placed = new Set<string>();
+
+  questions.forEach(q => {
+    if (!q.passage) {
+      result.push(q);
+      return;
+    }
+    if (placed.has(q.passage.id)) return;
+    placed.add(q.passage.id);
+    const group = questions.filter(other => other.passage?.id === q.passage!.id);
+    result.push(...group.sort((a, b) => (a.gap ?? 0) - (b.gap ?? 0)));
+  });
+
+  return result;
+};
+
+// Indices of the questions that share the passage of questions[index]
+export const passageGroupRange = (questions: Question[], index: number): [number, number] | null => {
+  const id = questions[index]?.passage?.id;
+  if (!id) return null;
+  let start = index;
+  let end = index;
+  while (start > 0 && questions[start - 1].passage?.id === id) start--;
+  while (end < questions.length - 1 && questions[end + 1].passage?.id === id) end++;
+  return [start, end];
+};
@@ -0,0 +1,84 @@
+import { Subject } from "../types";
+import { PROMPT_TEMPLATES } from "../data/promptTemplates";
+
+export type PromptTask = 'quiz' | 'explanation' | 'notes' | 'chat';
+
+export interface PromptTemplate {
+  version: string; // Unique and never reused; stored with what the prompt produced
+  task: PromptTask;
+  subject?: Subject; // Only for this subject; templates without it serve all subjects
+  // Share of requests (0–1) this version gets while it is compared with the
+  // other versions of its slot. Without shares the last listed version is used.
+  trafficShare?: number;
+  variables: readonly string[];
+  text: string; // `{{name}}` placeholders for the variables
+}
+
+export type PromptVariables = Record<string, string | number>;
+
+export interface RenderedPrompt {
+  text: string;
+  version: string;
+}
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+// Versions that compete for one task and subject: subject-specific
+// templates replace the general ones entirely
+export const listTemplateVersions = (task: PromptTask, subject?: string): PromptTemplate[] => {
+  const specific = PROMPT_TEMPLATES.filter(t => t.task === task && t.subject !== undefined && t.subject === subject);
+  return specific.length > 0 ? specific : PROMPT_TEMPLATES.filter(t => t.task === task && t.subject === undefined);
+};
+
+export const findTemplate = (version: string): PromptTemplate | undefined =>
+  PROMPT_TEMPLATES.find(t => t.version === version);
+
+export const selectTemplate = (task: PromptTask, subject?: string, random: () => number = Math.random): PromptTemplate => {
+  const versions = listTemplateVersions(task, subject);
+  if (versions.length === 0) {
+    throw new PromptTemplateError(`No prompt template for ${task}${subject ? ` (${subject})` : ''}`);
+  }
+  // Shared traffic goes to the experiments; the rest to the latest plain version
+  let roll = random();
+  for (const template of versions) {
+    if (template.trafficShare === undefined) continue;
+    if (roll < template.trafficShare) return template;
+    roll -= template.trafficShare;
+  }
+  const plain = versions.filter(t => t.trafficShare === undefined);
+  return plain.length > 0 ? plain[plain.length - 1] : versions[versions.length - 1];
+};
+
+// A line whose placeholders all render empty is dropped with its prefix, so
+// optional rules ("5. {{mediaRule}}") leave no empty items behind
+export const renderTemplate = (template: PromptTemplate, variables: PromptVariables): RenderedPrompt => {
+  const missing = template.variables.filter(name => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new PromptTemplateError(`Prompt ${template.version} is missing variables: ${missing.join(', ')}`);
+  }
+
+  const lines = template.text.split('\n').flatMap(line => {
+    const names = [...line.matchAll(PLACEHOLDER)].map(match => match[1]);
+    const rendered = line.replace(PLACEHOLDER, (placeholder, name: string) => {
+      if (!template.variables.includes(name)) {
+        throw new PromptTemplateError(`Prompt ${template.version} uses undeclared variable ${name}`);
+      }
+      return String(variables[name]);
+    });
+    const allEmpty = names.length > 0 && names.every(name => String(variables[name]).trim() === '');
+    return allEmpty ? [] : [rendered];
+  });
+
+  return { text: lines.join('\n').trim(), version: template.version };
+};
+
+// Picks the version for this request and fills it in
+export const renderPrompt = (task: PromptTask, subject: string | undefined, variables: PromptVariables): RenderedPrompt =>
+  renderTemplate(selectTemplate(task, subject), variables);
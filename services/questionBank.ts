@@ -0,0 +1,247 @@
+import { Answer, Difficulty, Question, QuestionType } from "../types";
+import { openDatabase, requestToPromise, transactionDone, QUESTIONS_STORE } from "./db";
+import { isAnswered, isFullyCorrect } from "./scoring";
+import { hashString } from "./hash";
+import { groupByPassage } from "./passages";
+import { AnswerStats, DIFFICULTIES, DIFFICULTY_MIX, calibrateDifficulty } from "./difficulty";
+import { matchingRowCount } from "./nmtScale";
+
+export type AnswerResult = 'correct' | 'incorrect';
+
+export interface BankRecord {
+  key: string; // `${subject}|${topic}|${hash}`
+  subject: string;
+  topic: string; // Empty string for whole-course questions
+  hash: string;
+  question: Question;
+  createdAt: number;
+  timesSeen: number;
+  timesCorrect?: number; // Missing on records saved before difficulty calibration
+  lastResult?: AnswerResult;
+  lastSeenAt?: number;
+}
+
+export interface BankQuery {
+  subject?: string;
+  topic?: string;
+  maxTimesSeen?: number;
+  lastResult?: AnswerResult | 'unseen';
+  limit?: number;
+}
+
+// Thrown when the bank does not hold enough questions for an offline quiz
+export class BankShortageError extends Error {
+  constructor(message = "Not enough questions in the local bank") {
+    super(message);
+    this.name = 'BankShortageError';
+  }
+}
+
+// One block of an assembled quiz, e.g. 8 questions of history
+export interface BankBlock {
+  subject: string;
+  topic?: string;
+  count: number;
+  difficulty?: Difficulty; // Level of the test; the block mixes levels as in DIFFICULTY_MIX
+  type?: QuestionType; // Only items of this type (exam task groups); any type if omitted
+  points?: number; // Stamped on single-choice stand-ins, see services/exam.ts
+}
+
+// Records saved before question types existed are all single choice. Matching
+// items also need the row count of the subject's paper.
+const fitsBlock = (record: BankRecord, block: BankBlock): boolean => {
+  const question = record.question;
+  if (!block.type) return true;
+  if ((question.type || 'single') !== block.type) return false;
+  return question.type !== 'matching' || question.prompts.length === matchingRowCount(block.subject);
+};
+
+export const questionHash = (q: Question): string => {
+  const parts = q.type === 'matching' ? [q.text, ...q.prompts, ...q.options]
+    : q.type === 'open' ? [q.text, String(q.correctAnswer)]
+    : q.type === 'sequence' ? [q.text, ...q.items]
+    : [q.text, ...q.options];
+  // Generic prompts ("Gap 1", "Яку споруду зображено?") repeat across passages and images
+  if (q.passage) parts.push(q.passage.id);
+  if (q.media) parts.push(q.media.assetId);
+  return hashString(parts.map(part => part.trim().toLowerCase()).join('\u0000'));
+};
+
+export const saveQuestions = async (questions: Question[], topic?: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(QUESTIONS_STORE, 'readwrite');
+  const store = tx.objectStore(QUESTIONS_STORE);
+
+  for (const question of questions) {
+    const subject = question.subject || '';
+    const hash = questionHash(question);
+    const key = `${subject}|${topic || ''}|${hash}`;
+    const existing = await requestToPromise<BankRecord | undefined>(store.get(key));
+    if (existing) continue; // Keep statistics of questions we already have
+
+    const record: BankRecord = {
+      key,
+      subject,
+      topic: topic || '',
+      hash,
+      question,
+      createdAt: Date.now(),
+      timesSeen: 0
+    };
+    store.put(record);
+  }
+
+  await transactionDone(tx);
+};
+
+export const queryQuestions = async (query: BankQuery = {}): Promise<BankRecord[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(QUESTIONS_STORE, 'readonly').objectStore(QUESTIONS_STORE);
+
+  let records: BankRecord[];
+  if (query.subject !== undefined && query.topic !== undefined) {
+    records = await requestToPromise(store.index('subject_topic').getAll([query.subject, query.topic]));
+  } else if (query.subject !== undefined) {
+    records = await requestToPromise(store.index('subject').getAll(query.subject));
+  } else {
+    records = await requestToPromise(store.getAll());
+  }
+
+  records = records.filter(r => {
+    if (query.topic !== undefined && r.topic !== query.topic) return false;
+    if (query.maxTimesSeen !== undefined && r.timesSeen > query.maxTimesSeen) return false;
+    if (query.lastResult === 'unseen') return r.timesSeen === 0;
+    if (query.lastResult && r.lastResult !== query.lastResult) return false;
+    return true;
+  });
+
+  return query.limit !== undefined ? records.slice(0, query.limit) : records;
+};
+
+export const countQuestions = async (query: BankQuery = {}): Promise<number> =>
+  (await queryQuestions(query)).length;
+
+// Older records only know the last result; assume it held for every answer
+export const answerStats = (record: BankRecord): AnswerStats => ({
+  answered: record.timesSeen,
+  correct: record.timesCorrect ?? (record.lastResult === 'correct' ? record.timesSeen : 0)
+});
+
+// Answers given to each question across all its bank records, undefined for
+// questions the bank does not hold
+export const loadAnswerStats = async (questions: Question[]): Promise<(AnswerStats | undefined)[]> => {
+  const db = await openDatabase();
+  const byHash = db.transaction(QUESTIONS_STORE, 'readonly').objectStore(QUESTIONS_STORE).index('hash');
+
+  return Promise.all(questions.map(async question => {
+    const records = await requestToPromise<BankRecord[]>(byHash.getAll(questionHash(question)));
+    if (records.length === 0) return undefined;
+    return records.map(answerStats).reduce((sum, stats) => ({
+      answered: sum.answered + stats.answered,
+      correct: sum.correct + stats.correct
+    }));
+  }));
+};
+
+export interface PromptVersionStats extends AnswerStats {
+  promptVersion: string;
+  questions: number;
+}
+
+// Answers to the stored questions of each prompt version, so versions can be
+// compared by how students actually did on what they produced
+export const loadPromptVersionStats = async (): Promise<PromptVersionStats[]> => {
+  const byVersion = new Map<string, PromptVersionStats>();
+  for (const record of await queryQuestions()) {
+    const promptVersion = record.question.promptVersion;
+    if (!promptVersion) continue; // Saved before prompts were versioned
+    const stats = byVersion.get(promptVersion) ?? { promptVersion, questions: 0, answered: 0, correct: 0 };
+    const { answered, correct } = answerStats(record);
+    byVersion.set(promptVersion, {
+      promptVersion,
+      questions: stats.questions + 1,
+      answered: stats.answered + answered,
+      correct: stats.correct + correct
+    });
+  }
+  return [...byVersion.values()].sort((a, b) => a.promptVersion.localeCompare(b.promptVersion));
+};
+
+// Updates "times seen" and "last result" after a finished quiz
+export const recordAnswers = async (questions: Question[], answers: Answer[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(QUESTIONS_STORE, 'readwrite');
+  const byHash = tx.objectStore(QUESTIONS_STORE).index('hash');
+  const now = Date.now();
+
+  for (let i = 0; i < questions.length; i++) {
+    const answer = answers[i];
+    if (!isAnswered(questions[i], answer)) continue; // Skipped questions say nothing about the result
+
+    const correct = isFullyCorrect(questions[i], answer);
+    const records = await requestToPromise<BankRecord[]>(byHash.getAll(questionHash(questions[i])));
+    records.forEach(record => {
+      tx.objectStore(QUESTIONS_STORE).put({
+        ...record,
+        timesSeen: record.timesSeen + 1,
+        timesCorrect: answerStats(record).correct + (correct ? 1 : 0),
+        lastResult: correct ? 'correct' : 'incorrect',
+        lastSeenAt: now
+      });
+    });
+  }
+
+  await transactionDone(tx);
+};
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Takes the share of each level given by DIFFICULTY_MIX from `ranked`, keeping
+// its order; levels the bank is short of are filled from the rest
+function pickByDifficulty(ranked: BankRecord[], count: number, difficulty: Difficulty): BankRecord[] {
+  const levelOf = (record: BankRecord) => calibrateDifficulty(record.question.difficulty, answerStats(record));
+  const picked = new Set<BankRecord>();
+  DIFFICULTIES.forEach(level => {
+    const quota = Math.floor(count * DIFFICULTY_MIX[difficulty][level]);
+    ranked.filter(r => levelOf(r) === level).slice(0, quota).forEach(r => picked.add(r));
+  });
+  ranked.forEach(r => { if (picked.size < count) picked.add(r); });
+  return ranked.filter(r => picked.has(r)).slice(0, count);
+}
+
+// Builds a quiz from stored questions, preferring ones seen least often and
+// ones answered incorrectly last time. Returns null if any block cannot be filled.
+// Blocks of the same subject never get the same question twice.
+export const assembleQuiz = async (blocks: BankBlock[], random: () => number = Math.random): Promise<Question[] | null> => {
+  const selected: Question[] = [];
+  const used = new Set<string>();
+
+  for (const block of blocks) {
+    const records = (await queryQuestions({ subject: block.subject, topic: block.topic }))
+      .filter(r => !used.has(r.hash) && fitsBlock(r, block));
+    if (records.length < block.count) return null;
+
+    const ranked = shuffle(records, random).sort((a, b) =>
+      a.timesSeen - b.timesSeen || (a.lastResult === 'incorrect' ? -1 : 0) - (b.lastResult === 'incorrect' ? -1 : 0)
+    );
+    const chosen = block.difficulty ? pickByDifficulty(ranked, block.count, block.difficulty) : ranked.slice(0, block.count);
+    chosen.forEach(r => used.add(r.hash));
+    // Records saved before question types existed are all single choice
+    selected.push(...chosen.map(r => ({
+      ...r.question,
+      type: r.question.type || 'single',
+      subject: r.subject,
+      difficulty: calibrateDifficulty(r.question.difficulty, answerStats(r)),
+      ...(block.points !== undefined && (r.question.type || 'single') === 'single' ? { points: block.points } : {})
+    } as Question)));
+  }
+
+  return groupByPassage(selected).map((q, index) => ({ ...q, id: index + 1 }));
+};
@@ -0,0 +1,80 @@
+import { Question } from "../types";
+
+// Thresholds tuned so that rephrased copies of the same item are caught,
+// while two different questions about the same event are kept.
+const TEXT_DUPLICATE_THRESHOLD = 0.8;
+const TEXT_SIMILAR_THRESHOLD = 0.4;
+const OPTIONS_DUPLICATE_THRESHOLD = 0.75;
+
+const normalize = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const tokenSet = (value: string): Set<string> =>
+  new Set(normalize(value).split(' ').filter(Boolean));
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let intersection = 0;
+  a.forEach(item => { if (b.has(item)) intersection++; });
+  return intersection / (a.size + b.size - intersection);
+}
+
+interface Fingerprint {
+  passageId?: string;
+  gap?: number;
+  mediaId?: string;
+  text: string;
+  textTokens: Set<string>;
+  options: Set<string>;
+}
+
+const fingerprint = (q: Question): Fingerprint => {
+  // Matching prompts are part of what makes the item distinct
+  const text = q.type === 'matching' ? [q.text, ...q.prompts].join(' ') : q.text;
+  return {
+    passageId: q.passage?.id,
+    gap: q.gap,
+    mediaId: q.media?.assetId,
+    text: normalize(text),
+    textTokens: tokenSet(text),
+    options: new Set(
+      q.type === 'open' ? [String(q.correctAnswer)]
+        : q.type === 'sequence' ? q.items.map(normalize)
+        : q.options.map(normalize)
+    ),
+  };
+};
+
+function isNearDuplicate(a: Fingerprint, b: Fingerprint): boolean {
+  // "What is the main idea of the text?" is a different task for every
+  // passage, and so is the same gap-fill prompt for every blank or the
+  // same "Яку пам'ятку зображено?" for every image
+  if (a.passageId !== b.passageId || a.gap !== b.gap || a.mediaId !== b.mediaId) return false;
+  if (a.text === b.text) return true;
+  const textSimilarity = jaccard(a.textTokens, b.textTokens);
+  if (textSimilarity >= TEXT_DUPLICATE_THRESHOLD) return true;
+  // Same question worded differently usually keeps the same answer options
+  return textSimilarity >= TEXT_SIMILAR_THRESHOLD && jaccard(a.options, b.options) >= OPTIONS_DUPLICATE_THRESHOLD;
+}
+
+// Returns the candidates that are not near-duplicates of `existing` or of
+// an earlier candidate. Order is preserved.
+export const dedupeQuestions = (existing: Question[], candidates: Question[]): Question[] => {
+  const seen = existing.map(fingerprint);
+  const unique: Question[] = [];
+
+  candidates.forEach(q => {
+    const fp = fingerprint(q);
+    if (!seen.some(other => isNearDuplicate(fp, other))) {
+      seen.push(fp);
+      unique.push(q);
+    }
+  });
+
+  return unique;
+};
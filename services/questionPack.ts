@@ -0,0 +1,158 @@
+import { Question, QuizSession, Subject } from "../types";
+import { findTopicByCode } from "../data/topics";
+import { validateQuestions } from "./questionValidator";
+import { createSession } from "./quizConfig";
+import { newSeed } from "./random";
+
+export const QUESTION_PACK_FORMAT = 'nmt-question-pack';
+export const QUESTION_PACK_VERSION = 1;
+
+export interface QuestionPackMetadata {
+  title: string;
+  author?: string;
+  description?: string;
+  subject?: Subject; // Omitted for mixed packs; questions then carry their own subject
+  topics?: string[]; // Topic codes from data/topics.ts, e.g. "HISTORY.2.3"
+  timeLimitMinutes?: number;
+  createdAt?: string; // ISO date
+}
+
+export interface QuestionPack {
+  format: typeof QUESTION_PACK_FORMAT;
+  version: number;
+  metadata: QuestionPackMetadata;
+  questions: Question[];
+}
+
+// Thrown with every problem found, so a teacher can fix a pack in one pass
+export class QuestionPackError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid question pack: ${issues.join('; ')}`);
+    this.name = 'QuestionPackError';
+    this.issues = issues;
+  }
+}
+
+const SUBJECTS = Object.values(Subject) as string[];
+
+// Two minutes per question when the pack does not set a limit
+const DEFAULT_SECONDS_PER_QUESTION = 120;
+
+export const parseQuestionPack = (json: string): QuestionPack => {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    throw new QuestionPackError(["файл не є коректним JSON"]);
+  }
+
+  const issues: string[] = [];
+  if (!raw || typeof raw !== 'object') {
+    throw new QuestionPackError(["очікується JSON-об'єкт"]);
+  }
+  if (raw.format !== QUESTION_PACK_FORMAT) {
+    issues.push(`поле "format" має дорівнювати "${QUESTION_PACK_FORMAT}"`);
+  }
+  if (!Number.isInteger(raw.version) || raw.version < 1 || raw.version > QUESTION_PACK_VERSION) {
+    issues.push(`непідтримувана версія формату: ${raw.version}`);
+  }
+
+  const metadata = raw.metadata || {};
+  if (typeof metadata.title !== 'string' || !metadata.title.trim()) {
+    issues.push('metadata.title є обов\'язковим');
+  }
+  if (metadata.author !== undefined && typeof metadata.author !== 'string') {
+    issues.push('metadata.author має бути рядком');
+  }
+  if (metadata.subject !== undefined && !SUBJECTS.includes(metadata.subject)) {
+    issues.push(`невідомий предмет: "${metadata.subject}"`);
+  }
+  if (metadata.timeLimitMinutes !== undefined && !(Number.isInteger(metadata.timeLimitMinutes) && metadata.timeLimitMinutes > 0)) {
+    issues.push('metadata.timeLimitMinutes має бути додатним цілим числом');
+  }
+  if (metadata.topics !== undefined) {
+    if (!Array.isArray(metadata.topics)) {
+      issues.push('metadata.topics має бути масивом кодів тем');
+    } else {
+      metadata.topics.forEach((code: unknown) => {
+        const ref = typeof code === 'string' ? findTopicByCode(code) : undefined;
+        if (!ref) {
+          issues.push(`невідомий код теми: "${code}"`);
+        } else if (metadata.subject && ref.subject !== metadata.subject) {
+          issues.push(`тема "${code}" не належить предмету "${metadata.subject}"`);
+        }
+      });
+    }
+  }
+
+  if (!Array.isArray(raw.questions) || raw.questions.length === 0) {
+    issues.push('пакет має містити непорожній масив questions');
+  } else {
+    const report = validateQuestions(raw.questions);
+    report.dropped.forEach(d => issues.push(`питання ${d.index + 1}: ${d.reason}`));
+    raw.questions.forEach((q: any, idx: number) => {
+      if (q && q.subject !== undefined && !SUBJECTS.includes(q.subject)) {
+        issues.push(`питання ${idx + 1}: невідомий предмет "${q.subject}"`);
+      }
+    });
+    raw.questions = report.valid;
+  }
+
+  if (issues.length > 0) {
+    throw new QuestionPackError(issues);
+  }
+
+  return {
+    format: QUESTION_PACK_FORMAT,
+    version: raw.version,
+    metadata,
+    questions: raw.questions.map((q: Question, index: number) => ({
+      ...q,
+      id: index + 1,
+      subject: q.subject || metadata.subject
+    }))
+  };
+};
+
+export const sessionFromPack = (pack: QuestionPack): QuizSession => createSession({
+  mode: 'practice',
+  source: { kind: 'pack' },
+  count: pack.questions.length,
+  timeLimit: pack.metadata.timeLimitMinutes
+    ? pack.metadata.timeLimitMinutes * 60
+    : pack.questions.length * DEFAULT_SECONDS_PER_QUESTION,
+  seed: newSeed()
+}, pack.questions, pack.metadata.title);
+
+export const packFromSession = (session: QuizSession): QuestionPack => {
+  const subjects = Array.from(new Set(session.questions.map(q => q.subject).filter(Boolean)));
+  const subject = subjects.length === 1 && SUBJECTS.includes(subjects[0]!) ? subjects[0] as Subject : undefined;
+
+  return {
+    format: QUESTION_PACK_FORMAT,
+    version: QUESTION_PACK_VERSION,
+    metadata: {
+      title: session.subject,
+      subject,
+      // Rounded up, so a short limit does not turn into 0, which import rejects
+      timeLimitMinutes: session.config.timeLimit !== null ? Math.max(1, Math.ceil(session.config.timeLimit / 60)) : undefined,
+      createdAt: new Date().toISOString()
+    },
+    // Answers are not part of the pack, only the questions themselves
+    questions: session.questions.map(q => ({ ...q }))
+  };
+};
+
+export const downloadQuestionPack = (pack: QuestionPack) => {
+  const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  const safeTitle = pack.metadata.title.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '').toLowerCase();
+  link.href = url;
+  link.download = `${safeTitle || 'nmt-pack'}.json`;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,337 @@
+import { Passage, Question, QuestionType } from "../types";
+import { parseNumericAnswer } from "./numericAnswer";
+import { passageGaps, passageId } from "./passages";
+import { findMediaAsset, mediaSrc } from "../data/mediaCatalog";
+import { parseFigure } from "./figures";
+import { isValidMath, splitMath } from "./mathMarkup";
+import { isDifficulty } from "./difficulty";
+import { findTopicByCode } from "../data/topics";
+import { matchingRowCount } from "./nmtScale";
+
+export interface DroppedQuestion {
+  index: number; // Position in the raw response
+  text: string; // Whatever text could be recovered, for logging
+  reason: string;
+}
+
+export interface ValidationReport {
+  valid: Question[];
+  dropped: DroppedQuestion[];
+  repairedCount: number; // Questions that passed only after a repair
+}
+
+const OPTIONS_COUNT = 4;
+const MATCHING_OPTIONS_COUNT = 5;
+const SEQUENCE_ITEMS_COUNT = 4;
+
+// LaTeX outside the supported math markup, converted to plain text
+const LATEX_REPLACEMENTS: [RegExp, string][] = [
+  [/\\frac\{([^{}]*)\}\{([^{}]*)\}/g, '($1)/($2)'],
+  [/\\sqrt\{([^{}]*)\}/g, '√($1)'],
+  [/\\cdot/g, '·'],
+  [/\\times/g, '×'],
+  [/\\pi/g, 'π'],
+  [/\\leq?/g, '≤'],
+  [/\\geq?/g, '≥'],
+  [/\\neq?/g, '≠'],
+  [/\\alpha/g, 'α'],
+  [/\\beta/g, 'β'],
+  [/\\circ/g, '°'],
+  [/\\left|\\right/g, ''],
+];
+
+const latexToPlainText = (value: string): string =>
+  LATEX_REPLACEMENTS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), value);
+
+// Keeps $...$ math the renderer understands; anything else (bare LaTeX,
+// unsupported commands, stray dollar signs) becomes plain text
+function repairText(value: string): string {
+  return splitMath(value).map(segment => {
+    if ('text' in segment) return latexToPlainText(segment.text).replace(/\$/g, '');
+    const math = segment.math.trim();
+    return isValidMath(math) ? `$${math}$` : latexToPlainText(math);
+  }).join('').trim();
+}
+
+// Option letters in the order models write them; matching tasks go up to Д/E
+const OPTION_LABEL_SETS = ['АБВГД', 'абвгд', 'ABCDE', 'abcde'];
+
+const hasOptionLabel = (option: string, letter: string | undefined): boolean =>
+  letter !== undefined && new RegExp(`^\\(?${letter}[).:]\\s+`).test(option);
+
+// "А) текст", "Б. текст", "(В) текст" -> "текст", but only when every option
+// carries the next letter: "Б. Хмельницький" alone is an initial, not a label
+function stripOptionLabels(options: string[]): string[] {
+  const labelled = OPTION_LABEL_SETS.some(letters => options.every((option, i) => hasOptionLabel(option, letters[i])));
+  return labelled ? options.map(option => option.replace(/^\(?\S[).:]\s+/, '')) : options;
+}
+
+type Tracker = (before: unknown, after: unknown) => unknown;
+
+type VariantResult = { fields?: Record<string, unknown>; reason?: string };
+
+// Repairs a list of strings and checks count, emptiness and uniqueness
+function validateStringList(value: unknown, expected: number, label: string, track: Tracker, stripLabels: boolean): { items?: string[]; reason?: string } {
+  if (!Array.isArray(value)) return { reason: `${label} is not an array` };
+  if (value.length !== expected) {
+    return { reason: `expected ${expected} ${label}, got ${value.length}` };
+  }
+  const repaired = value.map((o: unknown) =>
+    typeof o === 'string' || typeof o === 'number' ? repairText(String(o)) : '');
+  const items = (stripLabels ? stripOptionLabels(repaired) : repaired)
+    .map((item, i) => track(value[i], item) as string);
+  if (items.some(o => !o)) return { reason: `empty item in ${label}` };
+  if (new Set(items.map(o => o.toLowerCase())).size !== items.length) {
+    return { reason: `duplicate ${label}` };
+  }
+  return { items };
+}
+
+function parseIndex(value: unknown, track: Tracker): unknown {
+  if (typeof value === 'string' && /^\d+$/.test(value.trim())) {
+    return track(value, parseInt(value, 10));
+  }
+  return value;
+}
+
+const isIndex = (value: unknown, size: number): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < size;
+
+function validateSingle(raw: any, track: Tracker): VariantResult {
+  const options = validateStringList(raw.options, OPTIONS_COUNT, 'options', track, true);
+  if (!options.items) return { reason: options.reason };
+
+  const correctIndex = parseIndex(raw.correctIndex, track);
+  if (!isIndex(correctIndex, OPTIONS_COUNT)) {
+    return { reason: `correctIndex out of range: ${raw.correctIndex}` };
+  }
+  // Only exams set points (multiple-choice stand-ins); packs keep them
+  const points = Number.isInteger(raw.points) && raw.points > 1 ? raw.points : undefined;
+  return { fields: { options: options.items, correctIndex, points } };
+}
+
+// Generated items need the row count of their subject's paper. Packs keep the
+// rows they were exported with, as long as one option is left over.
+function validateMatching(raw: any, track: Tracker, subject?: string): VariantResult {
+  const rowCount = subject ? matchingRowCount(subject) : Array.isArray(raw.prompts) ? raw.prompts.length : 0;
+  if (rowCount < 1 || rowCount >= MATCHING_OPTIONS_COUNT) {
+    return { reason: `unexpected number of prompts: ${rowCount}` };
+  }
+  const prompts = validateStringList(raw.prompts, rowCount, 'prompts', track, false);
+  if (!prompts.items) return { reason: prompts.reason };
+  const options = validateStringList(raw.options, MATCHING_OPTIONS_COUNT, 'options', track, true);
+  if (!options.items) return { reason: options.reason };
+
+  if (!Array.isArray(raw.correctMatches) || raw.correctMatches.length !== rowCount) {
+    return { reason: `expected ${rowCount} correctMatches` };
+  }
+  const correctMatches = raw.correctMatches.map((m: unknown) => parseIndex(m, track));
+  if (!correctMatches.every((m: unknown) => isIndex(m, MATCHING_OPTIONS_COUNT))) {
+    return { reason: `correctMatches out of range: ${raw.correctMatches}` };
+  }
+  // Each option can be the answer for at most one prompt
+  if (new Set(correctMatches).size !== correctMatches.length) {
+    return { reason: 'correctMatches reuse the same option' };
+  }
+  return { fields: { prompts: prompts.items, options: options.items, correctMatches } };
+}
+
+function validateOpen(raw: any, track: Tracker): VariantResult {
+  let correctAnswer = raw.correctAnswer;
+  if (typeof correctAnswer === 'string') {
+    // Models sometimes send "2,5" or "3/4" as a string
+    correctAnswer = track(correctAnswer, parseNumericAnswer(correctAnswer));
+  }
+  if (typeof correctAnswer !== 'number' || !Number.isFinite(correctAnswer)) {
+    return { reason: `correctAnswer is not a number: ${raw.correctAnswer}` };
+  }
+
+  const tolerance = raw.tolerance ?? 0;
+  if (typeof tolerance !== 'number' || tolerance < 0) {
+    return { reason: `invalid tolerance: ${raw.tolerance}` };
+  }
+
+  const fields: Record<string, unknown> = { correctAnswer, tolerance, options: undefined };
+  if (typeof raw.unit === 'string' && raw.unit.trim()) fields.unit = repairText(raw.unit);
+  return { fields };
+}
+
+function validateSequence(raw: any, track: Tracker): VariantResult {
+  const items = validateStringList(raw.items, SEQUENCE_ITEMS_COUNT, 'items', track, true);
+  if (!items.items) return { reason: items.reason };
+
+  if (!Array.isArray(raw.correctOrder)) return { reason: 'correctOrder is not an array' };
+  const correctOrder = raw.correctOrder.map((m: unknown) => parseIndex(m, track));
+  const isPermutation = correctOrder.length === SEQUENCE_ITEMS_COUNT
+    && correctOrder.every((m: unknown) => isIndex(m, SEQUENCE_ITEMS_COUNT))
+    && new Set(correctOrder).size === SEQUENCE_ITEMS_COUNT;
+  if (!isPermutation) {
+    return { reason: `correctOrder is not a permutation: ${raw.correctOrder}` };
+  }
+
+  // Models like to list events already in order, which gives the answer away.
+  // Show them shuffled instead, remapping the answer accordingly.
+  const isIdentity = correctOrder.every((m: number, idx: number) => m === idx);
+  if (!isIdentity) {
+    return { fields: { items: items.items, correctOrder } };
+  }
+  const shown: number[] = [...correctOrder];
+  for (let i = shown.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shown[i], shown[j]] = [shown[j], shown[i]];
+  }
+  if (shown.every((m, idx) => m === idx)) shown.reverse();
+  track(null, shown);
+  return {
+    fields: {
+      items: shown.map((m: number) => items.items![m]),
+      correctOrder: correctOrder.map((m: number) => shown.indexOf(m))
+    }
+  };
+}
+
+// Older data and some models omit the type; infer it from the fields present
+function resolveType(raw: any): QuestionType | undefined {
+  if (raw.type === undefined) return Array.isArray(raw.prompts) ? 'matching' : 'single';
+  return ['single', 'matching', 'open', 'sequence'].includes(raw.type) ? raw.type : undefined;
+}
+
+// Passages arrive once, inside the first question of their group; the rest
+// of the group refers to them by passageId. Exported packs embed the full
+// passage in every question, which resolves the same way.
+function collectPassages(raw: unknown[]): Map<string, Passage> {
+  const passages = new Map<string, Passage>();
+  raw.forEach(item => {
+    const candidate = item && typeof item === 'object' ? (item as any).passage : undefined;
+    if (!candidate || typeof candidate.text !== 'string' || !candidate.text.trim()) return;
+
+    const text = candidate.text.trim();
+    const passage: Passage = { id: passageId(text), text };
+    if (typeof candidate.title === 'string' && candidate.title.trim()) passage.title = candidate.title.trim();
+    if (typeof candidate.source === 'string' && candidate.source.trim()) passage.source = candidate.source.trim();
+
+    const ref = String(candidate.id ?? (item as any).passageId ?? passage.id);
+    if (!passages.has(ref)) passages.set(ref, passage);
+  });
+  return passages;
+}
+
+function resolvePassage(raw: any, passages: Map<string, Passage>): { fields?: Record<string, unknown>; reason?: string } {
+  const ref = raw.passage?.id ?? raw.passageId ?? (raw.passage ? passageId(String(raw.passage.text ?? '')) : undefined);
+  if (ref === undefined || ref === null || ref === '') {
+    return { fields: { passage: undefined, passageId: undefined, gap: undefined } };
+  }
+
+  const passage = passages.get(String(ref));
+  if (!passage) return { reason: `unknown passage: ${ref}` };
+
+  if (raw.gap === undefined || raw.gap === null) {
+    return { fields: { passage, passageId: undefined, gap: undefined } };
+  }
+  const gap = typeof raw.gap === 'string' ? parseInt(raw.gap, 10) : raw.gap;
+  // A gap item without its blank in the text cannot be answered
+  if (!passageGaps(passage).includes(gap)) return { reason: `gap ${raw.gap} is not in the passage` };
+  return { fields: { passage, passageId: undefined, gap } };
+}
+
+// Images come only from the bundled catalogue: the model (or a pack) names an
+// asset id and everything else is filled in from the catalogue entry
+function resolveMedia(raw: any): { fields?: Record<string, unknown>; reason?: string } {
+  const ref = raw.mediaId ?? raw.media?.assetId;
+  if (ref === undefined || ref === null || ref === '') {
+    return { fields: { media: undefined, mediaId: undefined } };
+  }
+
+  const asset = findMediaAsset(String(ref));
+  // "Яку споруду зображено?" without the picture cannot be answered
+  if (!asset) return { reason: `unknown media: ${ref}` };
+  return {
+    fields: {
+      media: { assetId: asset.id, src: mediaSrc(asset), alt: asset.alt, caption: asset.title, credit: asset.credit },
+      mediaId: undefined
+    }
+  };
+}
+
+function resolveFigure(raw: any): { fields?: Record<string, unknown>; reason?: string } {
+  if (raw.figure === undefined || raw.figure === null) return { fields: { figure: undefined } };
+  const { figure, reason } = parseFigure(raw.figure);
+  if (!figure) return { reason: `invalid figure: ${reason}` };
+  return { fields: { figure } };
+}
+
+function validateOne(raw: any, index: number, passages: Map<string, Passage>, subject?: string): { question?: Question; repaired: boolean; reason?: string } {
+  if (!raw || typeof raw !== 'object') {
+    return { repaired: false, reason: 'not an object' };
+  }
+
+  let repaired = false;
+  const track: Tracker = (before, after) => {
+    if (before !== after) repaired = true;
+    return after;
+  };
+
+  const type = resolveType(raw);
+  if (!type) return { repaired, reason: `unknown type: ${raw.type}` };
+
+  const text = typeof raw.text === 'string' ? track(raw.text, repairText(raw.text)) as string : '';
+  if (!text) return { repaired, reason: 'empty text' };
+
+  const explanation = typeof raw.explanation === 'string' ? track(raw.explanation, repairText(raw.explanation)) as string : '';
+  if (!explanation) return { repaired, reason: 'empty explanation' };
+
+  const variant = type === 'matching' ? validateMatching(raw, track, subject)
+    : type === 'open' ? validateOpen(raw, track)
+    : type === 'sequence' ? validateSequence(raw, track)
+    : validateSingle(raw, track);
+  if (!variant.fields) return { repaired, reason: variant.reason };
+
+  const linked = resolvePassage(raw, passages);
+  if (!linked.fields) return { repaired, reason: linked.reason };
+
+  const media = resolveMedia(raw);
+  if (!media.fields) return { repaired, reason: media.reason };
+
+  const figure = resolveFigure(raw);
+  if (!figure.fields) return { repaired, reason: figure.reason };
+
+  return {
+    repaired,
+    question: {
+      ...raw,
+      ...variant.fields,
+      ...linked.fields,
+      ...media.fields,
+      ...figure.fields,
+      // An unknown level is dropped; generation fills in the requested one
+      difficulty: isDifficulty(raw.difficulty) ? raw.difficulty : undefined,
+      // Codes outside the TOPICS tree would break per-topic results
+      topicCode: typeof raw.topicCode === 'string' && findTopicByCode(raw.topicCode.trim()) ? raw.topicCode.trim() : undefined,
+      id: Number.isInteger(raw.id) ? raw.id : index + 1,
+      type,
+      text,
+      explanation
+    } as Question
+  };
+}
+
+// Checks every generated question and repairs what can be repaired safely.
+// Anything that would be unanswerable or break the results screen is dropped.
+// `subject` is the one the items were generated for; packs have none.
+export const validateQuestions = (raw: unknown[], subject?: string): ValidationReport => {
+  const report: ValidationReport = { valid: [], dropped: [], repairedCount: 0 };
+  const passages = collectPassages(raw);
+
+  raw.forEach((item, index) => {
+    const { question, repaired, reason } = validateOne(item, index, passages, subject);
+    if (question) {
+      report.valid.push(question);
+      if (repaired) report.repairedCount++;
+    } else {
+      const text = item && typeof (item as any).text === 'string' ? (item as any).text : '';
+      report.dropped.push({ index, text: text.slice(0, 80), reason: reason || 'invalid' });
+    }
+  });
+
+  return report;
+};
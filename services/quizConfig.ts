@@ -0,0 +1,101 @@
+import { Difficulty, Question, QuizConfig, QuizMode, QuizSession, QuizSource, StreamingState, Subject } from "../types";
+import { CURRENT_EXAM_FORMAT, blockQuestionCount, examBlocks } from "./exam";
+import { newSeed } from "./random";
+
+// Modes offered for the quick subject tests on the main menu
+export type QuickMode = Extract<QuizMode, 'practice' | 'learn' | 'sprint' | 'sudden-death'>;
+
+export interface QuickModeInfo {
+  label: string;
+  description: string;
+  count: number;
+  timeLimit: number | null; // Seconds
+}
+
+export const QUICK_MODES: Record<QuickMode, QuickModeInfo> = {
+  practice: { label: 'Тренування', description: '5 питань, 20 хвилин', count: 5, timeLimit: 20 * 60 },
+  sprint: { label: 'Спринт', description: '10 питань за 5 хвилин', count: 10, timeLimit: 5 * 60 },
+  'sudden-death': { label: 'До першої помилки', description: 'Тест закінчується на першій помилці', count: 15, timeLimit: null },
+  learn: { label: 'Навчання', description: 'Без таймера, пояснення можна відкрити до відповіді', count: 5, timeLimit: null }
+};
+
+export const MODE_LABELS: Record<QuizMode, string> = {
+  practice: 'Тренування',
+  learn: 'Навчання',
+  sprint: 'Спринт',
+  'sudden-death': 'До першої помилки',
+  simulation: 'Симуляція',
+  exam: 'НМТ'
+};
+
+// Questions in a full simulation
+export const SIMULATION_LENGTH = 32;
+
+const TOPIC_QUIZ_LENGTH = 10;
+
+// Simulations and exams give no feedback until the end and their ratings
+// are kept for the admission calculator
+export const isStrictMode = (mode: QuizMode): boolean => mode === 'simulation' || mode === 'exam';
+
+export const quickQuizConfig = (subject: Subject, mode: QuickMode): QuizConfig => ({
+  mode,
+  source: { kind: 'subject', subject },
+  count: QUICK_MODES[mode].count,
+  timeLimit: QUICK_MODES[mode].timeLimit,
+  seed: newSeed()
+});
+
+export const topicQuizConfig = (subject: Subject, topic: string, difficulty: Difficulty): QuizConfig => ({
+  mode: 'practice',
+  source: { kind: 'topic', subject, topic },
+  count: TOPIC_QUIZ_LENGTH,
+  difficulty,
+  timeLimit: 15 * 60,
+  seed: newSeed()
+});
+
+export const simulationConfig = (source: Extract<QuizSource, { kind: 'mixed-simulation' | 'subject-simulation' }>, difficulty: Difficulty): QuizConfig => ({
+  mode: 'simulation',
+  source,
+  count: SIMULATION_LENGTH,
+  difficulty,
+  timeLimit: 60 * 60,
+  seed: newSeed()
+});
+
+export const examConfig = (elective: Subject, difficulty: Difficulty): QuizConfig => ({
+  mode: 'exam',
+  source: { kind: 'exam', elective },
+  count: examBlocks(elective).reduce((sum, block) => sum + blockQuestionCount(block), 0),
+  difficulty,
+  timeLimit: CURRENT_EXAM_FORMAT.sessions.reduce((sum, sitting) => sum + sitting.minutes * 60, 0),
+  seed: newSeed()
+});
+
+// Title shown while taking the test and on the results screen
+export const quizTitle = (config: QuizConfig): string => {
+  const { source } = config;
+  switch (source.kind) {
+    case 'subject':
+      return config.mode === 'practice' ? source.subject : `${MODE_LABELS[config.mode]}: ${source.subject}`;
+    case 'topic':
+      return `Тест по темі: ${source.topic}`;
+    case 'mixed-simulation':
+      return "НМТ Симуляція (Мультитест)";
+    case 'subject-simulation':
+      return `НМТ Симуляція: ${source.subject}`;
+    case 'exam':
+      return `НМТ: день тестування (${source.elective})`;
+    case 'pack':
+      return "Набір питань";
+  }
+};
+
+export const createSession = (config: QuizConfig, questions: Question[], title = quizTitle(config), streaming?: StreamingState): QuizSession => ({
+  config,
+  subject: title,
+  questions,
+  userAnswers: [],
+  startTime: Date.now(),
+  streaming
+});
@@ -0,0 +1,14 @@
+// mulberry32: small seeded generator, enough to replay the random choices of
+// a quiz (batch focuses, bank picks) from its config
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export const newSeed = (): number => Math.floor(Math.random() * 4294967296);
@@ -0,0 +1,52 @@
+import { classifyError, GenerationError, GenerationErrorKind, throwIfAborted } from "./generationErrors";
+
+// Base delay before the first retry, per error kind. Zero means "do not retry".
+const BASE_DELAY_MS: Record<GenerationErrorKind, number> = {
+  'rate-limit': 4000,
+  'network': 1000,
+  'parse': 300,
+  'unknown': 1000,
+  'auth': 0,
+  'missing-key': 0,
+  'server-config': 0,
+  'aborted': 0,
+};
+
+const MAX_RETRIES = 3;
+
+// Wakes up early when the signal aborts; the caller checks it afterwards
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+// Exponential backoff jittered to [0.5, 1.5) of the nominal delay, so that
+// parallel batches hitting a rate limit do not retry in lockstep. Unlike full
+// jitter, every retry still waits at least half the delay.
+const backoffDelay = (kind: GenerationErrorKind, attempt: number): number =>
+  BASE_DELAY_MS[kind] * 2 ** attempt * (0.5 + Math.random());
+
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  onRetry?: (attempt: number, error: GenerationError) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await task();
+    } catch (error) {
+      // Whatever a cancelled request failed with, it was the cancellation
+      throwIfAborted(signal);
+      const classified = classifyError(error);
+      if (attempt >= MAX_RETRIES || BASE_DELAY_MS[classified.kind] === 0) {
+        throw classified;
+      }
+      onRetry?.(attempt + 1, classified);
+      await sleep(backoffDelay(classified.kind, attempt), signal);
+    }
+  }
+};
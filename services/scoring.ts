@@ -0,0 +1,69 @@
+import { Answer, Question } from "../types";
+import { numbersMatch, parseNumericAnswer } from "./numericAnswer";
+
+// Open-answer math tasks are worth 2 points on the real test
+const OPEN_ANSWER_POINTS = 2;
+
+// Sequence tasks are worth 3 points on the real test
+const SEQUENCE_MAX_POINTS = 3;
+
+export interface QuestionScore {
+  points: number;
+  maxPoints: number;
+}
+
+// Empty answer in the shape the question type expects
+export const emptyAnswer = (q: Question): Answer => {
+  if (q.type === 'matching') return new Array(q.prompts.length).fill(-1);
+  if (q.type === 'open') return '';
+  if (q.type === 'sequence') return [];
+  return -1;
+};
+
+export const isAnswered = (q: Question, answer: Answer | undefined): boolean => {
+  if (answer === undefined) return false;
+  if (q.type === 'matching') return Array.isArray(answer) && answer.some(a => a !== -1);
+  if (q.type === 'open') return typeof answer === 'string' && answer.trim() !== '';
+  if (q.type === 'sequence') return Array.isArray(answer) && answer.length === q.items.length;
+  return answer !== -1;
+};
+
+// True when every part of the answer has been filled in
+export const isComplete = (q: Question, answer: Answer | undefined): boolean => {
+  if (answer === undefined) return false;
+  if (q.type === 'matching') return Array.isArray(answer) && answer.length === q.prompts.length && answer.every(a => a !== -1);
+  if (q.type === 'open') return typeof answer === 'string' && parseNumericAnswer(answer) !== null;
+  if (q.type === 'sequence') return Array.isArray(answer) && answer.length === q.items.length;
+  return answer !== -1;
+};
+
+// NMT scoring: 1 point for a single-choice item (or its own points when it
+// stands in for a multiple-choice task), 1 point per correct row
+// of a matching item, 2 points for a correct open answer. Sequences follow
+// the official rule: 1 point for the correct first event, 2 for the first
+// two, 3 for the first three (and therefore the whole order).
+export const scoreQuestion = (q: Question, answer: Answer | undefined): QuestionScore => {
+  if (q.type === 'matching') {
+    const rows = Array.isArray(answer) ? answer : [];
+    const points = q.correctMatches.filter((correct, row) => rows[row] === correct).length;
+    return { points, maxPoints: q.correctMatches.length };
+  }
+  if (q.type === 'open') {
+    const value = typeof answer === 'string' ? parseNumericAnswer(answer) : null;
+    const correct = value !== null && numbersMatch(value, q.correctAnswer, q.tolerance);
+    return { points: correct ? OPEN_ANSWER_POINTS : 0, maxPoints: OPEN_ANSWER_POINTS };
+  }
+  if (q.type === 'sequence') {
+    const order = Array.isArray(answer) ? answer : [];
+    let prefix = 0;
+    while (prefix < q.correctOrder.length && order[prefix] === q.correctOrder[prefix]) prefix++;
+    return { points: Math.min(prefix, SEQUENCE_MAX_POINTS), maxPoints: SEQUENCE_MAX_POINTS };
+  }
+  const maxPoints = q.points ?? 1;
+  return { points: answer === q.correctIndex ? maxPoints : 0, maxPoints };
+};
+
+export const isFullyCorrect = (q: Question, answer: Answer | undefined): boolean => {
+  const { points, maxPoints } = scoreQuestion(q, answer);
+  return points === maxPoints;
+};
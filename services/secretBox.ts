@@ -0,0 +1,61 @@
+// Passphrase encryption for secrets kept in localStorage (the API key).
+// AES-GCM with a key derived by PBKDF2, all through Web Crypto.
+
+export interface EncryptedSecret {
+  salt: string; // base64
+  iv: string; // base64
+  data: string; // base64 ciphertext with the GCM tag
+}
+
+// Thrown when the passphrase does not open the secret
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super("Wrong passphrase");
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+const PBKDF2_ITERATIONS = 250000;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): ArrayBuffer => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+const deriveKey = async (passphrase: string, salt: BufferSource): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptSecret = async (secret: string, passphrase: string): Promise<EncryptedSecret> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(secret));
+  return { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+export const decryptSecret = async (box: EncryptedSecret, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, fromBase64(box.salt));
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(box.iv) }, key, fromBase64(box.data));
+    return new TextDecoder().decode(data);
+  } catch {
+    // GCM cannot tell a wrong key from tampered data; both mean "cannot open"
+    throw new WrongPassphraseError();
+  }
+};
@@ -0,0 +1,38 @@
+import { openDatabase, requestToPromise, transactionDone, SIMULATION_SCORES_STORE } from "./db";
+import { ScaledScore } from "./nmtScale";
+
+// Ratings from finished simulations, the inputs of the admission calculator
+export interface SimulationScoreRecord extends ScaledScore {
+  id?: number;
+  takenAt: number;
+}
+
+export type ScorePick = 'latest' | 'best';
+
+export const recordSimulationScores = async (scores: ScaledScore[], takenAt: number): Promise<void> => {
+  if (scores.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(SIMULATION_SCORES_STORE, 'readwrite');
+  const store = tx.objectStore(SIMULATION_SCORES_STORE);
+  scores.forEach(score => store.add({ ...score, takenAt }));
+  await transactionDone(tx);
+};
+
+const ratingOf = (record: SimulationScoreRecord) => record.rating ?? 0;
+
+// One record per subject: the most recent one, or the highest rating
+export const loadSubjectScores = async (pick: ScorePick): Promise<Record<string, SimulationScoreRecord>> => {
+  const db = await openDatabase();
+  const records = await requestToPromise<SimulationScoreRecord[]>(
+    db.transaction(SIMULATION_SCORES_STORE).objectStore(SIMULATION_SCORES_STORE).getAll()
+  );
+
+  const bySubject: Record<string, SimulationScoreRecord> = {};
+  records.forEach(record => {
+    const current = bySubject[record.subject];
+    const better = !current
+      || (pick === 'latest' ? record.takenAt > current.takenAt : ratingOf(record) > ratingOf(current));
+    if (better) bySubject[record.subject] = record;
+  });
+  return bySubject;
+};
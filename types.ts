@@ -15,23 +15,191 @@ export enum AppState {
   RESULTS = 'RESULTS',
   ERROR = 'ERROR',
   STUDY = 'STUDY',
-  CHAT = 'CHAT'
+  CHAT = 'CHAT',
+  IMPORT = 'IMPORT',
+  SETTINGS = 'SETTINGS',
+  PROMPT_LAB = 'PROMPT_LAB',
+  ADMISSION = 'ADMISSION',
+  EXAM_BREAK = 'EXAM_BREAK',
+  HISTORY = 'HISTORY'
 }
 
-export interface Question {
+export type QuestionType = 'single' | 'matching' | 'open' | 'sequence';
+
+// Basic school level, the level of the real NMT paper, and above it
+export type Difficulty = 'basic' | 'standard' | 'advanced';
+
+// Shared reading text for a group of questions (English "Reading" and
+// "Use of English", Ukrainian literature excerpts). Gap-fill passages mark
+// their blanks as [[1]], [[2]], ... which questions refer to via `gap`.
+export interface Passage {
+  id: string; // Derived from the text, so the same passage always has the same id
+  title?: string;
+  text: string;
+  source?: string; // Author and work for literary excerpts
+}
+
+// Image attached to a question, resolved from data/mediaCatalog.ts
+export interface QuestionMedia {
+  assetId: string;
+  src: string; // Bundled asset under public/
+  alt: string; // Neutral description that does not give the answer away
+  caption: string; // What the image shows; revealed together with the answer
+  credit?: string;
+}
+
+// Declarative drawing for geometry tasks, rendered by GeometryFigure.
+// Abstract units: x to the right, y up, z away from the viewer; points with
+// z are drawn in oblique projection, the usual way solids look on paper.
+export interface FigurePoint {
+  id: string;
+  x: number;
+  y: number;
+  z?: number;
+  label?: string; // Defaults to the id, '' hides it
+}
+
+export type FigureElement =
+  | { kind: 'segment'; from: string; to: string; dashed?: boolean; label?: string }
+  | { kind: 'polygon'; points: string[]; dashed?: boolean; shaded?: boolean }
+  // `horizontal` lies in the base plane of a solid and is drawn as an ellipse
+  | { kind: 'circle'; center: string; radius: number; horizontal?: boolean; dashed?: boolean }
+  | { kind: 'angle'; vertex: string; from: string; to: string; label?: string; right?: boolean }
+  | { kind: 'label'; at: string; text: string };
+
+export interface FigureSpec {
+  points: FigurePoint[];
+  elements: FigureElement[];
+}
+
+interface BaseQuestion {
   id: number;
+  type: QuestionType;
   text: string;
-  options: string[];
-  correctIndex: number; // 0-based index
   explanation: string;
   subject?: string; // Optional field to track subject in mixed tests
+  passage?: Passage; // Same object for every question of the group
+  gap?: number; // Blank in the passage this question fills, for gap-fill items
+  media?: QuestionMedia;
+  figure?: FigureSpec;
+  difficulty?: Difficulty; // Level the item was generated for, recalibrated from answers in the bank
+  topicCode?: string; // Topic from data/topics.ts that the item tests, e.g. "HISTORY.2.3"
+  promptVersion?: string; // Prompt templates that produced the item, e.g. "quiz@1+explanation@1"
+}
+
+// Classic test item: one correct option out of four (А–Г)
+export interface SingleChoiceQuestion extends BaseQuestion {
+  type: 'single';
+  options: string[];
+  correctIndex: number; // 0-based index
+  points?: number; // 1 if omitted; more when it stands in for a task the app cannot generate, see services/exam.ts
+}
+
+// "Встановіть відповідність": numbered prompts (3 in math, 4 elsewhere),
+// 5 lettered options (А–Д)
+export interface MatchingQuestion extends BaseQuestion {
+  type: 'matching';
+  prompts: string[];
+  options: string[];
+  correctMatches: number[]; // Option index for each prompt
+}
+
+// Short open answer (math tasks 19–22): the student writes a number
+export interface OpenAnswerQuestion extends BaseQuestion {
+  type: 'open';
+  correctAnswer: number;
+  tolerance?: number; // Accepted absolute deviation, exact match if omitted
+  unit?: string; // Shown after the input, e.g. "см²"
+}
+
+// "Розташуйте події в хронологічній послідовності": 4 events to order
+export interface SequenceQuestion extends BaseQuestion {
+  type: 'sequence';
+  items: string[]; // In the order they are first shown
+  correctOrder: number[]; // Item indices from the earliest to the latest
+}
+
+export type Question = SingleChoiceQuestion | MatchingQuestion | OpenAnswerQuestion | SequenceQuestion;
+
+// Single choice: selected option index, -1 if unanswered.
+// Matching: selected option index per prompt, -1 for empty rows.
+// Open: the text typed by the student, '' if unanswered.
+// Sequence: item indices in the student's order, [] if not arranged yet.
+export type Answer = number | number[] | string;
+
+// Generated study notes with the prompt template version that produced them
+export interface StudyNotes {
+  text: string;
+  promptVersion: string;
+}
+
+// How a test behaves. Practice, learn, sprint and sudden death show the
+// answer right away; simulations and exams are strict and their ratings
+// feed the admission calculator.
+export type QuizMode = 'practice' | 'learn' | 'sprint' | 'sudden-death' | 'simulation' | 'exam';
+
+// What the questions were generated from, enough to generate them again
+export type QuizSource =
+  | { kind: 'subject'; subject: Subject }
+  | { kind: 'topic'; subject: Subject; topic: string }
+  | { kind: 'mixed-simulation' }
+  | { kind: 'subject-simulation'; subject: Subject; topic?: string }
+  | { kind: 'exam'; elective: Subject }
+  | { kind: 'pack' }; // Imported questions, a restart takes them again
+
+// Everything a test was started with; restarting a session starts its config
+export interface QuizConfig {
+  mode: QuizMode;
+  source: QuizSource;
+  count: number; // Questions asked for, the test may end up shorter
+  difficulty?: Difficulty;
+  timeLimit: number | null; // Seconds, null for an untimed test
+  seed: number; // Replays the random choices, see services/random.ts
+}
+
+// One timed sitting of the exam. Its subjects' questions are the slice
+// [start, end) of the session; nothing outside it can be opened meanwhile.
+export interface ExamPart {
+  title: string;
+  subjects: string[];
+  start: number;
+  end: number;
+  timeLimit: number; // Seconds
+}
+
+// Exam day: parts taken one after another with a break in between,
+// `partIndex` is the one in progress
+export interface ExamProgress {
+  parts: ExamPart[];
+  partIndex: number;
+  breakSeconds: number;
 }
 
 export interface QuizSession {
-  subject: string; // Changed to string to support "Simulation" title
+  config: QuizConfig;
+  subject: string; // Title shown on the results screen
   questions: Question[];
-  userAnswers: number[]; // Array of selected indices, -1 if unanswered
+  userAnswers: Answer[]; // One entry per question, see Answer
   startTime: number;
   endTime?: number;
-  timeLimit: number; // Time limit in seconds
+  questionTimes?: number[]; // Seconds each question was on screen, set when the test is finished
+  streaming?: StreamingState; // Set while later questions are still being generated
+  exam?: ExamProgress; // Only in exam mode
+  generation?: GenerationTally; // Generated tests only
+}
+
+export type ExamSession = QuizSession & { exam: ExamProgress };
+
+// Items lost or fixed while validating the model's answers for one test,
+// summed over all of its requests
+export interface GenerationTally {
+  dropped: number; // Rejected as invalid or of the wrong type; top-ups asked for replacements
+  repaired: number;
+  missing: number; // Still short after a request's own top-ups; simulations may replace them later
+}
+
+// A test that started before all of its questions were generated
+export interface StreamingState {
+  expectedCount: number; // Questions the finished test should have
+  timerThreshold: number; // The clock starts once this many questions have arrived
 }
\ No newline at end of file
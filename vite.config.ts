@@ -4,14 +4,15 @@ import react from '@vitejs/plugin-react';
 export default defineConfig(({ mode }) => {
   // Load env file based on `mode` in the current working directory.
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
-  // Cast process to any to resolve TS error when @types/node is missing
-  const env = loadEnv(mode, (process as any).cwd(), '');
+  const env = loadEnv(mode, process.cwd(), '');
 
   return {
     plugins: [react()],
-    define: {
-      // Expose process.env.API_KEY to the client-side code at build time
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
+    server: {
+      // The API key stays with the API server (server/index.ts); the app calls it through /api
+      proxy: {
+        '/api': `http://localhost:${env.PORT || 8787}`
+      }
     }
   };
-});
\ No newline at end of file
+});